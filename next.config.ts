@@ -5,6 +5,12 @@ const withNextIntl = createNextIntlPlugin('./src/i18n/request.ts');
 
 const nextConfig: NextConfig = {
   allowedDevOrigins: ['127.0.0.1', 'localhost'],
+  // ffmpeg measures uploads after they're assembled — keep the package (and its
+  // platform binary, which tracing can't see) as files next to the function
+  serverExternalPackages: ['@ffmpeg-installer/ffmpeg'],
+  outputFileTracingIncludes: {
+    '/api/upload/complete': ['./node_modules/@ffmpeg-installer/**'],
+  },
   experimental: {
     optimizePackageImports: ['lucide-react'],
   },
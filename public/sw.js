@@ -1,5 +1,5 @@
 // Tora Player Service Worker
-const CACHE_VERSION = 'tora-player-v6';
+const CACHE_VERSION = 'tora-player-v7';
 const STATIC_CACHE = `${CACHE_VERSION}-static`;
 const DYNAMIC_CACHE = `${CACHE_VERSION}-dynamic`;
 const API_CACHE = `${CACHE_VERSION}-api`;
@@ -10,6 +10,8 @@ const APP_SHELL = [
   '/he',
   '/he/offline',
   '/he/lessons',
+  '/he/search',
+  '/he/categories',
 ];
 
 // Static asset extensions
@@ -73,6 +75,19 @@ function isPageRequest(request) {
 self.addEventListener('fetch', (event) => {
   const url = new URL(event.request.url);
 
+  // Downloaded lessons play from the normal stream URL — answered from offline storage.
+  // Before the localhost check: without this, downloads don't play offline at all
+  if (event.request.method === 'GET' && url.origin === self.location.origin && url.pathname.startsWith('/api/audio/stream/')) {
+    event.respondWith(serveAudio(event.request, url));
+    return;
+  }
+
+  // And their images, for the gallery
+  if (event.request.method === 'GET' && url.origin === self.location.origin && url.pathname.startsWith('/api/images/stream/')) {
+    event.respondWith(serveImage(event.request, url));
+    return;
+  }
+
   // Skip caching entirely in development (localhost)
   if (url.hostname === 'localhost' || url.hostname === '127.0.0.1') {
     return; // Let the browser handle normally (no SW interception)
@@ -90,7 +105,7 @@ self.addEventListener('fetch', (event) => {
   // Skip chrome-extension and other non-http(s) requests
   if (!url.protocol.startsWith('http')) return;
 
-  // Skip audio/image streaming endpoints entirely — 206 partial responses can't be cached
+  // Skip other audio/image endpoints entirely — 206 partial responses can't be cached
   if (url.pathname.startsWith('/api/audio/') || url.pathname.startsWith('/api/images/')) {
     return; // Let browser handle natively (no SW interception)
   }
@@ -133,10 +148,10 @@ async function staleWhileRevalidate(request, cacheName) {
       return response;
     })
     .catch(() => {
-      // Network failed — if we have no cache, show offline page for navigations
+      // Network failed — if we have no cache, show a stand-in page for navigations
       if (!cached && request.mode === 'navigate') {
-        return caches.match('/he/offline').then((offlinePage) => {
-          return offlinePage || new Response('אופליין — לא נמצא עמוד', {
+        return offlineFallback(request).then((page) => {
+          return page || new Response('אופליין — לא נמצא עמוד', {
             status: 503,
             statusText: 'Service Unavailable',
             headers: { 'Content-Type': 'text/plain; charset=utf-8' },
@@ -154,6 +169,25 @@ async function staleWhileRevalidate(request, cacheName) {
   return cached || fetchPromise;
 }
 
+// A page to show offline in place of one never visited. The lessons, search and
+// category pages render from the offline catalog snapshot for the URL they're at,
+// so a cached copy of the same page with other filters — or of another category —
+// stands in; anything else gets the offline page
+const CATEGORY_PAGE = /^\/[a-z]{2}\/categories\/[^/]+$/;
+
+async function offlineFallback(request) {
+  const samePage = await caches.match(request, { ignoreSearch: true });
+  if (samePage) return samePage;
+
+  if (CATEGORY_PAGE.test(new URL(request.url).pathname)) {
+    const cache = await caches.open(DYNAMIC_CACHE);
+    const otherCategory = (await cache.keys()).find((key) => CATEGORY_PAGE.test(new URL(key.url).pathname));
+    if (otherCategory) return cache.match(otherCategory);
+  }
+
+  return caches.match('/he/offline');
+}
+
 // Network-first strategy (used for API calls)
 async function networkFirst(request, cacheName) {
   try {
@@ -231,3 +265,584 @@ async function handleShareTarget(request) {
     return Response.redirect('/he/lessons/upload', 303);
   }
 }
+
+// ── Auto-download of followed categories/series ──
+// Settings and downloads live in the app's offline IndexedDB (src/lib/offline-storage.ts) —
+// the name, version and stores below must match it.
+const OFFLINE_DB_NAME = 'tora-player-offline';
+const OFFLINE_DB_VERSION = 5;
+const AUDIO_STORE = 'audio-cache';
+const META_STORE = 'lesson-meta';
+const IMAGE_STORE = 'image-cache';
+const AUDIO_URL_INDEX = 'by-audio-url';
+const SETTINGS_STORE = 'settings';
+const AUTO_DOWNLOAD_KEY = 'auto-download';
+const STORAGE_POLICY_KEY = 'storage-policy';
+const LISTENING_KEY = 'listening';
+const PARTIAL_META_STORE = 'partial-meta';
+const PARTIAL_CHUNK_STORE = 'partial-chunks'; // keyed [lessonId, byte offset]
+// Received bytes are written to IndexedDB in pieces of about this size
+const CHUNK_FLUSH_BYTES = 2 * 1024 * 1024;
+const DAY_MS = 86400000;
+const AUTO_DOWNLOAD_TAG = 'auto-download';
+// The first check looks this far back
+const FIRST_CHECK_DAYS = 2;
+const MAX_NEW_LESSONS = 20;
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === AUTO_DOWNLOAD_TAG) {
+    event.waitUntil(autoDownloadNewLessons());
+  }
+});
+
+// Sent by the app on open when Periodic Background Sync isn't available, and after following
+self.addEventListener('message', (event) => {
+  if (event.data?.type === AUTO_DOWNLOAD_TAG) {
+    event.waitUntil(autoDownloadNewLessons());
+  }
+});
+
+// One connection for every request — closed when the app opens a newer version,
+// so its upgrade isn't blocked while audio plays from here
+let offlineDb = null;
+
+function openOfflineDb() {
+  if (!offlineDb) {
+    offlineDb = openOfflineDbConnection().catch((err) => {
+      offlineDb = null;
+      throw err;
+    });
+  }
+  return offlineDb;
+}
+
+function openOfflineDbConnection() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'lessonId' });
+      const metaStore = request.transaction.objectStore(META_STORE);
+      if (!metaStore.indexNames.contains(AUDIO_URL_INDEX)) metaStore.createIndex(AUDIO_URL_INDEX, 'audioUrl');
+      if (event.oldVersion > 0 && event.oldVersion < 4) normalizeDownloadUrls(metaStore);
+      if (!db.objectStoreNames.contains(AUDIO_STORE)) db.createObjectStore(AUDIO_STORE);
+      if (!db.objectStoreNames.contains(PARTIAL_META_STORE)) db.createObjectStore(PARTIAL_META_STORE, { keyPath: 'lessonId' });
+      if (!db.objectStoreNames.contains(PARTIAL_CHUNK_STORE)) db.createObjectStore(PARTIAL_CHUNK_STORE);
+      if (!db.objectStoreNames.contains(SETTINGS_STORE)) db.createObjectStore(SETTINGS_STORE);
+      if (!db.objectStoreNames.contains(IMAGE_STORE)) db.createObjectStore(IMAGE_STORE);
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      const release = () => {
+        db.close();
+        offlineDb = null;
+      };
+      db.onversionchange = release;
+      db.onclose = release;
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Same rewrite as offline-storage.ts: downloads from before v4 kept the URL they were
+// fetched from, but are looked up by the stream URL they're served at
+function normalizeDownloadUrls(metaStore) {
+  const cursorRequest = metaStore.openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const audioUrl = toStreamUrl(cursor.value.audioUrl);
+    if (audioUrl !== cursor.value.audioUrl) cursor.update({ ...cursor.value, audioUrl });
+    cursor.continue();
+  };
+}
+
+// Same mapping as normalizeAudioUrl (src/lib/audio-url.ts): direct R2 URLs → the stream proxy
+function toStreamUrl(url) {
+  if (!url || url.startsWith('/api/audio/stream/')) return url;
+  const match =
+    url.match(/https?:\/\/[^/]*\.r2\.cloudflarestorage\.com\/[^/]+\/(.+?)(?:\?.*)?$/) ||
+    url.match(/https?:\/\/[^/]*\.r2\.dev\/(.+?)(?:\?.*)?$/);
+  return match ? `/api/audio/stream/${encodeURIComponent(decodeURIComponent(match[1]))}` : url;
+}
+
+// Run one request against a store and resolve with its result
+function idbRequest(db, storeName, mode, run) {
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Same rule as src/lib/network.ts: unknown counts as unmetered
+function isUnmeteredConnection() {
+  const connection = self.navigator.connection;
+  if (!connection) return true;
+  if (connection.saveData) return false;
+  return connection.type !== 'cellular';
+}
+
+let autoDownloadRunning = null;
+
+function autoDownloadNewLessons() {
+  // Periodic sync and the app can ask at the same time — one run at a time
+  if (!autoDownloadRunning) {
+    autoDownloadRunning = runAutoDownload()
+      .catch((err) => console.error('[SW] Auto-download failed:', err))
+      .finally(() => { autoDownloadRunning = null; });
+  }
+  return autoDownloadRunning;
+}
+
+async function runAutoDownload() {
+  const db = await openOfflineDb();
+  const settings = await idbRequest(db, SETTINGS_STORE, 'readonly', (s) => s.get(AUTO_DOWNLOAD_KEY));
+  if (!settings || !settings.follows || settings.follows.length === 0) return;
+  if (settings.wifiOnly && !isUnmeteredConnection()) return;
+
+  const checkedAt = new Date().toISOString();
+  const since = settings.lastCheckedAt || new Date(Date.now() - FIRST_CHECK_DAYS * DAY_MS).toISOString();
+  const params = new URLSearchParams({
+    category_ids: settings.follows.filter((f) => f.type === 'category').map((f) => f.id).join(','),
+    series_ids: settings.follows.filter((f) => f.type === 'series').map((f) => f.id).join(','),
+    since,
+    limit: String(MAX_NEW_LESSONS),
+  });
+  const response = await fetch(`/api/lessons/new?${params}`);
+  if (!response.ok) return;
+  const { data: lessons } = await response.json();
+
+  const listening = await getListening(db);
+  const maxBytes = settings.maxStorageMB * 1024 * 1024;
+  const downloadedIds = [];
+  let allDone = true;
+
+  // Newest first, and no more than the number kept anyway
+  for (const lesson of lessons.slice(0, settings.maxLessons)) {
+    if (!lesson.audio_url) continue;
+    const existing = await idbRequest(db, META_STORE, 'readonly', (s) => s.get(lesson.id));
+    if (existing) continue;
+
+    const keep = new Set(downloadedIds);
+    if (!(await makeRoom(db, listening, keep, lesson.file_size || 0, maxBytes, settings.maxLessons - 1))) break;
+    if (await downloadForOffline(db, lesson)) {
+      downloadedIds.push(lesson.id);
+    } else {
+      allDone = false;
+    }
+  }
+
+  const keep = new Set(downloadedIds);
+  await trimAutoDownloads(db, listening, keep, settings.maxLessons, maxBytes);
+  await enforceStoragePolicy(db, listening, keep);
+
+  // Lessons that failed are looked for again next time
+  if (allDone) {
+    const latest = await idbRequest(db, SETTINGS_STORE, 'readonly', (s) => s.get(AUTO_DOWNLOAD_KEY));
+    await idbRequest(db, SETTINGS_STORE, 'readwrite', (s) => s.put({ ...latest, lastCheckedAt: checkedAt }, AUTO_DOWNLOAD_KEY));
+  }
+
+  if (downloadedIds.length > 0) {
+    const clients = await self.clients.matchAll({ type: 'window' });
+    clients.forEach((client) => client.postMessage({ type: 'auto-download-complete', count: downloadedIds.length }));
+  }
+}
+
+// ── Storage policy ──
+// The same rules as src/lib/storage-policy.ts — keep the two in step. The listening
+// progress they go by is in the app's localStorage, out of reach here; the app leaves
+// a copy under LISTENING_KEY (shareListening there).
+
+async function getListening(db) {
+  const saved = await idbRequest(db, SETTINGS_STORE, 'readonly', (s) => s.get(LISTENING_KEY));
+  return { lessons: {}, playingId: null, ...saved };
+}
+
+// When a download was last of use — last played, else when it arrived
+function lastUsed(meta, listening) {
+  return new Date(listening.lessons[meta.lessonId]?.lastPlayed || meta.downloadedAt).getTime();
+}
+
+// Downloads cleanup may remove, least recently played first: not pinned, not
+// playing and not in `keep` (what this run just downloaded)
+function evictable(metas, listening, keep) {
+  return metas
+    .filter((m) => !m.pinned && m.lessonId !== listening.playingId && !keep.has(m.lessonId))
+    .sort((a, b) => lastUsed(a, listening) - lastUsed(b, listening));
+}
+
+// Lessons listened through more than N days ago, then the least recently played
+// ones until the rest fit in the size limit
+function pickEvictions(metas, policy, listening, keep, now = Date.now()) {
+  const candidates = evictable(metas, listening, keep);
+  const picked = new Set();
+
+  if (policy.removeCompletedAfterDays != null) {
+    const cutoff = now - policy.removeCompletedAfterDays * DAY_MS;
+    for (const meta of candidates) {
+      const progress = listening.lessons[meta.lessonId];
+      if (progress?.listenedThrough && new Date(progress.lastPlayed).getTime() < cutoff) picked.add(meta.lessonId);
+    }
+  }
+
+  if (policy.maxSizeMB != null) {
+    const maxBytes = policy.maxSizeMB * 1024 * 1024;
+    let used = metas.reduce((sum, m) => sum + (picked.has(m.lessonId) ? 0 : m.fileSize || 0), 0);
+    for (const meta of candidates) {
+      if (used <= maxBytes) break;
+      if (picked.has(meta.lessonId)) continue;
+      picked.add(meta.lessonId);
+      used -= meta.fileSize || 0;
+    }
+  }
+
+  return candidates.filter((m) => picked.has(m.lessonId));
+}
+
+async function enforceStoragePolicy(db, listening, keep) {
+  const policy = await idbRequest(db, SETTINGS_STORE, 'readonly', (s) => s.get(STORAGE_POLICY_KEY));
+  if (!policy) return;
+  const metas = await idbRequest(db, META_STORE, 'readonly', (s) => s.getAll());
+  for (const meta of pickEvictions(metas, policy, listening, keep)) {
+    await deleteDownload(db, meta);
+  }
+}
+
+async function deleteDownload(db, meta) {
+  await idbRequest(db, AUDIO_STORE, 'readwrite', (s) => s.delete(meta.lessonId));
+  await idbRequest(db, META_STORE, 'readwrite', (s) => s.delete(meta.lessonId));
+  for (const url of meta.imageUrls || []) {
+    await idbRequest(db, IMAGE_STORE, 'readwrite', (s) => s.delete(url));
+  }
+}
+
+// Evict auto-downloads, least recently played first, until `bytes` more fit and at
+// most `maxLessons` remain. The user's own downloads are never evicted for these limits.
+// False if it can't fit however many are evicted.
+async function makeRoom(db, listening, keep, bytes, maxBytes, maxLessons) {
+  if (bytes > maxBytes) return false;
+  const metas = await idbRequest(db, META_STORE, 'readonly', (s) => s.getAll());
+  const autos = metas.filter((m) => m.autoDownloaded);
+  const candidates = evictable(autos, listening, keep);
+  let used = autos.reduce((sum, m) => sum + (m.fileSize || 0), 0);
+  let count = autos.length;
+  while (candidates.length > 0 && (used + bytes > maxBytes || count > maxLessons)) {
+    const oldest = candidates.shift();
+    used -= oldest.fileSize || 0;
+    count--;
+    await deleteDownload(db, oldest);
+  }
+  return used + bytes <= maxBytes;
+}
+
+// Apply the limits again — they may have been lowered since the last run
+function trimAutoDownloads(db, listening, keep, maxLessons, maxBytes) {
+  return makeRoom(db, listening, keep, 0, maxBytes, maxLessons);
+}
+
+async function downloadForOffline(db, lesson) {
+  try {
+    const blob = await downloadAudio(db, lesson.id, lesson.audio_url);
+    const images = await downloadImages(db, lesson.image_urls || []);
+    await idbRequest(db, AUDIO_STORE, 'readwrite', (s) => s.put(blob, lesson.id));
+    await idbRequest(db, META_STORE, 'readwrite', (s) => s.put({
+      lessonId: lesson.id,
+      title: lesson.title,
+      hebrewTitle: lesson.hebrew_title || lesson.title,
+      audioUrl: lesson.audio_url,
+      duration: lesson.duration,
+      fileSize: blob.size + images.size,
+      imageUrls: images.urls,
+      downloadedAt: new Date().toISOString(),
+      seriesName: lesson.series?.hebrew_name || lesson.series?.name || undefined,
+      date: lesson.date,
+      autoDownloaded: true,
+    }));
+    await discardPartialDownload(db, lesson.id);
+    return true;
+  } catch (err) {
+    console.error(`[SW] Auto-download of ${lesson.id} failed:`, err);
+    return false;
+  }
+}
+
+// ── Partial downloads ──
+// The same chunked, resumable write as downloadLesson in src/lib/offline-storage.ts,
+// into the same stores — a download cut off here or in the app picks up where it
+// stopped, whichever of the two tries next.
+
+function chunkRange(lessonId) {
+  return IDBKeyRange.bound([lessonId, 0], [lessonId, Infinity]);
+}
+
+async function discardPartialDownload(db, lessonId) {
+  await idbRequest(db, PARTIAL_CHUNK_STORE, 'readwrite', (s) => s.delete(chunkRange(lessonId)));
+  await idbRequest(db, PARTIAL_META_STORE, 'readwrite', (s) => s.delete(lessonId));
+}
+
+// Append a received byte range, then record it — a crash in between only loses that range
+async function savePartialChunk(db, partial, chunk) {
+  await idbRequest(db, PARTIAL_CHUNK_STORE, 'readwrite', (s) => s.put(chunk, [partial.lessonId, partial.received]));
+  partial.received += chunk.size;
+  await idbRequest(db, PARTIAL_META_STORE, 'readwrite', (s) => s.put(partial));
+}
+
+// "bytes 500-999/1000" → { start: 500, total: 1000 } (total 0 if unknown)
+function parseContentRange(header) {
+  const match = header?.match(/^bytes (\d+)-\d+\/(\d+|\*)$/);
+  if (!match) return null;
+  return { start: Number(match[1]), total: match[2] === '*' ? 0 : Number(match[2]) };
+}
+
+// The whole audio file at `url`, resuming from any bytes already saved for the lesson.
+// Whatever arrives before a failure stays saved for next time.
+async function downloadAudio(db, lessonId, url) {
+  let partial = await idbRequest(db, PARTIAL_META_STORE, 'readonly', (s) => s.get(lessonId));
+  if (partial && partial.url !== url) {
+    await discardPartialDownload(db, lessonId);
+    partial = undefined;
+  }
+
+  const headers = partial?.received ? { Range: `bytes=${partial.received}-` } : {};
+  const response = await fetch(url, { headers });
+  if (response.status === 416 && partial) {
+    // Nothing left past what we have — it doesn't match the file any more
+    await discardPartialDownload(db, lessonId);
+  }
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+  const etag = response.headers.get('ETag');
+  const contentLength = Number(response.headers.get('content-length') || 0);
+
+  if (partial && response.status === 206) {
+    // Resuming — only if it's still the same file and continues exactly where we stopped
+    const range = parseContentRange(response.headers.get('Content-Range'));
+    if (!range || (partial.etag && etag && partial.etag !== etag) || range.start !== partial.received) {
+      await discardPartialDownload(db, lessonId);
+      throw new Error('File changed since the download started');
+    }
+    if (range.total) partial.totalSize = range.total;
+  } else {
+    // A full response — start over from the first byte
+    if (partial) await discardPartialDownload(db, lessonId);
+    partial = { lessonId, url, etag, totalSize: contentLength, received: 0 };
+    await idbRequest(db, PARTIAL_META_STORE, 'readwrite', (s) => s.put(partial));
+  }
+
+  const reader = response.body.getReader();
+  let buffer = [];
+  let buffered = 0;
+  const flush = async () => {
+    if (buffered === 0) return;
+    const chunk = new Blob(buffer);
+    buffer = [];
+    buffered = 0;
+    await savePartialChunk(db, partial, chunk);
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer.push(value);
+      buffered += value.length;
+      if (buffered >= CHUNK_FLUSH_BYTES) await flush();
+    }
+  } finally {
+    await flush();
+  }
+
+  // Integrity check: the whole file, no more and no less
+  if (partial.totalSize > 0 && partial.received !== partial.totalSize) {
+    throw new Error(`Incomplete download: got ${partial.received}/${partial.totalSize} bytes`);
+  }
+
+  const chunks = await idbRequest(db, PARTIAL_CHUNK_STORE, 'readonly', (s) => s.getAll(chunkRange(lessonId)));
+  const blob = new Blob(chunks);
+  if (partial.totalSize > 0 && blob.size !== partial.totalSize) {
+    await discardPartialDownload(db, lessonId);
+    throw new Error(`Assembled file is ${blob.size} bytes, expected ${partial.totalSize}`);
+  }
+  return blob;
+}
+
+// Same as downloadImages in offline-storage.ts: an image that fails is left out, not fatal
+async function downloadImages(db, urls) {
+  const saved = [];
+  let size = 0;
+  for (const url of urls) {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const blob = await response.blob();
+      await idbRequest(db, IMAGE_STORE, 'readwrite', (s) => s.put(blob, url));
+      saved.push(url);
+      size += blob.size;
+    } catch (err) {
+      console.warn(`[SW] Image download failed: ${url}`, err);
+    }
+  }
+  return { urls: saved, size };
+}
+
+// ── Offline audio ──
+
+// Same mapping as the stream route (src/app/api/audio/stream/[fileKey]/route.ts)
+function getAudioContentType(path) {
+  const ext = decodeURIComponent(path).split('.').pop()?.toLowerCase();
+  switch (ext) {
+    case 'mp3':                return 'audio/mpeg';
+    case 'm4a': case 'aac':   return 'audio/mp4';
+    case 'mp4':                return 'audio/mp4';
+    case 'ogg': case 'opus':  return 'audio/ogg';
+    case 'wav':                return 'audio/wav';
+    case 'flac':               return 'audio/flac';
+    case 'webm':               return 'audio/webm';
+    default:                   return 'audio/mpeg';
+  }
+}
+
+// The downloaded copy of a stream URL, if there is one
+async function getOfflineAudio(url) {
+  const db = await openOfflineDb();
+  const meta = await idbRequest(db, META_STORE, 'readonly', (s) => s.index(AUDIO_URL_INDEX).get(url.pathname));
+  if (!meta) return null;
+  return idbRequest(db, AUDIO_STORE, 'readonly', (s) => s.get(meta.lessonId));
+}
+
+// "bytes=500-999", "bytes=500-" or "bytes=-500" → [start, end] inclusive; null if unsatisfiable
+function parseRange(header, size) {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+  let start;
+  let end;
+  if (match[1] === '') {
+    start = Math.max(0, size - Number(match[2]));
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+  }
+  return start <= end && start < size ? [start, end] : null;
+}
+
+// Serve a downloaded lesson like the stream route would — 200, or 206 for a Range —
+// and fall through to the network for anything not downloaded
+async function serveAudio(request, url) {
+  let blob = null;
+  try {
+    blob = await getOfflineAudio(url);
+  } catch (err) {
+    console.warn('[SW] Offline audio lookup failed:', err);
+  }
+  if (!blob) return fetch(request);
+
+  const headers = new Headers({
+    'Content-Type': blob.type || getAudioContentType(url.pathname),
+    'Accept-Ranges': 'bytes',
+  });
+
+  const rangeHeader = request.headers.get('Range');
+  if (!rangeHeader) {
+    headers.set('Content-Length', String(blob.size));
+    return new Response(blob, { status: 200, headers });
+  }
+
+  const range = parseRange(rangeHeader, blob.size);
+  if (!range) {
+    headers.set('Content-Range', `bytes */${blob.size}`);
+    return new Response(null, { status: 416, statusText: 'Range Not Satisfiable', headers });
+  }
+
+  const [start, end] = range;
+  headers.set('Content-Length', String(end - start + 1));
+  headers.set('Content-Range', `bytes ${start}-${end}/${blob.size}`);
+  return new Response(blob.slice(start, end + 1), { status: 206, statusText: 'Partial Content', headers });
+}
+
+// ── Offline images ──
+
+// A downloaded lesson's image, or the network for any other
+async function serveImage(request, url) {
+  let blob = null;
+  try {
+    const db = await openOfflineDb();
+    blob = await idbRequest(db, IMAGE_STORE, 'readonly', (s) => s.get(url.pathname));
+  } catch (err) {
+    console.warn('[SW] Offline image lookup failed:', err);
+  }
+  if (!blob) return fetch(request);
+
+  return new Response(blob, {
+    status: 200,
+    headers: {
+      'Content-Type': blob.type || 'image/jpeg',
+      'Content-Length': String(blob.size),
+    },
+  });
+}
+
+// ── Offline outbox ──
+// Progress and bookmark changes made offline (src/lib/sync-outbox.ts) — the name,
+// version and store below must match it. Replayed here through Background Sync,
+// so they reach the server even if the app was closed before the connection came back.
+const SYNC_DB_NAME = 'tora-player-sync';
+const SYNC_DB_VERSION = 1;
+const OUTBOX_STORE = 'outbox';
+const OUTBOX_SYNC_TAG = 'outbox';
+const OUTBOX_LOCK = 'tora-player-outbox'; // Shared with flushOutbox in the app
+const OUTBOX_MAX_ATTEMPTS = 5; // Server errors before an entry is given up on, as in the app
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(replayOutbox());
+  }
+});
+
+function openSyncDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(SYNC_DB_NAME, SYNC_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// In order, like flushOutbox in the app — never at the same time. Throwing makes the
+// browser retry the sync later
+function replayOutbox() {
+  if (!self.navigator.locks) return replayOutboxEntries();
+  return self.navigator.locks.request(OUTBOX_LOCK, replayOutboxEntries);
+}
+
+async function replayOutboxEntries() {
+  const db = await openSyncDb();
+  const entries = await idbRequest(db, OUTBOX_STORE, 'readonly', (s) => s.getAll());
+  try {
+    for (const entry of entries) {
+      const response = await fetch(entry.url, {
+        method: entry.method,
+        headers: { 'Content-Type': 'application/json' },
+        body: entry.body,
+      });
+      if (response.status >= 500) {
+        const attempts = (entry.attempts || 0) + 1;
+        if (attempts < OUTBOX_MAX_ATTEMPTS) {
+          await idbRequest(db, OUTBOX_STORE, 'readwrite', (s) => s.put({ ...entry, attempts }));
+          throw new Error(`HTTP ${response.status}`);
+        }
+      }
+      await idbRequest(db, OUTBOX_STORE, 'readwrite', (s) => s.delete(entry.id));
+    }
+  } finally {
+    if (entries.length > 0) {
+      const clients = await self.clients.matchAll({ type: 'window' });
+      clients.forEach((client) => client.postMessage({ type: OUTBOX_SYNC_TAG }));
+    }
+  }
+}
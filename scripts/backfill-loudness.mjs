@@ -0,0 +1,133 @@
+#!/usr/bin/env node
+/**
+ * Backfill lesson_audio.loudness (integrated loudness, LUFS) for existing files.
+ *
+ * New uploads are measured once /api/upload/complete has assembled them; this
+ * covers everything uploaded before migration 006, and any that failed. Each file is streamed from R2 through a
+ * presigned URL into ffmpeg's ebur128 filter — nothing is downloaded to disk.
+ *
+ * Requires ffmpeg on PATH (or FFMPEG_PATH).
+ *
+ * Usage:
+ *   node scripts/backfill-loudness.mjs [--dry-run] [--force]
+ *
+ *   --force  Re-measure files that already have a loudness value
+ */
+
+import { spawn } from 'child_process';
+import { createClient } from '@supabase/supabase-js';
+import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.resolve(__dirname, '..', '.env.local') });
+
+const DRY_RUN = process.argv.includes('--dry-run');
+const FORCE = process.argv.includes('--force');
+const FFMPEG_PATH = (process.env.FFMPEG_PATH || 'ffmpeg').trim();
+const R2_BUCKET = process.env.R2_BUCKET_NAME?.trim() || 'tora-player-audio';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+);
+
+const r2 = new S3Client({
+  region: 'auto',
+  endpoint: `https://${process.env.R2_ACCOUNT_ID?.trim()}.r2.cloudflarestorage.com`,
+  credentials: {
+    accessKeyId: process.env.R2_ACCESS_KEY_ID?.trim() || '',
+    secretAccessKey: process.env.R2_SECRET_ACCESS_KEY?.trim() || '',
+  },
+});
+
+/** Same measurement as src/lib/loudness.ts — keep the two in sync */
+function measureLoudness(input) {
+  return new Promise((resolve) => {
+    let stderr = '';
+    const proc = spawn(FFMPEG_PATH, [
+      '-hide_banner', '-nostats',
+      '-i', input,
+      '-vn',
+      '-af', 'ebur128=framelog=quiet',
+      '-f', 'null', '-',
+    ]);
+    proc.stderr.on('data', (d) => {
+      stderr += d.toString();
+      if (stderr.length > 64 * 1024) stderr = stderr.slice(-16 * 1024);
+    });
+    proc.on('error', (err) => {
+      console.error(`❌ Could not run ffmpeg (${FFMPEG_PATH}): ${err.message}`);
+      process.exit(1);
+    });
+    proc.on('close', (code) => {
+      if (code !== 0) return resolve(null);
+      const summary = stderr.slice(stderr.lastIndexOf('Summary:'));
+      const match = summary.match(/I:\s+(-?\d+(?:\.\d+)?)\s+LUFS/);
+      const value = match ? parseFloat(match[1]) : NaN;
+      resolve(Number.isFinite(value) && value > -70 ? Math.round(value * 10) / 10 : null);
+    });
+  });
+}
+
+async function run() {
+  console.log(DRY_RUN ? '🔍 DRY RUN — no changes will be made\n' : '🚀 LIVE RUN\n');
+
+  let query = supabase
+    .from('lesson_audio')
+    .select('id, lesson_id, file_key, original_name, loudness')
+    .order('created_at', { ascending: true });
+  if (!FORCE) query = query.is('loudness', null);
+
+  const { data: files, error } = await query;
+
+  if (error) {
+    console.error('❌ Fetch failed:', error.message);
+    process.exit(1);
+  }
+
+  console.log(`📦 ${files.length} audio files to measure\n`);
+
+  let updated = 0;
+  let failed = 0;
+
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i];
+    const label = `[${i + 1}/${files.length}] ${file.lesson_id.slice(0, 8)}... ${file.original_name || file.file_key}`;
+
+    const url = await getSignedUrl(r2, new GetObjectCommand({ Bucket: R2_BUCKET, Key: file.file_key }), { expiresIn: 3600 });
+    const loudness = await measureLoudness(url);
+
+    if (loudness === null) {
+      console.warn(`⚠️  ${label} — could not measure`);
+      failed++;
+      continue;
+    }
+
+    console.log(`🔊 ${label} → ${loudness} LUFS`);
+
+    if (DRY_RUN) continue;
+
+    const { error: updateError } = await supabase
+      .from('lesson_audio')
+      .update({ loudness })
+      .eq('id', file.id);
+
+    if (updateError) {
+      console.error(`❌ ${label} — update failed: ${updateError.message}`);
+      failed++;
+    } else {
+      updated++;
+    }
+  }
+
+  console.log(`\n✅ Done — ${updated} updated, ${failed} failed`);
+}
+
+run().catch((err) => {
+  console.error('❌ Unexpected error:', err);
+  process.exit(1);
+});
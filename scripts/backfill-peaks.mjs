@@ -0,0 +1,187 @@
+#!/usr/bin/env node
+/**
+ * Backfill waveform peaks (lesson_audio.peaks_url) for existing files.
+ *
+ * New uploads get peaks once /api/upload/complete has assembled them; this
+ * covers everything uploaded before migration 008, and any that failed. Each
+ * file is streamed from R2 through a presigned URL into ffmpeg, and the peaks
+ * JSON is written back to R2 at peaks/<lesson>/<file>.json.
+ *
+ * Requires ffmpeg on PATH (or FFMPEG_PATH).
+ *
+ * Usage:
+ *   node scripts/backfill-peaks.mjs [--dry-run] [--force]
+ *
+ *   --force  Regenerate peaks for files that already have them
+ */
+
+import { spawn } from 'child_process';
+import { createClient } from '@supabase/supabase-js';
+import { S3Client, GetObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.resolve(__dirname, '..', '.env.local') });
+
+const DRY_RUN = process.argv.includes('--dry-run');
+const FORCE = process.argv.includes('--force');
+const FFMPEG_PATH = (process.env.FFMPEG_PATH || 'ffmpeg').trim();
+const R2_BUCKET = process.env.R2_BUCKET_NAME?.trim() || 'tora-player-audio';
+
+// Same parameters as src/lib/waveform.ts — keep the two in sync
+const SAMPLE_RATE = 8000;
+const WINDOW_SAMPLES = SAMPLE_RATE / 10;
+const MAX_STORED_PEAKS = 2000;
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+);
+
+const r2 = new S3Client({
+  region: 'auto',
+  endpoint: `https://${process.env.R2_ACCOUNT_ID?.trim()}.r2.cloudflarestorage.com`,
+  credentials: {
+    accessKeyId: process.env.R2_ACCESS_KEY_ID?.trim() || '',
+    secretAccessKey: process.env.R2_SECRET_ACCESS_KEY?.trim() || '',
+  },
+});
+
+function peaksKeyFor(audioKey) {
+  return `peaks/${audioKey.replace(/^audio\//, '').replace(/\.[^./]+$/, '')}.json`;
+}
+
+function resamplePeaks(peaks, count) {
+  const result = [];
+  for (let i = 0; i < count; i++) {
+    const from = Math.floor((i * peaks.length) / count);
+    const to = Math.max(from + 1, Math.floor(((i + 1) * peaks.length) / count));
+    let max = 0;
+    for (let j = from; j < to && j < peaks.length; j++) max = Math.max(max, peaks[j]);
+    result.push(max);
+  }
+  return result;
+}
+
+function computePeaks(input) {
+  return new Promise((resolve) => {
+    const windows = [];
+    let windowMax = 0;
+    let windowCount = 0;
+    let totalSamples = 0;
+    let leftover = null;
+
+    const proc = spawn(FFMPEG_PATH, [
+      '-hide_banner', '-nostats', '-loglevel', 'error',
+      '-i', input,
+      '-vn', '-ac', '1', '-ar', String(SAMPLE_RATE),
+      '-f', 's16le', '-acodec', 'pcm_s16le', '-',
+    ]);
+    proc.stdout.on('data', (data) => {
+      const buf = leftover ? Buffer.concat([leftover, data]) : data;
+      const usable = buf.length - (buf.length % 2);
+      leftover = usable < buf.length ? buf.subarray(usable) : null;
+      for (let offset = 0; offset < usable; offset += 2) {
+        const sample = Math.abs(buf.readInt16LE(offset));
+        if (sample > windowMax) windowMax = sample;
+        if (++windowCount === WINDOW_SAMPLES) {
+          windows.push(windowMax);
+          windowMax = 0;
+          windowCount = 0;
+        }
+      }
+      totalSamples += usable / 2;
+    });
+    proc.on('error', (err) => {
+      console.error(`❌ Could not run ffmpeg (${FFMPEG_PATH}): ${err.message}`);
+      process.exit(1);
+    });
+    proc.on('close', (code) => {
+      if (windowCount > 0) windows.push(windowMax);
+      if (code !== 0 || windows.length === 0) return resolve(null);
+      const reduced = windows.length > MAX_STORED_PEAKS ? resamplePeaks(windows, MAX_STORED_PEAKS) : windows;
+      const loudest = Math.max(...reduced) || 1;
+      resolve({
+        version: 1,
+        duration: Math.round((totalSamples / SAMPLE_RATE) * 10) / 10,
+        peaks: reduced.map((p) => Math.round((p / loudest) * 100)),
+      });
+    });
+  });
+}
+
+async function run() {
+  console.log(DRY_RUN ? '🔍 DRY RUN — no changes will be made\n' : '🚀 LIVE RUN\n');
+
+  let query = supabase
+    .from('lesson_audio')
+    .select('id, lesson_id, file_key, original_name, peaks_url')
+    .order('created_at', { ascending: true });
+  if (!FORCE) query = query.is('peaks_url', null);
+
+  const { data: files, error } = await query;
+
+  if (error) {
+    console.error('❌ Fetch failed:', error.message);
+    process.exit(1);
+  }
+
+  console.log(`📦 ${files.length} audio files to process\n`);
+
+  let updated = 0;
+  let failed = 0;
+
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i];
+    const label = `[${i + 1}/${files.length}] ${file.lesson_id.slice(0, 8)}... ${file.original_name || file.file_key}`;
+
+    const url = await getSignedUrl(r2, new GetObjectCommand({ Bucket: R2_BUCKET, Key: file.file_key }), { expiresIn: 3600 });
+    const peaks = await computePeaks(url);
+
+    if (!peaks) {
+      console.warn(`⚠️  ${label} — could not decode`);
+      failed++;
+      continue;
+    }
+
+    const peaksKey = peaksKeyFor(file.file_key);
+    console.log(`🌊 ${label} → ${peaks.peaks.length} peaks, ${peaks.duration}s`);
+
+    if (DRY_RUN) continue;
+
+    try {
+      await r2.send(new PutObjectCommand({
+        Bucket: R2_BUCKET,
+        Key: peaksKey,
+        Body: JSON.stringify(peaks),
+        ContentType: 'application/json',
+      }));
+    } catch (err) {
+      console.error(`❌ ${label} — R2 upload failed: ${err.message}`);
+      failed++;
+      continue;
+    }
+
+    const { error: updateError } = await supabase
+      .from('lesson_audio')
+      .update({ peaks_url: `/api/audio/peaks/${encodeURIComponent(peaksKey)}` })
+      .eq('id', file.id);
+
+    if (updateError) {
+      console.error(`❌ ${label} — update failed: ${updateError.message}`);
+      failed++;
+    } else {
+      updated++;
+    }
+  }
+
+  console.log(`\n✅ Done — ${updated} updated, ${failed} failed`);
+}
+
+run().catch((err) => {
+  console.error('❌ Unexpected error:', err);
+  process.exit(1);
+});
@@ -2,9 +2,9 @@
 
 import { revalidatePath } from 'next/cache';
 import { requireServerSupabaseClient } from '@/lib/supabase/server';
-import { createLessonSchema, updateLessonSchema } from '@/lib/validators';
+import { createLessonSchema, updateLessonSchema, lessonChapterSchema } from '@/lib/validators';
 import { isAdmin } from '@/actions/auth';
-import type { Lesson, LessonWithRelations, LessonAudio, LessonImage } from '@/types/database';
+import type { Lesson, LessonWithRelations, LessonAudio, LessonImage, LessonChapter, LessonChapterInput, PlayContext } from '@/types/database';
 
 export async function createLesson(formData: FormData) {
   if (!(await isAdmin())) {
@@ -139,7 +139,7 @@ export async function getLesson(id: string) {
 
   const { data, error } = await supabase
     .from('lessons')
-    .select('*, series(*), category:categories(id, hebrew_name), snippets(*), bookmarks(*), audio_files:lesson_audio(*), images:lesson_images(*)')
+    .select('*, series(*), category:categories(id, hebrew_name), snippets(*), bookmarks(*), audio_files:lesson_audio(*), images:lesson_images(*), chapters:lesson_chapters(*)')
     .eq('id', id)
     .single();
 
@@ -158,13 +158,13 @@ export async function getLesson(id: string) {
     data.parts = parts || [];
   }
 
-  // Get playback progress
+  // Get playback progress — the lesson-level row plus one per audio file
   const { data: progress } = await supabase
     .from('playback_progress')
     .select('*')
-    .eq('lesson_id', id)
-    .single();
-  data.progress = progress;
+    .eq('lesson_id', id);
+  data.progress = progress?.find((p) => !p.audio_file_id) ?? null;
+  data.file_progress = progress?.filter((p) => p.audio_file_id) ?? [];
 
   return { data: data as LessonWithRelations };
 }
@@ -307,6 +307,207 @@ export async function deleteImage(imageId: string) {
   return { success: true };
 }
 
+// --- Chapter management ---
+
+export async function getChapters(lessonId: string) {
+  const supabase = await requireServerSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('lesson_chapters')
+    .select('*')
+    .eq('lesson_id', lessonId)
+    .order('start_time', { ascending: true });
+
+  if (error) return { error: error.message };
+  return { data: data as LessonChapter[] };
+}
+
+export async function createChapter(lessonId: string, input: LessonChapterInput) {
+  if (!(await isAdmin())) {
+    return { error: 'Unauthorized' };
+  }
+  const parsed = lessonChapterSchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message || 'Invalid chapter' };
+  }
+  const supabase = await requireServerSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('lesson_chapters')
+    .insert({ ...parsed.data, audio_id: parsed.data.audio_id || null, lesson_id: lessonId })
+    .select()
+    .single();
+
+  if (error) return { error: error.message };
+  revalidatePath('/[locale]', 'layout');
+  return { data: data as LessonChapter };
+}
+
+export async function updateChapter(chapterId: string, input: LessonChapterInput) {
+  if (!(await isAdmin())) {
+    return { error: 'Unauthorized' };
+  }
+  const parsed = lessonChapterSchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message || 'Invalid chapter' };
+  }
+  const supabase = await requireServerSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('lesson_chapters')
+    .update({ ...parsed.data, audio_id: parsed.data.audio_id || null })
+    .eq('id', chapterId)
+    .select()
+    .single();
+
+  if (error) return { error: error.message };
+  revalidatePath('/[locale]', 'layout');
+  return { data: data as LessonChapter };
+}
+
+export async function deleteChapter(chapterId: string) {
+  if (!(await isAdmin())) {
+    return { error: 'Unauthorized' };
+  }
+  const supabase = await requireServerSupabaseClient();
+
+  const { error } = await supabase
+    .from('lesson_chapters')
+    .delete()
+    .eq('id', chapterId);
+
+  if (error) return { error: error.message };
+  revalidatePath('/[locale]', 'layout');
+  return { success: true };
+}
+
+// --- Up next ---
+
+/**
+ * PostgREST filter for the lessons after `lesson` in up-next order —
+ * (date, part_number with none first, created_at, id), so same-day lessons
+ * aren't skipped and ties still have a next one.
+ */
+function lessonsAfter(lesson: { id: string; date: string; part_number: number | null; created_at: string }): string {
+  const sameDay = `date.eq.${lesson.date}`;
+  const samePart = lesson.part_number === null ? 'part_number.is.null' : `part_number.eq.${lesson.part_number}`;
+  const laterPart = lesson.part_number === null ? 'part_number.not.is.null' : `part_number.gt.${lesson.part_number}`;
+  const createdAt = `"${lesson.created_at}"`;
+  return [
+    `date.gt.${lesson.date}`,
+    `and(${sameDay},${laterPart})`,
+    `and(${sameDay},${samePart},created_at.gt.${createdAt})`,
+    `and(${sameDay},${samePart},created_at.eq.${createdAt},id.gt.${lesson.id})`,
+  ].join(',');
+}
+
+/**
+ * The lesson that naturally follows lessonId, for auto-continue when the queue runs out:
+ * the next item of the playlist it was started from, else its next part, else the next
+ * lesson by date in its series (or the category it was started from), else its category.
+ */
+export async function getNextLesson(lessonId: string, context?: PlayContext) {
+  const supabase = await requireServerSupabaseClient();
+
+  const { data: current, error } = await supabase
+    .from('lessons')
+    .select('id, date, series_id, category_id, part_number, parent_lesson_id, created_at')
+    .eq('id', lessonId)
+    .single();
+
+  if (error) {
+    return { error: error.message };
+  }
+
+  let nextId: string | null = null;
+
+  if (context?.type === 'playlist') {
+    // A playlist is an explicit order — don't wander outside it when it ends
+    const { data: items } = await supabase
+      .from('playlist_lessons')
+      .select('lesson_id')
+      .eq('playlist_id', context.id)
+      .order('position', { ascending: true });
+    const index = (items || []).findIndex((item) => item.lesson_id === lessonId);
+    nextId = index >= 0 ? items![index + 1]?.lesson_id ?? null : null;
+  } else {
+    // Linked parts of the same lesson
+    if (current.parent_lesson_id || current.part_number) {
+      const parentId = current.parent_lesson_id || current.id;
+      const { data: part } = await supabase
+        .from('lessons')
+        .select('id')
+        .eq('parent_lesson_id', parentId)
+        .eq('is_published', true)
+        .gt('part_number', current.part_number ?? 0)
+        .order('part_number', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+      nextId = part?.id ?? null;
+    }
+
+    // Next by date — same-day lessons by part number (none first), then in the order they were added
+    const after = lessonsAfter(current);
+
+    if (!nextId && current.series_id && context?.type !== 'category') {
+      const { data: next } = await supabase
+        .from('lessons')
+        .select('id')
+        .eq('series_id', current.series_id)
+        .eq('is_published', true)
+        .neq('id', current.id)
+        .or(after)
+        .order('date', { ascending: true })
+        .order('part_number', { ascending: true, nullsFirst: true })
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+      nextId = next?.id ?? null;
+    }
+
+    const categoryId = context?.type === 'category' ? context.id : current.category_id;
+    if (!nextId && categoryId && (context?.type === 'category' || !current.series_id)) {
+      // Include sub-category lessons, like the category page does
+      const { data: children } = await supabase
+        .from('categories')
+        .select('id')
+        .eq('parent_id', categoryId);
+      const { data: next } = await supabase
+        .from('lessons')
+        .select('id')
+        .in('category_id', [categoryId, ...(children || []).map((c) => c.id)])
+        .eq('is_published', true)
+        .neq('id', current.id)
+        .or(after)
+        .order('date', { ascending: true })
+        .order('part_number', { ascending: true, nullsFirst: true })
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+      nextId = next?.id ?? null;
+    }
+  }
+
+  if (!nextId) {
+    return { data: null };
+  }
+
+  const { data, error: nextError } = await supabase
+    .from('lessons')
+    .select('*, series(*), category:categories(id, hebrew_name), audio_files:lesson_audio(*), chapters:lesson_chapters(*)')
+    .eq('id', nextId)
+    .eq('is_published', true)
+    .single();
+
+  if (nextError) {
+    return { error: nextError.message };
+  }
+
+  return { data: data as LessonWithRelations };
+}
+
 export async function getLessonsByIds(ids: string[]) {
   if (!ids.length) return [];
   const supabase = await requireServerSupabaseClient();
@@ -1,11 +1,13 @@
 'use server';
 
 import { requireServerSupabaseClient } from '@/lib/supabase/server';
+import { upsertPlaybackProgress } from '@/lib/supabase/queries';
 import { playbackProgressSchema } from '@/lib/validators';
-import type { PlaybackProgress } from '@/types/database';
+import type { ListeningSessionWithLesson } from '@/types/database';
 
 export async function updateProgress(data: {
   lesson_id: string;
+  audio_file_id?: string | null;
   position: number;
   completed?: boolean;
 }) {
@@ -19,25 +21,18 @@ export async function updateProgress(data: {
     return { error: parsed.error.flatten().fieldErrors };
   }
 
-  const { data: progress, error } = await supabase
-    .from('playback_progress')
-    .upsert(
-      {
-        lesson_id: parsed.data.lesson_id,
-        position: parsed.data.position,
-        completed: parsed.data.completed,
-        last_played_at: new Date().toISOString(),
-      },
-      { onConflict: 'lesson_id' }
-    )
-    .select()
-    .single();
-
-  if (error) {
-    return { error: { _form: [error.message] } };
+  try {
+    const progress = await upsertPlaybackProgress(
+      supabase,
+      parsed.data.lesson_id,
+      parsed.data.position,
+      parsed.data.completed,
+      parsed.data.audio_file_id
+    );
+    return { data: progress };
+  } catch (error) {
+    return { error: { _form: [(error as { message?: string }).message || 'Failed to update progress'] } };
   }
-
-  return { data: progress as PlaybackProgress };
 }
 
 export async function markAsCompleted(lessonId: string) {
@@ -48,10 +43,11 @@ export async function markAsCompleted(lessonId: string) {
     .upsert(
       {
         lesson_id: lessonId,
+        audio_file_id: null,
         completed: true,
         last_played_at: new Date().toISOString(),
       },
-      { onConflict: 'lesson_id' }
+      { onConflict: 'lesson_id,audio_file_id' }
     );
 
   if (error) {
@@ -60,3 +56,20 @@ export async function markAsCompleted(lessonId: string) {
 
   return { success: true };
 }
+
+/** Most recent listening sessions, newest first, with enough of the lesson to replay them */
+export async function getListeningHistory(limit = 200) {
+  const supabase = await requireServerSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('listening_sessions')
+    .select('*, lesson:lessons(*, series(*), audio_files:lesson_audio(*), chapters:lesson_chapters(*))')
+    .order('started_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    return { error: error.message };
+  }
+
+  return { data: (data || []) as ListeningSessionWithLesson[] };
+}
@@ -24,6 +24,17 @@ export interface DailyActivity {
   count: number;
 }
 
+export interface FailingAudio {
+  url: string;
+  source: string;
+  lessonId: string | null;
+  title: string;
+  hebrewTitle: string | null;
+  failures: number;
+  unrecovered: number; // Failures where no other source played either
+  lastFailedAt: string;
+}
+
 export interface CompletionStats {
   totalCompleted: number;
   totalProgress: number;
@@ -50,7 +61,8 @@ export async function getOverviewStats(): Promise<{ data?: OverviewStats; error?
     supabase.from('lesson_images').select('id', { count: 'exact', head: true }),
     supabase.from('series').select('id', { count: 'exact', head: true }),
     supabase.from('bookmarks').select('id', { count: 'exact', head: true }),
-    supabase.from('playback_progress').select('position'),
+    // Lesson-level rows only — per-file rows (audio_file_id set) would count twice
+    supabase.from('playback_progress').select('position').is('audio_file_id', null),
   ]);
 
   const totalListeningSeconds = (progressResult.data || []).reduce(
@@ -82,7 +94,8 @@ export async function getPopularLessons(
   // Get all playback progress records with lesson info
   const { data: progressData, error } = await supabase
     .from('playback_progress')
-    .select('lesson_id, lessons(title, hebrew_title)');
+    .select('lesson_id, lessons(title, hebrew_title)')
+    .is('audio_file_id', null);
 
   if (error) {
     return { error: error.message };
@@ -139,6 +152,7 @@ export async function getRecentActivity(
   const { data, error } = await supabase
     .from('playback_progress')
     .select('lesson_id, updated_at')
+    .is('audio_file_id', null)
     .gte('updated_at', sinceDateStr);
 
   if (error) {
@@ -180,10 +194,11 @@ export async function getCompletionStats(): Promise<{ data?: CompletionStats; er
   const supabase = await requireServerSupabaseClient();
 
   const [totalResult, completedResult] = await Promise.all([
-    supabase.from('playback_progress').select('id', { count: 'exact', head: true }),
+    supabase.from('playback_progress').select('id', { count: 'exact', head: true }).is('audio_file_id', null),
     supabase
       .from('playback_progress')
       .select('id', { count: 'exact', head: true })
+      .is('audio_file_id', null)
       .eq('completed', true),
   ]);
 
@@ -199,3 +214,56 @@ export async function getCompletionStats(): Promise<{ data?: CompletionStats; er
     },
   };
 }
+
+export async function getFailingAudio(
+  days: number = 30,
+  limit: number = 20
+): Promise<{ data?: FailingAudio[]; error?: string }> {
+  if (!(await isAdmin())) {
+    return { error: 'Unauthorized' };
+  }
+
+  const supabase = await requireServerSupabaseClient();
+
+  const sinceDate = new Date();
+  sinceDate.setDate(sinceDate.getDate() - days);
+
+  const { data, error } = await supabase
+    .from('audio_errors')
+    .select('url, source, lesson_id, recovered, created_at, lessons(title, hebrew_title)')
+    .gte('created_at', sinceDate.toISOString())
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return { error: error.message };
+  }
+
+  // Group by URL — newest report first, so the first row seen has lastFailedAt
+  const byUrl = new Map<string, FailingAudio>();
+
+  for (const row of data || []) {
+    const existing = byUrl.get(row.url);
+    if (existing) {
+      existing.failures += 1;
+      if (!row.recovered) existing.unrecovered += 1;
+      continue;
+    }
+    const lessonData = row.lessons as unknown as { title: string; hebrew_title: string | null } | null;
+    byUrl.set(row.url, {
+      url: row.url,
+      source: row.source,
+      lessonId: row.lesson_id,
+      title: lessonData?.title || 'Unknown',
+      hebrewTitle: lessonData?.hebrew_title || null,
+      failures: 1,
+      unrecovered: row.recovered ? 0 : 1,
+      lastFailedAt: row.created_at,
+    });
+  }
+
+  const sorted = Array.from(byUrl.values())
+    .sort((a, b) => b.unrecovered - a.unrecovered || b.failures - a.failures)
+    .slice(0, limit);
+
+  return { data: sorted };
+}
@@ -16,16 +16,19 @@ import {
   CheckCircle2,
   TrendingUp,
   Loader2,
+  AlertTriangle,
 } from 'lucide-react';
 import {
   getOverviewStats,
   getPopularLessons,
   getRecentActivity,
   getCompletionStats,
+  getFailingAudio,
   type OverviewStats,
   type PopularLesson,
   type DailyActivity,
   type CompletionStats,
+  type FailingAudio,
 } from '@/actions/stats';
 
 export default function AdminStatsPage() {
@@ -38,28 +41,32 @@ export default function AdminStatsPage() {
   const [popular, setPopular] = useState<PopularLesson[]>([]);
   const [activity, setActivity] = useState<DailyActivity[]>([]);
   const [completion, setCompletion] = useState<CompletionStats | null>(null);
+  const [failing, setFailing] = useState<FailingAudio[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     async function loadStats() {
       try {
-        const [overviewRes, popularRes, activityRes, completionRes] = await Promise.all([
+        const [overviewRes, popularRes, activityRes, completionRes, failingRes] = await Promise.all([
           getOverviewStats(),
           getPopularLessons(10),
           getRecentActivity(14),
           getCompletionStats(),
+          getFailingAudio(30),
         ]);
 
         if (overviewRes.error) throw new Error(overviewRes.error);
         if (popularRes.error) throw new Error(popularRes.error);
         if (activityRes.error) throw new Error(activityRes.error);
         if (completionRes.error) throw new Error(completionRes.error);
+        if (failingRes.error) throw new Error(failingRes.error);
 
         setOverview(overviewRes.data || null);
         setPopular(popularRes.data || []);
         setActivity(activityRes.data || []);
         setCompletion(completionRes.data || null);
+        setFailing(failingRes.data || []);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load stats');
       } finally {
@@ -264,6 +271,41 @@ export default function AdminStatsPage() {
         </div>
       )}
 
+      {/* Failing audio — reported by players when a source wouldn't load */}
+      {failing.length > 0 && (
+        <div className="mb-8">
+          <div className="flex items-center gap-2 mb-3">
+            <AlertTriangle className="h-4 w-4 text-red-400" />
+            <h2 className="text-sm font-medium text-muted-foreground">
+              {isRTL ? 'קבצי שמע שנכשלו ב-30 ימים אחרונים' : 'Failing Audio - Last 30 Days'}
+            </h2>
+          </div>
+          <div className="rounded-xl border border-border/50 bg-[hsl(var(--surface-elevated))] overflow-hidden">
+            {failing.map((file) => (
+              <Link
+                key={file.url}
+                href={file.lessonId ? `/${locale}/lessons/${file.lessonId}/edit` : `/${locale}/admin`}
+                className="flex items-center gap-3 px-4 py-3 hover:bg-[hsl(var(--surface-highlight))] transition-colors border-b border-border/30 last:border-b-0"
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium text-foreground truncate">
+                    {file.hebrewTitle || file.title}
+                  </p>
+                  <p className="text-[11px] text-muted-foreground truncate" dir="ltr">
+                    {file.source} · {decodeURIComponent(file.url.split('/').pop() || file.url)}
+                  </p>
+                </div>
+                <span className={`flex-shrink-0 rounded-full px-2 py-0.5 text-xs font-medium ${
+                  file.unrecovered > 0 ? 'bg-red-500/15 text-red-400' : 'bg-amber-500/15 text-amber-400'
+                }`}>
+                  {file.failures} {isRTL ? 'כשלונות' : 'failures'}
+                </span>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Popular Lessons */}
       {popular.length > 0 && (
         <div className="mb-8">
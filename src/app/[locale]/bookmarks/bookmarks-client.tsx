@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { Bookmark, Trash2, Play, Clock } from 'lucide-react';
+import { Bookmark, Trash2, Play, Clock, Repeat } from 'lucide-react';
 import { useBookmarksStore, type LocalBookmark } from '@/stores/bookmarks-store';
 import { getTagInfo } from '@/components/bookmarks/bookmark-dialog';
 import { formatDuration } from '@/lib/utils';
@@ -89,14 +89,21 @@ export function BookmarksPageClient({ locale }: BookmarksPageClientProps) {
                         key={bm.id}
                         className="flex items-start gap-3 rounded-xl bg-[hsl(var(--surface-elevated))] p-3 group"
                       >
-                        {/* Timestamp + play link */}
+                        {/* Timestamp + play link — saved A–B ranges reopen as a looping clip */}
                         <Link
-                          href={`/lessons/${bm.lessonId}?t=${Math.round(bm.position)}`}
+                          href={bm.endPosition !== undefined
+                            ? `/lessons/${bm.lessonId}?start=${bm.position}&end=${bm.endPosition}&loop=1`
+                            : `/lessons/${bm.lessonId}?t=${Math.round(bm.position)}`}
                           className="flex items-center gap-1.5 text-primary hover:text-primary/80 flex-shrink-0 mt-0.5"
                         >
-                          <Play className="h-3.5 w-3.5 fill-current" />
+                          {bm.endPosition !== undefined ? (
+                            <Repeat className="h-3.5 w-3.5" />
+                          ) : (
+                            <Play className="h-3.5 w-3.5 fill-current" />
+                          )}
                           <span className="text-xs font-mono font-bold">
                             {formatDuration(Math.round(bm.position))}
+                            {bm.endPosition !== undefined && `–${formatDuration(Math.round(bm.endPosition))}`}
                           </span>
                         </Link>
 
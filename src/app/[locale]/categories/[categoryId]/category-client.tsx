@@ -0,0 +1,114 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useParams } from 'next/navigation';
+import { BookOpen, ChevronLeft, FolderOpen } from 'lucide-react';
+import { LessonCard } from '@/components/lessons/lesson-card';
+import { EmptyState } from '@/components/shared/empty-state';
+import { DownloadAllButton } from '@/components/lessons/download-all-button';
+import { FollowButton } from '@/components/shared/follow-button';
+import { Link } from '@/i18n/routing';
+import { useIsOnline, useCatalogSnapshot } from '@/hooks/use-offline';
+import { filterCatalogLessons, toLessonWithRelations } from '@/lib/offline-catalog';
+import type { Category, LessonWithRelations } from '@/types/database';
+
+interface CategoryClientProps {
+  category: Category;
+  parentCategory: Category | null;
+  childCategories: Category[];
+  lessons: LessonWithRelations[];
+  locale: string;
+}
+
+/**
+ * A category with its sub-categories and lessons. Offline it's built from the
+ * catalog snapshot for the category in the URL — the page may be a cached copy
+ * of another category's.
+ */
+export function CategoryClient(props: CategoryClientProps) {
+  const { locale } = props;
+  const isRTL = locale === 'he';
+  const { categoryId } = useParams<{ categoryId: string }>();
+  const online = useIsOnline();
+  const snapshot = useCatalogSnapshot(!online);
+
+  const offline = useMemo(() => {
+    const category = snapshot?.categories.find((c) => c.id === categoryId);
+    if (!snapshot || !category) return null;
+    return {
+      category,
+      parentCategory: snapshot.categories.find((c) => c.id === category.parent_id) || null,
+      childCategories: snapshot.categories.filter((c) => c.parent_id === categoryId),
+      lessons: filterCatalogLessons(snapshot, { categoryId }).map((lesson) => toLessonWithRelations(lesson, snapshot)),
+    };
+  }, [snapshot, categoryId]);
+
+  const { category, parentCategory, childCategories, lessons } = offline ?? props;
+
+  return (
+    <div className="space-y-5 animate-fade-in">
+      {/* Breadcrumb */}
+      <nav className="flex items-center gap-1.5 text-xs text-muted-foreground">
+        <Link href="/categories" className="hover:text-foreground transition-colors">
+          {isRTL ? 'קטגוריות' : 'Categories'}
+        </Link>
+        {parentCategory && (
+          <>
+            <ChevronLeft className="h-3 w-3" />
+            <Link href={`/categories/${parentCategory.id}`} className="hover:text-foreground transition-colors">
+              {parentCategory.hebrew_name}
+            </Link>
+          </>
+        )}
+        <ChevronLeft className="h-3 w-3" />
+        <span className="text-foreground font-medium">{category.hebrew_name}</span>
+      </nav>
+
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold">{category.hebrew_name}</h1>
+        {category.description && (
+          <p className="text-sm text-muted-foreground mt-1">{category.description}</p>
+        )}
+      </div>
+
+      {/* Sub-categories (if this is a parent) */}
+      {childCategories.length > 0 && (
+        <div className="space-y-1">
+          {childCategories.map((child) => (
+            <Link
+              key={child.id}
+              href={`/categories/${child.id}`}
+              className="flex items-center gap-3 rounded-lg bg-[hsl(var(--surface-elevated))] p-3 hover:bg-[hsl(var(--surface-highlight))] transition-colors"
+            >
+              <div className="h-8 w-8 rounded-md bg-primary/10 flex items-center justify-center flex-shrink-0">
+                <FolderOpen className="h-4 w-4 text-primary" />
+              </div>
+              <span className="text-sm font-medium flex-1">{child.hebrew_name}</span>
+              <ChevronLeft className="h-4 w-4 text-muted-foreground" />
+            </Link>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <FollowButton type="category" id={category.id} name={category.hebrew_name} />
+        {lessons.length > 0 && <DownloadAllButton lessons={lessons} />}
+      </div>
+
+      {/* Lessons */}
+      {lessons.length > 0 ? (
+        <div className="space-y-0.5">
+          {lessons.map((lesson) => (
+            <LessonCard key={lesson.id} lesson={lesson} showProgress context={{ type: 'category', id: category.id }} />
+          ))}
+        </div>
+      ) : childCategories.length === 0 ? (
+        <EmptyState
+          icon={BookOpen}
+          title={isRTL ? 'אין שיעורים בקטגוריה זו עדיין' : 'No lessons in this category yet'}
+        />
+      ) : null}
+    </div>
+  );
+}
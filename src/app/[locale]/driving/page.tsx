@@ -1,9 +1,15 @@
 'use client';
 
-import { useEffect, useCallback } from 'react';
-import { Play, Pause, X } from 'lucide-react';
+import { useEffect, useCallback, useRef } from 'react';
+import { Play, Pause, X, Moon, SkipForward, Megaphone } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { useAudioPlayer } from '@/hooks/use-audio-player';
+import { useSleepTimerRemaining } from '@/hooks/use-sleep-timer';
+import { useUpNextRemaining } from '@/hooks/use-up-next';
+import { useDrivingGestures } from '@/hooks/use-driving-gestures';
+import { useAudioStore } from '@/stores/audio-store';
+import { useBookmarksStore } from '@/stores/bookmarks-store';
+import { speak } from '@/lib/speech';
 
 /* ── Inline SVGs for skip icons (large, high-contrast) ── */
 
@@ -38,6 +44,12 @@ function formatTime(seconds: number): string {
   return `${m}:${s.toString().padStart(2, '0')}`;
 }
 
+/** One tap per step — no menus while driving: off → 15 → 30 → 60 → end of file → off */
+const SLEEP_CYCLE_MINUTES = [15, 30, 60];
+
+/** Long-press steps through these, back to normal after the fastest */
+const SPEED_CYCLE = [1, 1.25, 1.5, 1.75, 2];
+
 export default function DrivingModePage() {
   const router = useRouter();
   const {
@@ -48,7 +60,70 @@ export default function DrivingModePage() {
     togglePlay,
     skipForward,
     skipBackward,
+    sleepTimer,
+    setSleepTimer,
+    clearSleepTimer,
+    nextTrack,
+    previousTrack,
+    seekTo,
+    upNext,
+    cancelUpNext,
+    playbackSpeed,
+    setPlaybackSpeed,
+    announceTitles,
+    setAnnounceTitles,
   } = useAudioPlayer();
+  const sleepRemaining = useSleepTimerRemaining();
+  const upNextRemaining = useUpNextRemaining();
+  const addBookmark = useBookmarksStore((s) => s.addBookmark);
+
+  // Eyes-free controls — every gesture is confirmed out loud
+  const gestures = useDrivingGestures({
+    onSwipeRight: () => {
+      skipForward(15);
+      speak('15 שניות קדימה');
+    },
+    onSwipeLeft: () => {
+      skipBackward(15);
+      speak('15 שניות אחורה');
+    },
+    onSwipeUp: () => {
+      nextTrack();
+      speak('השיעור הבא');
+    },
+    onSwipeDown: () => {
+      // More than a few seconds in, "previous" restarts the current lesson — as on the lock screen
+      const { currentTime: time, queueIndex } = useAudioStore.getState();
+      if (time > 3) {
+        seekTo(0);
+        speak('מההתחלה');
+      } else if (queueIndex > 0) {
+        previousTrack();
+        speak('השיעור הקודם');
+      } else {
+        speak('אין שיעור קודם');
+      }
+    },
+    onDoubleTap: () => {
+      const { currentTrack: track, currentTime: time } = useAudioStore.getState();
+      if (!track) return;
+      addBookmark(track.id, time, '', 'important');
+      speak('סימניה נוספה');
+    },
+    onLongPress: () => {
+      const next = SPEED_CYCLE.find((s) => s > playbackSpeed) ?? SPEED_CYCLE[0];
+      setPlaybackSpeed(next);
+      speak(`מהירות ${next}`);
+    },
+  });
+
+  // Announce each new lesson's title as it starts (not the one already playing on entry)
+  const announcedTrackIdRef = useRef(currentTrack?.id);
+  useEffect(() => {
+    if (!currentTrack || currentTrack.id === announcedTrackIdRef.current) return;
+    announcedTrackIdRef.current = currentTrack.id;
+    if (announceTitles) speak(currentTrack.hebrewTitle || currentTrack.title);
+  }, [currentTrack?.id]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Keep screen awake while driving mode is active
   useEffect(() => {
@@ -81,6 +156,25 @@ export default function DrivingModePage() {
     router.back();
   }, [router]);
 
+  const cycleSleepTimer = useCallback(() => {
+    if (!sleepTimer) {
+      setSleepTimer('duration', SLEEP_CYCLE_MINUTES[0]);
+      return;
+    }
+    if (sleepTimer.mode !== 'duration') {
+      clearSleepTimer();
+      return;
+    }
+    // Advance to the next preset above what's left; past the last one → end of file
+    const remainingMinutes = ((sleepTimer.endsAt ?? 0) - Date.now()) / 60000;
+    const next = SLEEP_CYCLE_MINUTES.find((m) => m > Math.ceil(remainingMinutes));
+    if (next) {
+      setSleepTimer('duration', next);
+    } else {
+      setSleepTimer('endOfFile');
+    }
+  }, [sleepTimer, setSleepTimer, clearSleepTimer]);
+
   // No active track state
   if (!currentTrack) {
     return (
@@ -110,8 +204,10 @@ export default function DrivingModePage() {
 
   return (
     <div
-      className="fixed inset-0 z-[200] flex flex-col"
+      {...gestures}
+      className="fixed inset-0 z-[200] flex flex-col select-none"
       style={{
+        touchAction: 'none',
         backgroundColor: '#000',
         paddingTop: 'env(safe-area-inset-top)',
         paddingBottom: 'env(safe-area-inset-bottom)',
@@ -129,6 +225,16 @@ export default function DrivingModePage() {
             {currentTrack.seriesName}
           </p>
         )}
+        {/* Next lesson countdown — tap to cancel */}
+        {upNext && (
+          <button
+            onClick={cancelUpNext}
+            className="mt-4 w-full rounded-2xl bg-white/10 px-4 py-3 text-white text-lg font-bold truncate"
+            aria-label="ביטול השיעור הבא"
+          >
+            הבא בעוד {upNextRemaining ?? 0}: {upNext.track.hebrewTitle || upNext.track.title}
+          </button>
+        )}
       </div>
 
       {/* ── Middle-top: Time display ── */}
@@ -146,6 +252,14 @@ export default function DrivingModePage() {
             style={{ width: duration > 0 ? `${(currentTime / duration) * 100}%` : '0%' }}
           />
         </div>
+        {playbackSpeed !== 1 && (
+          <p className="text-white/60 text-xl font-bold tabular-nums mt-3" dir="ltr">
+            {playbackSpeed}×
+          </p>
+        )}
+        <p className="text-white/30 text-sm mt-3 px-6" dir="rtl">
+          החלקה לצדדים: 15 שניות · למעלה/למטה: שיעור · הקשה כפולה: סימניה · לחיצה ארוכה: מהירות
+        </p>
       </div>
 
       {/* ── Center: Main controls ── */}
@@ -185,8 +299,53 @@ export default function DrivingModePage() {
         </div>
       </div>
 
-      {/* ── Bottom: Close button ── */}
-      <div className="flex-shrink-0 flex justify-center pb-10 pt-4">
+      {/* ── Bottom: Sleep timer + close ── */}
+      <div className="flex-shrink-0 flex items-center justify-center gap-8 pb-10 pt-4">
+        <button
+          onClick={cycleSleepTimer}
+          className={`rounded-full px-6 py-4 flex items-center gap-3 transition-colors ${
+            sleepTimer
+              ? 'bg-white text-black'
+              : 'bg-white/10 text-white/70 hover:bg-white/20 hover:text-white'
+          }`}
+          aria-label="טיימר שינה"
+        >
+          <Moon className="h-8 w-8" />
+          {sleepTimer && (
+            <span className="text-xl font-bold tabular-nums" dir="rtl">
+              {sleepRemaining !== null
+                ? formatTime(sleepRemaining)
+                : sleepTimer.mode === 'endOfFile' ? 'סוף הקובץ' : 'סוף השיעור'}
+            </span>
+          )}
+        </button>
+
+        {/* Speak each new lesson's title */}
+        <button
+          onClick={() => {
+            setAnnounceTitles(!announceTitles);
+            speak(announceTitles ? 'הקראת שמות כבויה' : 'הקראת שמות פעילה');
+          }}
+          className={`rounded-full p-4 transition-colors ${
+            announceTitles
+              ? 'bg-white text-black'
+              : 'bg-white/10 text-white/70 hover:bg-white/20 hover:text-white'
+          }`}
+          aria-label="הקראת שם השיעור"
+          aria-pressed={announceTitles}
+        >
+          <Megaphone className="h-8 w-8" />
+        </button>
+
+        {/* Next lesson — the queue, else what follows in the series / category */}
+        <button
+          onClick={nextTrack}
+          className="rounded-full p-4 bg-white/10 text-white/70 hover:bg-white/20 hover:text-white transition-colors"
+          aria-label="השיעור הבא"
+        >
+          <SkipForward className="h-8 w-8" />
+        </button>
+
         <button
           onClick={handleClose}
           className="rounded-full p-4 bg-white/10 text-white/70 hover:bg-white/20 hover:text-white transition-colors"
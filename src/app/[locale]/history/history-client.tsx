@@ -0,0 +1,184 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { History, Play, Clock, Gauge } from 'lucide-react';
+import { useAudioPlayer } from '@/hooks/use-audio-player';
+import { buildLessonTrack, buildFileTrack } from '@/lib/lesson-track';
+import { formatHebrewDate } from '@/lib/hebrew-date';
+import { formatDuration } from '@/lib/utils';
+import { Link } from '@/i18n/routing';
+import type { AudioTrack } from '@/stores/audio-store';
+import type { ListeningSessionWithLesson } from '@/types/database';
+
+interface HistoryPageClientProps {
+  locale: string;
+  sessions: ListeningSessionWithLesson[];
+}
+
+interface HistoryDay {
+  key: string;
+  date: Date;
+  sessions: ListeningSessionWithLesson[];
+  listenedSeconds: number;
+}
+
+/** Group sessions by the local calendar day they started on, newest first */
+function groupByDay(sessions: ListeningSessionWithLesson[]): HistoryDay[] {
+  const days = new Map<string, HistoryDay>();
+  for (const session of sessions) {
+    const started = new Date(session.started_at);
+    const key = `${started.getFullYear()}-${started.getMonth()}-${started.getDate()}`;
+    let day = days.get(key);
+    if (!day) {
+      day = { key, date: started, sessions: [], listenedSeconds: 0 };
+      days.set(key, day);
+    }
+    day.sessions.push(session);
+    day.listenedSeconds += (new Date(session.ended_at).getTime() - started.getTime()) / 1000;
+  }
+  return [...days.values()];
+}
+
+/** The track a session was played from — the same file, or the whole-lesson timeline */
+function buildSessionTrack(session: ListeningSessionWithLesson): AudioTrack | null {
+  const lesson = session.lesson;
+  if (!lesson) return null;
+  if (session.whole_lesson) return buildLessonTrack(lesson, { wholeLessonMode: true });
+  const file = lesson.audio_files?.find((f) => f.id === session.audio_file_id);
+  return file ? buildFileTrack(lesson, file) : buildLessonTrack(lesson, { wholeLessonMode: false });
+}
+
+export function HistoryPageClient({ locale, sessions }: HistoryPageClientProps) {
+  const { currentTrack, isPlaying, seekTo, togglePlay, setTrack, setCurrentTime } = useAudioPlayer();
+  const [mounted, setMounted] = useState(false);
+  const isRTL = locale === 'he';
+  const dateLocale = isRTL ? 'he-IL' : 'en-US';
+
+  // Days and times are the listener's local ones — only known in the browser
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+  const days = mounted ? groupByDay(sessions) : [];
+
+  // Replay from where the session stopped
+  function handleReplay(session: ListeningSessionWithLesson) {
+    const track = buildSessionTrack(session);
+    if (!track) return;
+    const position = session.end_position;
+    if (currentTrack?.id === track.id && currentTrack.audioUrl === track.audioUrl
+      && !!currentTrack.segments === !!track.segments) {
+      seekTo(position);
+      if (!isPlaying) togglePlay();
+      return;
+    }
+    setTrack(track);
+    // Picked up as the start position when the track loads
+    setCurrentTime(position);
+  }
+
+  return (
+    <div className="space-y-6" dir={isRTL ? 'rtl' : 'ltr'}>
+      <h1 className="text-2xl font-bold">
+        {isRTL ? 'היסטוריית האזנה' : 'Listening History'}
+      </h1>
+
+      {!mounted ? null : days.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16 text-center">
+          <div className="rounded-full bg-[hsl(var(--surface-elevated))] p-5 mb-4">
+            <History className="h-8 w-8 text-muted-foreground" />
+          </div>
+          <h3 className="text-lg font-bold mb-1">
+            {isRTL ? 'אין היסטוריה עדיין' : 'No history yet'}
+          </h3>
+          <p className="text-sm text-muted-foreground max-w-sm">
+            {isRTL
+              ? 'השיעורים שתשמע יופיעו כאן לפי תאריך'
+              : 'Lessons you listen to will show up here by date'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {days.map((day) => (
+            <section key={day.key} className="space-y-2">
+              {/* Day header — Gregorian and Hebrew date */}
+              <div className="flex items-baseline justify-between gap-2">
+                <div>
+                  <h2 className="text-sm font-bold">
+                    {day.date.toLocaleDateString(dateLocale, { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' })}
+                  </h2>
+                  <p className="text-xs text-muted-foreground" dir="rtl">
+                    {formatHebrewDate(day.date)}
+                  </p>
+                </div>
+                <span className="text-[11px] text-muted-foreground flex-shrink-0">
+                  {formatDuration(Math.round(day.listenedSeconds))}
+                </span>
+              </div>
+
+              <div className="space-y-1">
+                {day.sessions.map((session) => {
+                  const lesson = session.lesson;
+                  const file = lesson?.audio_files?.find((f) => f.id === session.audio_file_id);
+                  const fileLabel = (lesson?.audio_files?.length ?? 0) > 1
+                    ? file?.audio_type || file?.original_name
+                    : null;
+
+                  return (
+                    <div
+                      key={session.id}
+                      className="flex items-start gap-3 rounded-xl bg-[hsl(var(--surface-elevated))] p-3"
+                    >
+                      <button
+                        onClick={() => handleReplay(session)}
+                        disabled={!lesson}
+                        className="flex-shrink-0 mt-0.5 rounded-full bg-primary/15 p-2 text-primary hover:bg-primary/25 transition-colors disabled:opacity-40"
+                        aria-label={isRTL ? 'המשך מכאן' : 'Resume from here'}
+                      >
+                        <Play className="h-3.5 w-3.5 fill-current" />
+                      </button>
+
+                      <div className="flex-1 min-w-0 space-y-1">
+                        {lesson ? (
+                          <Link
+                            href={`/lessons/${lesson.id}`}
+                            className="text-sm font-bold hover:underline truncate block"
+                            dir="rtl"
+                          >
+                            {lesson.hebrew_title || lesson.title}
+                          </Link>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">
+                            {isRTL ? 'שיעור שנמחק' : 'Deleted lesson'}
+                          </span>
+                        )}
+                        {fileLabel && (
+                          <p className="text-xs text-muted-foreground truncate">{fileLabel}</p>
+                        )}
+                        <div className="flex flex-wrap items-center gap-x-3 gap-y-0.5 text-[10px] text-muted-foreground">
+                          <span className="flex items-center gap-1">
+                            <Clock className="h-3 w-3" />
+                            {new Date(session.started_at).toLocaleTimeString(dateLocale, { hour: '2-digit', minute: '2-digit' })}
+                            –{new Date(session.ended_at).toLocaleTimeString(dateLocale, { hour: '2-digit', minute: '2-digit' })}
+                          </span>
+                          <span className="font-mono" dir="ltr">
+                            {formatDuration(Math.round(session.start_position))}–{formatDuration(Math.round(session.end_position))}
+                          </span>
+                          {session.playback_speed !== 1 && (
+                            <span className="flex items-center gap-1" dir="ltr">
+                              <Gauge className="h-3 w-3" />
+                              {session.playback_speed}×
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+export const dynamic = 'force-dynamic';
+
+import { setRequestLocale } from 'next-intl/server';
+import { getListeningHistory } from '@/actions/progress';
+import type { ListeningSessionWithLesson } from '@/types/database';
+import { HistoryPageClient } from './history-client';
+
+type Props = { params: Promise<{ locale: string }> };
+
+export default async function HistoryPage({ params }: Props) {
+  const { locale } = await params;
+  setRequestLocale(locale);
+
+  let sessions: ListeningSessionWithLesson[] = [];
+  try {
+    const result = await getListeningHistory();
+    sessions = result.data || [];
+  } catch {
+    // Supabase not configured — show the empty state
+  }
+
+  return <HistoryPageClient locale={locale} sessions={sessions} />;
+}
@@ -9,6 +9,8 @@ import { Header } from '@/components/layout/header';
 import { BottomNav } from '@/components/layout/bottom-nav';
 import { InstallPrompt } from '@/components/pwa/install-prompt';
 import { ServiceWorkerRegistrar } from '@/components/pwa/sw-registrar';
+import { DownloadQueueRunner } from '@/components/pwa/download-queue-runner';
+import { CatalogSyncRunner } from '@/components/pwa/catalog-sync-runner';
 
 const inter = Inter({
   subsets: ['latin'],
@@ -61,6 +63,12 @@ export default async function LocaleLayout({ children, params }: Props) {
 
             {/* Service worker registration */}
             <ServiceWorkerRegistrar />
+
+            {/* Batch download queue */}
+            <DownloadQueueRunner />
+
+            {/* Catalog snapshot for offline browsing and search */}
+            <CatalogSyncRunner />
           </NextIntlClientProvider>
         </ThemeProvider>
       </body>
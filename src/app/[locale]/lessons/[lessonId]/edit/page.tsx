@@ -7,7 +7,7 @@ import { useParams } from 'next/navigation';
 import {
   ArrowRight, Trash2, Loader2, Pencil, Check, X,
   ChevronUp, ChevronDown, ImagePlus, Sparkles, Calendar,
-  Upload, FileAudio,
+  Upload, FileAudio, ListOrdered, Plus,
 } from 'lucide-react';
 import { Link } from '@/i18n/routing';
 import {
@@ -21,10 +21,15 @@ import {
   deleteAudioFile,
   deleteImage,
   updateAudioType,
+  getChapters,
+  createChapter,
+  updateChapter,
+  deleteChapter,
 } from '@/actions/lessons';
 import { useUpload, type FileWithMeta } from '@/hooks/use-upload';
 import { UploadZone, type SelectedFile } from '@/components/upload/upload-zone';
-import type { LessonAudio, LessonImage } from '@/types/database';
+import { formatDuration, parseDuration } from '@/lib/utils';
+import type { LessonAudio, LessonImage, LessonChapter } from '@/types/database';
 
 interface MetadataSuggestion {
   title: string;
@@ -83,6 +88,15 @@ export default function EditLessonPage() {
   const [uploadingAudio, setUploadingAudio] = useState(false);
   const { uploadMultiple, progress: audioUploadProgress, fileProgresses, reset: resetUpload } = useUpload();
 
+  // Chapters
+  const [chapters, setChapters] = useState<LessonChapter[]>([]);
+  const [chapterTitle, setChapterTitle] = useState('');
+  const [chapterTime, setChapterTime] = useState('');
+  const [chapterAudioId, setChapterAudioId] = useState('');
+  const [editingChapterId, setEditingChapterId] = useState<string | null>(null);
+  const [savingChapters, setSavingChapters] = useState(false);
+  const [chapterError, setChapterError] = useState<string | null>(null);
+
   // Image management
   const [images, setImages] = useState<LessonImage[]>([]);
   const [newImageFiles, setNewImageFiles] = useState<File[]>([]);
@@ -92,10 +106,11 @@ export default function EditLessonPage() {
   // Load data
   useEffect(() => {
     async function load() {
-      const [lessonResult, audioResult, imagesResult] = await Promise.all([
+      const [lessonResult, audioResult, imagesResult, chaptersResult] = await Promise.all([
         getLesson(lessonId),
         getAudioFiles(lessonId),
         getImages(lessonId),
+        getChapters(lessonId),
       ]);
       if (lessonResult.data) {
         const lesson = lessonResult.data;
@@ -119,6 +134,9 @@ export default function EditLessonPage() {
       if (imagesResult.data) {
         setImages(imagesResult.data);
       }
+      if (chaptersResult.data) {
+        setChapters(chaptersResult.data);
+      }
       setLoading(false);
     }
     load();
@@ -279,6 +297,64 @@ export default function EditLessonPage() {
     setSavingFiles(false);
   };
 
+  // --- Chapter management ---
+
+  // Chapters are listed in play order: by file, then by time within the file
+  const sortedChapters = [...chapters].sort((a, b) => {
+    const fileOrder = (c: LessonChapter) => (c.audio_id ? audioFiles.findIndex((f) => f.id === c.audio_id) : -1);
+    return fileOrder(a) - fileOrder(b) || a.start_time - b.start_time;
+  });
+
+  const resetChapterForm = () => {
+    setEditingChapterId(null);
+    setChapterTitle('');
+    setChapterTime('');
+    setChapterAudioId('');
+    setChapterError(null);
+  };
+
+  const startEditChapter = (chapter: LessonChapter) => {
+    setEditingChapterId(chapter.id);
+    setChapterTitle(chapter.title);
+    setChapterTime(formatDuration(chapter.start_time));
+    setChapterAudioId(chapter.audio_id || '');
+    setChapterError(null);
+  };
+
+  const saveChapter = async () => {
+    const startTime = parseDuration(chapterTime);
+    if (!chapterTitle.trim() || startTime === null) {
+      setChapterError('יש להזין כותרת וזמן בפורמט דקות:שניות');
+      return;
+    }
+    setSavingChapters(true);
+    setChapterError(null);
+    const input = { title: chapterTitle.trim(), start_time: startTime, audio_id: chapterAudioId || null };
+    const result = editingChapterId
+      ? await updateChapter(editingChapterId, input)
+      : await createChapter(lessonId, input);
+    if (result.data) {
+      const saved = result.data;
+      setChapters((prev) =>
+        editingChapterId ? prev.map((c) => (c.id === saved.id ? saved : c)) : [...prev, saved]
+      );
+      resetChapterForm();
+    } else {
+      setChapterError('שגיאה בשמירת הפרק');
+    }
+    setSavingChapters(false);
+  };
+
+  const handleDeleteChapter = async (chapterId: string) => {
+    setSavingChapters(true);
+    const result = await deleteChapter(chapterId);
+    if (!result.error) {
+      setChapters((prev) => prev.filter((c) => c.id !== chapterId));
+      if (editingChapterId === chapterId) resetChapterForm();
+    }
+    setSavingChapters(false);
+  };
+
   // --- Image management ---
 
   const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -915,6 +991,129 @@ export default function EditLessonPage() {
         )}
       </div>
 
+      {/* Chapters Section */}
+      <div className="border-t border-[hsl(0,0%,18%)] pt-6">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-sm font-bold text-muted-foreground uppercase tracking-wider">
+            פרקים ({chapters.length})
+          </h2>
+          {savingChapters && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        </div>
+
+        {/* Existing chapters */}
+        {sortedChapters.length > 0 && (
+          <div className="space-y-1 mb-3">
+            {sortedChapters.map((chapter) => {
+              const file = audioFiles.find((f) => f.id === chapter.audio_id);
+              return (
+                <div
+                  key={chapter.id}
+                  className={`flex items-center gap-2 rounded-lg px-3 py-2.5 group ${
+                    editingChapterId === chapter.id
+                      ? 'bg-primary/10'
+                      : 'bg-[hsl(var(--surface-elevated))]'
+                  }`}
+                >
+                  <ListOrdered className="h-3.5 w-3.5 text-muted-foreground flex-shrink-0" />
+                  <span className="text-xs text-muted-foreground tabular-nums w-12 flex-shrink-0" dir="ltr">
+                    {formatDuration(chapter.start_time)}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-foreground truncate" dir="auto">{chapter.title}</p>
+                    {file && (
+                      <p className="text-[11px] text-muted-foreground truncate" dir="auto">
+                        {file.original_name || file.audio_type || file.file_key.split('/').pop()}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0 opacity-60 group-hover:opacity-100 transition-opacity">
+                    <button
+                      type="button"
+                      onClick={() => startEditChapter(chapter)}
+                      className="p-1.5 text-muted-foreground hover:text-foreground transition-colors"
+                      aria-label="Edit chapter"
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDeleteChapter(chapter.id)}
+                      disabled={savingChapters}
+                      className="p-1.5 text-muted-foreground hover:text-destructive transition-colors"
+                      aria-label="Delete chapter"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Add / edit chapter */}
+        <div className="space-y-2 rounded-lg bg-[hsl(var(--surface-elevated))] p-3">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={chapterTime}
+              onChange={(e) => setChapterTime(e.target.value)}
+              placeholder="0:00"
+              className="w-20 rounded bg-[hsl(var(--surface-highlight))] px-2 py-1.5 text-sm text-foreground tabular-nums focus:outline-none focus:ring-1 focus:ring-primary/50 border-0"
+              dir="ltr"
+            />
+            <input
+              type="text"
+              value={chapterTitle}
+              onChange={(e) => setChapterTitle(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') { e.preventDefault(); saveChapter(); }
+                if (e.key === 'Escape') resetChapterForm();
+              }}
+              placeholder="כותרת הפרק"
+              className="flex-1 rounded bg-[hsl(var(--surface-highlight))] px-2 py-1.5 text-sm text-foreground focus:outline-none focus:ring-1 focus:ring-primary/50 border-0"
+              dir="auto"
+            />
+          </div>
+          {audioFiles.length > 0 && (
+            <select
+              value={chapterAudioId}
+              onChange={(e) => setChapterAudioId(e.target.value)}
+              className="w-full rounded-md bg-[hsl(var(--surface-highlight))] px-2 py-1.5 text-xs text-foreground border-0 focus:outline-none focus:ring-1 focus:ring-primary/50"
+              dir="rtl"
+            >
+              <option value="">קובץ השמע הראשי</option>
+              {audioFiles.map((file, index) => (
+                <option key={file.id} value={file.id}>
+                  {index + 1}. {file.original_name || file.audio_type || file.file_key.split('/').pop()}
+                </option>
+              ))}
+            </select>
+          )}
+          {chapterError && <p className="text-xs text-destructive">{chapterError}</p>}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={saveChapter}
+              disabled={savingChapters || !chapterTitle.trim() || !chapterTime.trim()}
+              className="flex items-center gap-1.5 rounded-full bg-primary px-4 py-2 text-xs font-bold text-primary-foreground hover:bg-primary/90 disabled:opacity-40 disabled:cursor-not-allowed transition-all"
+            >
+              {editingChapterId ? <Check className="h-3.5 w-3.5" /> : <Plus className="h-3.5 w-3.5" />}
+              <span>{editingChapterId ? 'שמור פרק' : 'הוסף פרק'}</span>
+            </button>
+            {editingChapterId && (
+              <button
+                type="button"
+                onClick={resetChapterForm}
+                className="rounded-full bg-[hsl(var(--surface-highlight))] px-4 py-2 text-xs font-medium text-muted-foreground hover:text-foreground transition-colors"
+              >
+                ביטול
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
       {/* Delete section */}
       <div className="border-t border-[hsl(0,0%,18%)] pt-6">
         {!showDeleteConfirm ? (
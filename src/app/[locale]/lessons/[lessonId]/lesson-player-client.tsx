@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { Play, Pause, Cast, Volume2, X, ChevronRight, ChevronLeft, ChevronDown, StickyNote, Plus, Trash2, Pencil, Clock, Check, Scissors, Share2, Car, Download, CheckCircle, Loader2, Bookmark } from 'lucide-react';
+import { Play, Pause, Cast, Volume2, X, ChevronRight, ChevronLeft, ChevronDown, StickyNote, Plus, Trash2, Pencil, Clock, Check, Scissors, Share2, Car, Download, CheckCircle, Loader2, Bookmark, ListOrdered, Repeat } from 'lucide-react';
 import { useLocale } from 'next-intl';
 import { useSearchParams, useRouter } from 'next/navigation';
 import { useAudioPlayer } from '@/hooks/use-audio-player';
@@ -9,10 +9,17 @@ import { SeekBar } from '@/components/player/seek-bar';
 import { SpeedControl } from '@/components/player/speed-control';
 import { handleCastClick } from '@/lib/cast-utils';
 import type { LessonWithRelations, LessonAudio, LessonImage } from '@/types/database';
+import type { AudioTrack } from '@/stores/audio-store';
 import { normalizeAudioUrl } from '@/lib/audio-url';
-import { getNotes, addNote, updateNote, deleteNote, type LocalNote } from '@/lib/local-notes';
+import { getSegmentStarts, getSegmentBoundaries, locateInTimeline } from '@/lib/lesson-timeline';
+import { getChapterMarks, getCurrentChapterIndex } from '@/lib/chapters';
+import { buildLessonTrack, buildFileTrack } from '@/lib/lesson-track';
+import { getSpeedScopes } from '@/lib/playback-speed';
+import { getNotes, addNote, updateNote, deleteNote, NOTES_CHANGED_EVENT, type LocalNote } from '@/lib/local-notes';
 import { downloadLesson, isLessonDownloaded } from '@/lib/offline-storage';
 import { useBookmarksStore } from '@/stores/bookmarks-store';
+import { useWaveform } from '@/hooks/use-waveform';
+import { useFileProgress } from '@/hooks/use-file-progress';
 
 // ---- Inlined bookmark dialog (webpack workaround: no separate 'use client' imports) ----
 const BOOKMARK_TAGS = [
@@ -296,18 +303,39 @@ export function LessonPlayerClient({ lesson, images }: LessonPlayerClientProps)
     skipBackward,
     seekTo,
     setPlaybackSpeed,
+    speedScope,
     playTrack,
     setTrack,
+    setCurrentTime,
+    wholeLessonMode,
+    setWholeLessonMode,
+    abLoop,
+    setLoop,
+    setLoopPoint,
   } = useAudioPlayer();
 
   const isCurrentLesson = currentTrack?.id === lesson.id;
 
+  // Audio file list helpers
+  const audioFiles = lesson.audio_files || [];
+  const sortedAudioFiles = [...audioFiles].sort((a, b) => a.sort_order - b.sort_order);
+  const playsAsTimeline = wholeLessonMode && sortedAudioFiles.length > 1;
+  const isTimelineActive = isCurrentLesson && !!currentTrack?.segments;
+  const getFileProgress = useFileProgress(lesson.id, lesson.file_progress);
+
+  /** The track for the lesson's main play button — all files as one timeline in whole-lesson mode */
+  function buildTrack(): AudioTrack {
+    return buildLessonTrack(lesson, { wholeLessonMode })!;
+  }
+
   // ── Clip mode: read start/end from URL search params ──
   const clipStartParam = searchParams.get('start');
   const clipEndParam = searchParams.get('end');
   const clipStart = clipStartParam ? parseFloat(clipStartParam) : null;
   const clipEnd = clipEndParam ? parseFloat(clipEndParam) : null;
   const isClipMode = clipStart !== null;
+  // Saved A–B loop ranges open as clip links with loop=1 — loop instead of stopping at the end
+  const isLoopLink = searchParams.get('loop') === '1';
   const clipSeekDoneRef = useRef(false);
 
   // Auto-seek to clip start when the track loads for this lesson
@@ -318,8 +346,9 @@ export function LessonPlayerClient({ lesson, images }: LessonPlayerClientProps)
     if (duration <= 0) return;
 
     seekTo(clipStart);
+    if (isLoopLink && clipEnd !== null) setLoop(clipStart, clipEnd);
     clipSeekDoneRef.current = true;
-  }, [clipStart, isCurrentLesson, duration, seekTo]);
+  }, [clipStart, isCurrentLesson, duration, seekTo]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Auto-play the lesson if clip link and not yet playing this lesson
   useEffect(() => {
@@ -328,51 +357,31 @@ export function LessonPlayerClient({ lesson, images }: LessonPlayerClientProps)
     if (clipSeekDoneRef.current) return; // Already handled
 
     // Start playing the lesson so the seek effect above can fire
-    playTrack({
-      id: lesson.id,
-      title: lesson.title,
-      hebrewTitle: lesson.hebrew_title || lesson.title,
-      audioUrl: normalizeAudioUrl(lesson.audio_url) || lesson.audio_url!,
-      audioUrlFallback: normalizeAudioUrl(lesson.audio_url_fallback) || undefined,
-      duration: lesson.duration,
-      seriesName: lesson.series?.hebrew_name || lesson.series?.name || undefined,
-      date: lesson.date,
-      description: lesson.description || lesson.summary || undefined,
-    });
+    playTrack(buildTrack());
   }, [clipStart, isCurrentLesson]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Auto-pause at clip end
   useEffect(() => {
-    if (clipEnd === null || !isCurrentLesson || !isPlaying) return;
+    if (clipEnd === null || isLoopLink || !isCurrentLesson || !isPlaying) return;
     if (currentTime >= clipEnd) {
       togglePlay();
     }
-  }, [clipEnd, currentTime, isCurrentLesson, isPlaying, togglePlay]);
+  }, [clipEnd, isLoopLink, currentTime, isCurrentLesson, isPlaying, togglePlay]);
 
   const handlePlay = () => {
     if (isCurrentLesson) {
       togglePlay();
     } else {
-      playTrack({
-        id: lesson.id,
-        title: lesson.title,
-        hebrewTitle: lesson.hebrew_title || lesson.title,
-        audioUrl: normalizeAudioUrl(lesson.audio_url) || lesson.audio_url!,
-        audioUrlFallback: normalizeAudioUrl(lesson.audio_url_fallback) || undefined,
-        duration: lesson.duration,
-        seriesName: lesson.series?.hebrew_name || lesson.series?.name || undefined,
-        date: lesson.date,
-        description: lesson.description || lesson.summary || undefined,
-      });
+      playTrack(buildTrack());
     }
   };
 
-  // Audio file list helpers
-  const audioFiles = lesson.audio_files || [];
-  const sortedAudioFiles = [...audioFiles].sort((a, b) => a.sort_order - b.sort_order);
-
   function isFileActive(audio: LessonAudio): boolean {
     if (!currentTrack) return false;
+    if (isTimelineActive) {
+      const index = locateInTimeline(currentTrack.segments!, currentTime).index;
+      return sortedAudioFiles[index]?.id === audio.id;
+    }
     const normalizedFileUrl = normalizeAudioUrl(audio.audio_url);
     return currentTrack.audioUrl === normalizedFileUrl || currentTrack.audioUrl === audio.audio_url;
   }
@@ -382,16 +391,39 @@ export function LessonPlayerClient({ lesson, images }: LessonPlayerClientProps)
       togglePlay();
       return;
     }
-    setTrack({
-      id: lesson.id,
-      title: lesson.title,
-      hebrewTitle: lesson.hebrew_title || lesson.title,
-      audioUrl: normalizeAudioUrl(audio.audio_url) || audio.audio_url,
-      duration: audio.duration || lesson.duration,
-      seriesName: lesson.series?.hebrew_name || lesson.series?.name || undefined,
-      date: lesson.date,
-      description: lesson.description || lesson.summary || undefined,
-    });
+    // Whole-lesson mode: jump to the file's start on the lesson timeline
+    if (playsAsTimeline) {
+      const index = sortedAudioFiles.findIndex((f) => f.id === audio.id);
+      if (isTimelineActive) {
+        seekTo(getSegmentStarts(currentTrack!.segments!)[index] ?? 0);
+        if (!isPlaying) togglePlay();
+      } else {
+        const track = buildTrack();
+        setTrack(track);
+        // Picked up as the start position when the timeline loads
+        setCurrentTime(getSegmentStarts(track.segments!)[index] ?? 0);
+      }
+      return;
+    }
+    setTrack(buildFileTrack(lesson, audio));
+  }
+
+  // Chapters resolve against the playing track once it's this lesson — its segment
+  // durations are filled in as the files load
+  const displayTrack = isCurrentLesson ? currentTrack : buildTrack();
+  const chapterMarks = getChapterMarks(displayTrack);
+  const waveform = useWaveform(displayTrack);
+  const activeChapterIndex = isCurrentLesson ? getCurrentChapterIndex(chapterMarks, currentTime) : -1;
+
+  function handleChapterClick(time: number) {
+    if (isCurrentLesson) {
+      seekTo(time);
+      if (!isPlaying) togglePlay();
+      return;
+    }
+    setTrack(buildTrack());
+    // Picked up as the start position when the track loads
+    setCurrentTime(time);
   }
 
   // ---- Offline download state (inlined — webpack workaround) ----
@@ -415,12 +447,12 @@ export function LessonPlayerClient({ lesson, images }: LessonPlayerClientProps)
     setDlProgress(0);
     const success = await downloadLesson(
       lesson.id, audioUrl,
-      { lessonId: lesson.id, title: lesson.title, hebrewTitle: lesson.hebrew_title || lesson.title, audioUrl, duration: lesson.duration, fileSize: 0, seriesName: lesson.series?.hebrew_name || lesson.series?.name || undefined, date: lesson.date },
+      { lessonId: lesson.id, title: lesson.title, hebrewTitle: lesson.hebrew_title || lesson.title, audioUrl, duration: lesson.duration, fileSize: 0, seriesName: lesson.series?.hebrew_name || lesson.series?.name || undefined, date: lesson.date, imageUrls: (images ?? []).map((img) => getImageStreamUrl(img.file_key)) },
       (pct) => setDlProgress(pct),
     );
     if (success) { setDlState('downloaded'); setIsDownloaded(true); }
     else { setDlState('error'); setTimeout(() => setDlState('idle'), 3000); }
-  }, [effectiveDlState, lesson]);
+  }, [effectiveDlState, lesson, images]);
 
   // ---- Bookmark state ----
   const [showBookmarkDialog, setShowBookmarkDialog] = useState(false);
@@ -459,6 +491,15 @@ export function LessonPlayerClient({ lesson, images }: LessonPlayerClientProps)
     setNotes(getNotes(lesson.id));
   }, [lesson.id]);
 
+  // Notes added elsewhere (the N shortcut) show up here too
+  useEffect(() => {
+    const handleChange = (e: Event) => {
+      if ((e as CustomEvent<string>).detail === lesson.id) refreshNotes();
+    };
+    window.addEventListener(NOTES_CHANGED_EVENT, handleChange);
+    return () => window.removeEventListener(NOTES_CHANGED_EVENT, handleChange);
+  }, [lesson.id, refreshNotes]);
+
   const handleAddNote = () => {
     const text = newNoteText.trim();
     if (!text) return;
@@ -495,15 +536,22 @@ export function LessonPlayerClient({ lesson, images }: LessonPlayerClientProps)
 
   const displayTime = isCurrentLesson ? currentTime : 0;
   const displayDuration = isCurrentLesson ? duration : lesson.duration;
+  const fileBoundaries = isTimelineActive
+    ? getSegmentBoundaries(currentTrack!.segments!)
+    : undefined;
 
   return (
     <div className="space-y-4">
       {/* Clip mode badge */}
       {isClipMode && clipStart !== null && clipEnd !== null && (
         <div className="flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl bg-primary/10 border border-primary/20" dir="rtl">
-          <Scissors className="h-4 w-4 text-primary flex-shrink-0" />
+          {isLoopLink ? (
+            <Repeat className="h-4 w-4 text-primary flex-shrink-0" />
+          ) : (
+            <Scissors className="h-4 w-4 text-primary flex-shrink-0" />
+          )}
           <span className="text-sm font-medium text-primary">
-            מצב קטע: {formatDur(clipStart)} - {formatDur(clipEnd)}
+            {isLoopLink ? 'לולאה' : 'מצב קטע'}: {formatDur(clipStart)} - {formatDur(clipEnd)}
           </span>
         </div>
       )}
@@ -515,13 +563,23 @@ export function LessonPlayerClient({ lesson, images }: LessonPlayerClientProps)
             {lessonBookmarks.map((bm) => (
               <button
                 key={bm.id}
-                onClick={() => { if (isCurrentLesson) seekTo(bm.position); }}
+                onClick={() => {
+                  if (!isCurrentLesson) return;
+                  // Saved A–B range — reopen the loop
+                  if (bm.endPosition !== undefined) setLoop(bm.position, bm.endPosition);
+                  seekTo(bm.position);
+                }}
                 onContextMenu={(e) => { e.preventDefault(); removeBookmark(bm.id); }}
                 className="flex items-center gap-1 rounded-full px-2.5 py-1 text-xs font-medium bg-amber-500/15 text-amber-400 hover:bg-amber-500/25 transition-colors"
                 title={bm.note || (locale === 'he' ? 'לחץ לדלג, לחץ ימני למחיקה' : 'Click to seek, right-click to delete')}
               >
-                <Bookmark className="h-3 w-3 fill-current" />
+                {bm.endPosition !== undefined ? (
+                  <Repeat className="h-3 w-3" />
+                ) : (
+                  <Bookmark className="h-3 w-3 fill-current" />
+                )}
                 {formatDur(bm.position)}
+                {bm.endPosition !== undefined && `–${formatDur(bm.endPosition)}`}
               </button>
             ))}
           </div>
@@ -533,10 +591,15 @@ export function LessonPlayerClient({ lesson, images }: LessonPlayerClientProps)
             currentTime={displayTime}
             duration={displayDuration}
             onSeek={seekTo}
+            markers={fileBoundaries}
+            chapters={chapterMarks.map((c) => c.time)}
+            loop={isCurrentLesson ? abLoop : null}
+            onLoopChange={setLoopPoint}
+            waveform={waveform}
           />
           {/* Bookmark markers overlay on seek bar */}
           {displayDuration > 0 && lessonBookmarks.length > 0 && (
-            <div className="absolute top-0 inset-x-0 h-5 pointer-events-auto" style={{ zIndex: 1 }}>
+            <div className={`absolute top-0 inset-x-0 pointer-events-auto ${waveform ? 'h-8' : 'h-5'}`} style={{ zIndex: 1 }}>
               {lessonBookmarks.map((bm) => {
                 const pct = (bm.position / displayDuration) * 100;
                 const colorClass = tagColorMap[bm.tag] || 'bg-primary';
@@ -559,6 +622,8 @@ export function LessonPlayerClient({ lesson, images }: LessonPlayerClientProps)
           <SpeedControl
             speed={isCurrentLesson ? playbackSpeed : 1}
             onSpeedChange={setPlaybackSpeed}
+            scope={isCurrentLesson ? speedScope : null}
+            scopes={isCurrentLesson ? getSpeedScopes(currentTrack) : []}
           />
 
           {/* RTL: left-arrow icon = skip FORWARD (Hebrew reads R→L, left = forward) */}
@@ -676,13 +741,28 @@ export function LessonPlayerClient({ lesson, images }: LessonPlayerClientProps)
       {/* Audio files list (inlined to avoid webpack dev chunk issue) */}
       {sortedAudioFiles.length > 1 && (
         <div className="rounded-xl bg-[hsl(var(--surface-elevated))] p-4">
-          <h2 className="text-sm font-bold mb-3 text-muted-foreground uppercase tracking-wider">
-            {locale === 'he' ? 'קבצי שמע' : 'Audio Files'}
-          </h2>
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-sm font-bold text-muted-foreground uppercase tracking-wider">
+              {locale === 'he' ? 'קבצי שמע' : 'Audio Files'}
+            </h2>
+            {/* Whole-lesson mode: play all files back-to-back as one timeline */}
+            <button
+              onClick={() => setWholeLessonMode(!wholeLessonMode)}
+              className={`rounded-full border px-2.5 py-1 text-[11px] font-medium transition-colors ${
+                wholeLessonMode
+                  ? 'border-primary text-primary'
+                  : 'border-[hsl(0,0%,30%)] text-muted-foreground hover:text-foreground'
+              }`}
+              aria-pressed={wholeLessonMode}
+            >
+              {locale === 'he' ? 'נגן ברצף' : 'Play as one'}
+            </button>
+          </div>
           <div className="space-y-0.5">
             {sortedAudioFiles.map((audio, index) => {
               const active = isFileActive(audio);
               const playing = active && isPlaying;
+              const progress = getFileProgress(audio);
               return (
                 <button
                   key={audio.id}
@@ -708,24 +788,41 @@ export function LessonPlayerClient({ lesson, images }: LessonPlayerClientProps)
                     )}
                   </span>
 
-                  <div className="flex-1 min-w-0 flex items-center gap-2">
-                    <p
-                      className={`text-sm font-medium truncate ${active ? 'text-primary' : ''}`}
-                      dir="rtl"
-                    >
-                      {audio.original_name || `${locale === 'he' ? 'חלק' : 'Part'} ${index + 1}`}
-                    </p>
-                    {audio.audio_type && (
-                      <span className={`text-[10px] font-medium px-2 py-0.5 rounded-full flex-shrink-0 ${
-                        audio.audio_type === 'עץ חיים'
-                          ? 'bg-primary/15 text-primary'
-                          : 'bg-amber-500/15 text-amber-400'
-                      }`}>
-                        {audio.audio_type}
-                      </span>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p
+                        className={`text-sm font-medium truncate ${active ? 'text-primary' : ''}`}
+                        dir="rtl"
+                      >
+                        {audio.original_name || `${locale === 'he' ? 'חלק' : 'Part'} ${index + 1}`}
+                      </p>
+                      {audio.audio_type && (
+                        <span className={`text-[10px] font-medium px-2 py-0.5 rounded-full flex-shrink-0 ${
+                          audio.audio_type === 'עץ חיים'
+                            ? 'bg-primary/15 text-primary'
+                            : 'bg-amber-500/15 text-amber-400'
+                        }`}>
+                          {audio.audio_type}
+                        </span>
+                      )}
+                    </div>
+                    {progress && !progress.completed && progress.percent > 0 && (
+                      <div className="mt-1 h-0.5 overflow-hidden rounded-full bg-[hsl(0,0%,24%)]">
+                        <div
+                          className="h-full rounded-full bg-primary"
+                          style={{ width: `${progress.percent}%` }}
+                        />
+                      </div>
                     )}
                   </div>
 
+                  {progress?.completed && (
+                    <CheckCircle
+                      className="h-4 w-4 text-primary flex-shrink-0"
+                      aria-label={locale === 'he' ? 'הושלם' : 'Completed'}
+                    />
+                  )}
+
                   {audio.duration > 0 && (
                     <span className="text-xs text-muted-foreground tabular-nums flex-shrink-0">
                       {formatDur(audio.duration)}
@@ -738,6 +835,36 @@ export function LessonPlayerClient({ lesson, images }: LessonPlayerClientProps)
         </div>
       )}
 
+      {/* Chapters */}
+      {chapterMarks.length > 0 && (
+        <div className="rounded-xl bg-[hsl(var(--surface-elevated))] p-4">
+          <h2 className="flex items-center gap-2 text-sm font-bold text-muted-foreground uppercase tracking-wider mb-3">
+            <ListOrdered className="h-4 w-4" />
+            {locale === 'he' ? 'פרקים' : 'Chapters'}
+          </h2>
+          <div className="space-y-0.5">
+            {chapterMarks.map((chapter, index) => (
+              <button
+                key={`${chapter.time}-${index}`}
+                onClick={() => handleChapterClick(chapter.time)}
+                className={`w-full flex items-center gap-3 rounded-md p-2.5 transition-colors text-start ${
+                  index === activeChapterIndex
+                    ? 'bg-primary/10'
+                    : 'hover:bg-[hsl(var(--surface-highlight))]'
+                }`}
+              >
+                <span className="text-xs text-muted-foreground tabular-nums flex-shrink-0 w-12" dir="ltr">
+                  {formatDur(chapter.time) || '0:00'}
+                </span>
+                <p className={`text-sm font-medium truncate ${index === activeChapterIndex ? 'text-primary' : ''}`} dir="auto">
+                  {chapter.title}
+                </p>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Image gallery */}
       {images && images.length > 0 && (
         <ImageGallerySection images={images} locale={locale} />
@@ -1,9 +1,11 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { LessonCard } from '@/components/lessons/lesson-card';
 import { LessonCardSkeleton } from '@/components/lessons/lesson-card-skeleton';
 import { useInfiniteScroll } from '@/hooks/use-infinite-scroll';
+import { useIsOnline, useCatalogSnapshot } from '@/hooks/use-offline';
+import { filterCatalogLessons, toLessonWithRelations } from '@/lib/offline-catalog';
 import { getLessonsPaginated } from '@/actions/lessons-paginated';
 import type { LessonWithRelations } from '@/types/database';
 
@@ -62,9 +64,23 @@ export function LessonsClient({
     setHasMore(result.hasMore);
   }, [lessons.length, audioTypeFilter, categoryFilter]);
 
-  const { sentinelRef, isLoading } = useInfiniteScroll({ fetchMore, hasMore });
+  // Offline: the catalog snapshot, filtered by the URL — the page itself may be a
+  // cached copy rendered for other filters
+  const online = useIsOnline();
+  const snapshot = useCatalogSnapshot(!online);
+  const offlineLessons = useMemo(() => {
+    if (!snapshot?.lessons.length) return null;
+    const params = new URLSearchParams(window.location.search);
+    return filterCatalogLessons(snapshot, {
+      query: params.get('q') || undefined,
+      audioType: params.get('type') || undefined,
+      categoryId: params.get('cat') || undefined,
+    }).map((lesson) => toLessonWithRelations(lesson, snapshot));
+  }, [snapshot]);
 
-  const groups = groupByDate(lessons, locale);
+  const { sentinelRef, isLoading } = useInfiniteScroll({ fetchMore, hasMore: hasMore && !offlineLessons });
+
+  const groups = groupByDate(offlineLessons ?? lessons, locale);
 
   if (groups.length === 0) {
     return null;
@@ -95,7 +111,7 @@ export function LessonsClient({
       )}
 
       {/* Infinite scroll sentinel */}
-      {hasMore && <div ref={sentinelRef} className="h-4" />}
+      {hasMore && !offlineLessons && <div ref={sentinelRef} className="h-4" />}
     </>
   );
 }
@@ -3,11 +3,12 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { useRouter } from '@/i18n/routing';
 import { useTranslations } from 'next-intl';
-import { ArrowRight, Link as LinkIcon, Plus, Scissors, ImagePlus, X, Calendar, Sparkles } from 'lucide-react';
+import { ArrowRight, Link as LinkIcon, Plus, Scissors, ImagePlus, X, Calendar, Sparkles, RotateCcw } from 'lucide-react';
 import { UploadZone, type SelectedFile } from '@/components/upload/upload-zone';
 import { WhatsAppInput } from '@/components/upload/whatsapp-input';
 import { UploadProgress } from '@/components/upload/upload-progress';
 import { useUpload, type FileWithMeta } from '@/hooks/use-upload';
+import { getPendingUploads, deletePendingUpload, type PendingUpload } from '@/lib/pending-uploads';
 import { createLesson } from '@/actions/lessons';
 import { createSeries } from '@/actions/series';
 import type { ParsedWhatsAppMessage } from '@/lib/whatsapp-parser';
@@ -35,7 +36,10 @@ export function UploadForm({ series: initialSeries, defaultSeriesId }: UploadFor
   const t = useTranslations('lessons');
   const tCommon = useTranslations('common');
   const router = useRouter();
-  const { status, progress, error: uploadError, fileProgresses, uploadMultiple } = useUpload();
+  const { status, progress, error: uploadError, fileProgresses, uploadMultiple, resumeUpload } = useUpload();
+
+  // Uploads cut off by a reload or the phone locking — offered to resume
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>([]);
 
   const [files, setFiles] = useState<SelectedFile[]>([]);
   const [imageFiles, setImageFiles] = useState<File[]>([]);
@@ -67,6 +71,34 @@ export function UploadForm({ series: initialSeries, defaultSeriesId }: UploadFor
   const isShortClipMode = !!defaultSeriesId;
   const backHref = isShortClipMode ? '/series' : '/lessons';
 
+  useEffect(() => {
+    let cancelled = false;
+    getPendingUploads().then((uploads) => {
+      if (!cancelled) setPendingUploads(uploads);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  // An upload that fails here is offered for resume straight away
+  const reloadPendingUploads = async () => {
+    setPendingUploads(await getPendingUploads());
+  };
+
+  const handleResumeUpload = async (pending: PendingUpload) => {
+    const url = await resumeUpload(pending);
+    if (url) router.push(`/lessons/${pending.lessonId}`);
+    else await reloadPendingUploads();
+  };
+
+  const handleDiscardUpload = async (uploadId: string) => {
+    // The chunks already sent would otherwise stay in storage for good
+    try {
+      await fetch(`/api/upload/chunk?uploadId=${encodeURIComponent(uploadId)}`, { method: 'DELETE' });
+    } catch { /* non-critical */ }
+    await deletePendingUpload(uploadId);
+    setPendingUploads((prev) => prev.filter((p) => p.uploadId !== uploadId));
+  };
+
   // Auto-fetch metadata when date changes
   useEffect(() => {
     if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return;
@@ -193,7 +225,13 @@ export function UploadForm({ series: initialSeries, defaultSeriesId }: UploadFor
           metadata: f.metadata,
           transcodeEnabled: f.transcodeEnabled,
         }));
-        await uploadMultiple(filesWithMeta, lessonId);
+        const urls = await uploadMultiple(filesWithMeta, lessonId);
+        if (urls.length < filesWithMeta.length) {
+          // Stay here, where the failed ones can be resumed
+          await reloadPendingUploads();
+          setFormError('חלק מהקבצים לא הועלו — אפשר להמשיך אותם מרשימת ההעלאות שלא הסתיימו');
+          return;
+        }
       } else if (mode === 'url' && importUrl) {
         await fetch('/api/import-url', {
           method: 'POST',
@@ -247,6 +285,40 @@ export function UploadForm({ series: initialSeries, defaultSeriesId }: UploadFor
         )}
       </div>
 
+      {/* Unfinished uploads */}
+      {pendingUploads.length > 0 && (
+        <div className="space-y-2 rounded-xl bg-[hsl(var(--surface-elevated))] p-4">
+          <h2 className="text-xs font-bold text-muted-foreground uppercase tracking-wider">{t('unfinishedUploads')}</h2>
+          {pendingUploads.map((pending) => (
+            <div key={pending.uploadId} className="flex items-center gap-2 text-sm">
+              <span className="flex-1 min-w-0 truncate">{pending.file.name}</span>
+              <span className="text-xs text-muted-foreground tabular-nums flex-shrink-0">
+                {t('uploadedPercent', { percent: Math.round((pending.completedParts.length / pending.totalParts) * 100) })}
+              </span>
+              <button
+                type="button"
+                onClick={() => handleResumeUpload(pending)}
+                disabled={isUploading}
+                className="flex items-center gap-1 rounded-full bg-primary px-3 py-1 text-xs font-bold text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-40"
+              >
+                <RotateCcw className="h-3 w-3" />
+                {t('resumeUpload')}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDiscardUpload(pending.uploadId)}
+                disabled={isUploading}
+                className="rounded-full p-1.5 text-muted-foreground hover:text-destructive transition-colors disabled:opacity-40"
+                aria-label={t('discardUpload')}
+                title={t('discardUpload')}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Mode Tabs */}
       <div className="flex rounded-full bg-[hsl(var(--surface-elevated))] p-1">
         <button
@@ -2,51 +2,78 @@
 
 import { useEffect, useState } from 'react';
 import { useTranslations } from 'next-intl';
-import { Download, Trash2, HardDrive, Wifi, WifiOff } from 'lucide-react';
-import { getDownloadedLessons, deleteDownloadedLesson, getStorageUsage } from '@/lib/offline-storage';
+import { Download, Trash2, HardDrive, Wifi, WifiOff, Pause, Play, RotateCcw, X, Loader2, Clock, AlertCircle, CheckCircle, BellRing, Pin, ImageIcon } from 'lucide-react';
+import {
+  getDownloadedLessons,
+  deleteDownloadedLesson,
+  getStorageUsage,
+  setLessonPinned,
+  getStoragePolicy,
+  updateStoragePolicy,
+  type OfflineLessonMeta,
+  type StoragePolicy,
+} from '@/lib/offline-storage';
+import { enforceStoragePolicy, pickToFree } from '@/lib/storage-policy';
 import { formatFileSize } from '@/lib/audio-utils';
 import { formatDuration } from '@/lib/utils';
 import { EmptyState } from '@/components/shared/empty-state';
+import { useDownloadStore, type DownloadItem } from '@/stores/download-store';
+import { useAutoDownloadSettings } from '@/hooks/use-auto-download';
 
-interface OfflineLesson {
-  lessonId: string;
-  title: string;
-  hebrewTitle: string;
-  audioUrl: string;
-  duration: number;
-  fileSize: number;
-  downloadedAt: string;
-  seriesName?: string;
-  date: string;
-}
+const KEEP_LESSONS_OPTIONS = [5, 10, 20, 50];
+const MAX_STORAGE_OPTIONS_MB = [512, 1024, 2048, 5120];
+const REMOVE_COMPLETED_OPTIONS_DAYS = [1, 7, 30];
+const FREE_UP_OPTIONS_MB = [100, 500, 1024];
 
 export default function OfflinePage() {
   const t = useTranslations('offline');
-  const [lessons, setLessons] = useState<OfflineLesson[]>([]);
+  const [lessons, setLessons] = useState<OfflineLessonMeta[]>([]);
+  const [policy, setPolicy] = useState<StoragePolicy | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [freeUpMB, setFreeUpMB] = useState(FREE_UP_OPTIONS_MB[0]);
   const [storage, setStorage] = useState({ used: 0, quota: 0 });
   const [isOnline, setIsOnline] = useState(true);
+  const [mounted, setMounted] = useState(false);
+  const queue = useDownloadStore();
+  const finishedCount = queue.items.filter((i) => i.status === 'done').length;
+  const autoDownload = useAutoDownloadSettings();
 
   useEffect(() => {
     loadData();
     setIsOnline(navigator.onLine);
+    setMounted(true);
 
     const handleOnline = () => setIsOnline(true);
     const handleOffline = () => setIsOnline(false);
+    // The service worker downloaded new lessons from followed topics
+    const handleMessage = (e: MessageEvent) => {
+      if (e.data?.type === 'auto-download-complete') loadData();
+    };
     window.addEventListener('online', handleOnline);
     window.addEventListener('offline', handleOffline);
+    navigator.serviceWorker?.addEventListener('message', handleMessage);
     return () => {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
+      navigator.serviceWorker?.removeEventListener('message', handleMessage);
     };
   }, []);
 
+  // Show lessons the queue finishes as they land
+  useEffect(() => {
+    if (finishedCount > 0) loadData();
+  }, [finishedCount]);
+
   async function loadData() {
-    const [downloaded, storageInfo] = await Promise.all([
+    const [downloaded, storageInfo, savedPolicy] = await Promise.all([
       getDownloadedLessons(),
       getStorageUsage(),
+      getStoragePolicy(),
     ]);
     setLessons(downloaded);
     setStorage(storageInfo);
+    setPolicy(savedPolicy);
+    setSelected((prev) => new Set(downloaded.filter((l) => prev.has(l.lessonId)).map((l) => l.lessonId)));
   }
 
   async function handleDelete(lessonId: string) {
@@ -54,7 +81,52 @@ export default function OfflinePage() {
     loadData();
   }
 
+  async function handleDeleteMany(lessonIds: string[]) {
+    for (const lessonId of lessonIds) {
+      await deleteDownloadedLesson(lessonId);
+    }
+    setSelected(new Set());
+    loadData();
+  }
+
+  async function handleTogglePin(lesson: OfflineLessonMeta) {
+    await setLessonPinned(lesson.lessonId, !lesson.pinned);
+    loadData();
+  }
+
+  // A stricter policy takes effect right away
+  async function handlePolicyChange(changes: Partial<StoragePolicy>) {
+    setPolicy(await updateStoragePolicy(changes));
+    await enforceStoragePolicy();
+    loadData();
+  }
+
+  function toggleSelected(lessonId: string) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(lessonId)) next.delete(lessonId);
+      else next.add(lessonId);
+      return next;
+    });
+  }
+
   const totalDownloaded = lessons.reduce((acc, l) => acc + l.fileSize, 0);
+  const selectedSize = lessons.reduce((acc, l) => acc + (selected.has(l.lessonId) ? l.fileSize : 0), 0);
+  const toFree = pickToFree(lessons, freeUpMB * 1024 * 1024);
+  const toFreeSize = toFree.reduce((acc, l) => acc + l.fileSize, 0);
+  const remaining = queue.items.filter((i) => i.status === 'queued' || i.status === 'downloading');
+  // Estimated bytes still to come — the unfinished part of what's downloading counts too
+  const remainingSize = remaining.reduce((acc, i) => acc + i.fileSize * (1 - i.progress / 100), 0);
+  const hasFailed = queue.items.some((i) => i.status === 'error');
+
+  function statusLabel(item: DownloadItem): string {
+    if (item.status === 'downloading') return `${item.progress}%`;
+    // Stopped partway keeps what arrived, so show how far it got
+    const partial = item.progress > 0 ? ` · ${item.progress}%` : '';
+    if (item.status === 'queued') return (queue.paused ? t('paused') : t('queued')) + partial;
+    if (item.status === 'error') return t('failed') + partial;
+    return t('downloaded');
+  }
 
   return (
     <div className="space-y-6">
@@ -89,16 +161,266 @@ export default function OfflinePage() {
             </p>
           </>
         )}
+
+        {/* Cleanup policy — pinned lessons are always kept */}
+        {policy && (
+          <div className="space-y-2 pt-2 text-sm">
+            <p className="text-xs font-medium text-muted-foreground">{t('storagePolicy')}</p>
+            <label className="flex items-center justify-between gap-2">
+              <span>{t('maxSize')}</span>
+              <select
+                value={policy.maxSizeMB ?? ''}
+                onChange={(e) => handlePolicyChange({ maxSizeMB: e.target.value ? Number(e.target.value) : null })}
+                className="rounded-md bg-muted px-2 py-1 text-sm"
+              >
+                <option value="">{t('noLimit')}</option>
+                {MAX_STORAGE_OPTIONS_MB.map((mb) => (
+                  <option key={mb} value={mb}>{formatFileSize(mb * 1024 * 1024)}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              <span>{t('removeCompletedAfter')}</span>
+              <select
+                value={policy.removeCompletedAfterDays ?? ''}
+                onChange={(e) => handlePolicyChange({ removeCompletedAfterDays: e.target.value ? Number(e.target.value) : null })}
+                className="rounded-md bg-muted px-2 py-1 text-sm"
+              >
+                <option value="">{t('never')}</option>
+                {REMOVE_COMPLETED_OPTIONS_DAYS.map((days) => (
+                  <option key={days} value={days}>{t('days', { count: days })}</option>
+                ))}
+              </select>
+            </label>
+            {lessons.length > 0 && (
+              <div className="flex items-center justify-between gap-2">
+                <select
+                  value={freeUpMB}
+                  onChange={(e) => setFreeUpMB(Number(e.target.value))}
+                  className="rounded-md bg-muted px-2 py-1 text-sm"
+                  aria-label={t('freeUpAmount')}
+                >
+                  {FREE_UP_OPTIONS_MB.map((mb) => (
+                    <option key={mb} value={mb}>{formatFileSize(mb * 1024 * 1024)}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => handleDeleteMany(toFree.map((l) => l.lessonId))}
+                  disabled={toFree.length === 0}
+                  className="rounded-lg bg-[hsl(var(--surface-elevated))] px-3 py-1.5 text-xs font-medium hover:bg-[hsl(var(--surface-highlight))] transition-colors disabled:opacity-50"
+                >
+                  {t('freeUp', { size: formatFileSize(toFreeSize), count: toFree.length })}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
+      {/* Auto-download for followed categories/series */}
+      {autoDownload.settings && (
+        <div className="rounded-xl border bg-card p-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <BellRing className="h-4 w-4 text-muted-foreground" />
+            <span className="text-sm font-medium">{t('autoDownload')}</span>
+          </div>
+
+          {autoDownload.settings.follows.length > 0 ? (
+            <>
+              <p className="text-xs text-muted-foreground">{t('autoDownloadHint')}</p>
+              <div className="flex flex-wrap gap-2">
+                {autoDownload.settings.follows.map((topic) => (
+                  <span
+                    key={`${topic.type}-${topic.id}`}
+                    className="flex items-center gap-1 rounded-full bg-primary/15 ps-3 pe-1 py-1 text-xs text-primary"
+                  >
+                    {topic.name}
+                    <button
+                      onClick={() => autoDownload.unfollow(topic.type, topic.id)}
+                      className="rounded-full p-0.5 hover:bg-primary/25 transition-colors"
+                      aria-label={t('unfollow')}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            </>
+          ) : (
+            <p className="text-xs text-muted-foreground">{t('noFollows')}</p>
+          )}
+
+          <div className="space-y-2 text-sm">
+            <label className="flex items-center justify-between gap-2">
+              <span>{t('wifiOnly')}</span>
+              <input
+                type="checkbox"
+                checked={autoDownload.settings.wifiOnly}
+                onChange={(e) => autoDownload.update({ wifiOnly: e.target.checked })}
+                className="h-4 w-4 accent-[hsl(var(--primary))]"
+              />
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              <span>{t('keepLessons')}</span>
+              <select
+                value={autoDownload.settings.maxLessons}
+                onChange={(e) => autoDownload.update({ maxLessons: Number(e.target.value) })}
+                className="rounded-md bg-muted px-2 py-1 text-sm"
+              >
+                {KEEP_LESSONS_OPTIONS.map((n) => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              <span>{t('maxStorage')}</span>
+              <select
+                value={autoDownload.settings.maxStorageMB}
+                onChange={(e) => autoDownload.update({ maxStorageMB: Number(e.target.value) })}
+                className="rounded-md bg-muted px-2 py-1 text-sm"
+              >
+                {MAX_STORAGE_OPTIONS_MB.map((mb) => (
+                  <option key={mb} value={mb}>{formatFileSize(mb * 1024 * 1024)}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+      )}
+
+      {/* Download queue — saved in this browser, so only shown once mounted */}
+      {mounted && queue.items.length > 0 && (
+        <div className="rounded-xl border bg-card p-4 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <div>
+              <h2 className="text-sm font-medium">{t('queueTitle')}</h2>
+              {remaining.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {t('queueRemaining', { count: remaining.length, size: formatFileSize(Math.round(remainingSize)) })}
+                </p>
+              )}
+            </div>
+            <div className="flex items-center gap-1">
+              {hasFailed && (
+                <button
+                  onClick={queue.retryFailed}
+                  className="rounded-full p-2 hover:bg-muted transition-colors"
+                  aria-label={t('retryFailed')}
+                  title={t('retryFailed')}
+                >
+                  <RotateCcw className="h-4 w-4" />
+                </button>
+              )}
+              {finishedCount > 0 && (
+                <button
+                  onClick={queue.clearFinished}
+                  className="rounded-lg px-2 py-1 text-xs text-muted-foreground hover:bg-muted transition-colors"
+                >
+                  {t('clearFinished')}
+                </button>
+              )}
+              {remaining.length > 0 && (
+                <button
+                  onClick={queue.paused ? queue.resume : queue.pause}
+                  className="flex items-center gap-1 rounded-lg bg-primary px-3 py-1.5 text-xs font-medium text-primary-foreground hover:bg-primary/90 transition-colors"
+                >
+                  {queue.paused ? <Play className="h-3.5 w-3.5" /> : <Pause className="h-3.5 w-3.5" />}
+                  {queue.paused ? t('resume') : t('pause')}
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {queue.items.map((item) => (
+              <div key={item.lessonId} className="flex items-center gap-3">
+                {item.status === 'downloading' ? (
+                  <Loader2 className="h-4 w-4 text-primary animate-spin flex-shrink-0" />
+                ) : item.status === 'queued' ? (
+                  <Clock className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                ) : item.status === 'error' ? (
+                  <AlertCircle className="h-4 w-4 text-red-400 flex-shrink-0" />
+                ) : (
+                  <CheckCircle className="h-4 w-4 text-green-500 flex-shrink-0" />
+                )}
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm truncate" dir="rtl">{item.hebrewTitle || item.title}</p>
+                    <span className="text-xs text-muted-foreground flex-shrink-0">
+                      {statusLabel(item)}
+                      {item.fileSize > 0 && ` · ${formatFileSize(item.fileSize)}`}
+                    </span>
+                  </div>
+                  {item.status === 'downloading' && (
+                    <div className="h-1 rounded-full bg-muted overflow-hidden">
+                      <div
+                        className="h-full rounded-full bg-primary transition-all duration-300"
+                        style={{ width: `${item.progress}%` }}
+                      />
+                    </div>
+                  )}
+                </div>
+                {item.status === 'error' && (
+                  <button
+                    onClick={() => queue.retry(item.lessonId)}
+                    className="rounded-full p-1.5 hover:bg-muted transition-colors"
+                    aria-label={t('retry')}
+                  >
+                    <RotateCcw className="h-3.5 w-3.5" />
+                  </button>
+                )}
+                {item.status !== 'done' && (
+                  <button
+                    onClick={() => queue.remove(item.lessonId)}
+                    className="rounded-full p-1.5 text-muted-foreground hover:bg-muted transition-colors"
+                    aria-label={t('removeFromQueue')}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Downloaded lessons */}
       {lessons.length > 0 ? (
         <div className="space-y-3">
+          {/* Bulk selection */}
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <label className="flex items-center gap-2 text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={selected.size === lessons.length}
+                onChange={(e) => setSelected(e.target.checked ? new Set(lessons.map((l) => l.lessonId)) : new Set())}
+                className="h-4 w-4 accent-[hsl(var(--primary))]"
+              />
+              {t('selectAll')}
+            </label>
+            {selected.size > 0 && (
+              <button
+                onClick={() => handleDeleteMany([...selected])}
+                className="flex items-center gap-1 rounded-lg px-3 py-1.5 text-xs font-medium text-destructive hover:bg-destructive/10 transition-colors"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+                {t('deleteSelected', { count: selected.size, size: formatFileSize(selectedSize) })}
+              </button>
+            )}
+          </div>
+
           {lessons.map((lesson) => (
             <div
               key={lesson.lessonId}
               className="flex items-center gap-3 rounded-xl border bg-card p-4"
             >
+              <input
+                type="checkbox"
+                checked={selected.has(lesson.lessonId)}
+                onChange={() => toggleSelected(lesson.lessonId)}
+                className="h-4 w-4 flex-shrink-0 accent-[hsl(var(--primary))]"
+                aria-label={lesson.hebrewTitle || lesson.title}
+              />
               <Download className="h-5 w-5 text-green-500 flex-shrink-0" />
               <div className="flex-1 min-w-0">
                 <p className="font-medium truncate" dir="rtl">
@@ -108,8 +430,26 @@ export default function OfflinePage() {
                   <span>{formatDuration(lesson.duration)}</span>
                   <span>·</span>
                   <span>{formatFileSize(lesson.fileSize)}</span>
+                  {!!lesson.imageUrls?.length && (
+                    <span className="flex items-center gap-0.5" title={t('imagesIncluded', { count: lesson.imageUrls.length })}>
+                      <ImageIcon className="h-3 w-3" />
+                      {lesson.imageUrls.length}
+                    </span>
+                  )}
+                  {lesson.autoDownloaded && (
+                    <span className="rounded bg-primary/15 px-1.5 text-[10px] text-primary">{t('autoDownloaded')}</span>
+                  )}
                 </div>
               </div>
+              <button
+                onClick={() => handleTogglePin(lesson)}
+                className={`rounded-full p-2 hover:bg-muted transition-colors ${lesson.pinned ? 'text-primary' : 'text-muted-foreground'}`}
+                aria-label={lesson.pinned ? t('unpin') : t('pin')}
+                aria-pressed={!!lesson.pinned}
+                title={lesson.pinned ? t('unpin') : t('pin')}
+              >
+                <Pin className={`h-4 w-4 ${lesson.pinned ? 'fill-current' : ''}`} />
+              </button>
               <button
                 onClick={() => handleDelete(lesson.lessonId)}
                 className="rounded-full p-2 hover:bg-destructive/10 text-destructive transition-colors"
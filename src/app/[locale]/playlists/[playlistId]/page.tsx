@@ -4,6 +4,7 @@ import { getPlaylistWithLessons } from '@/lib/supabase/queries';
 import { notFound } from 'next/navigation';
 import { LessonCard } from '@/components/lessons/lesson-card';
 import { EmptyState } from '@/components/shared/empty-state';
+import { DownloadAllButton } from '@/components/lessons/download-all-button';
 import { Link } from '@/i18n/routing';
 import { ArrowRight, BookOpen, Play } from 'lucide-react';
 import type { LessonWithRelations } from '@/types/database';
@@ -49,13 +50,15 @@ export default async function PlaylistDetailPage({ params }: Props) {
         )}
       </div>
 
+      {items.length > 0 && <DownloadAllButton lessons={items.map((item) => item.lesson)} />}
+
       {items.length > 0 ? (
         <div className="space-y-3">
           {items.map((item, i) => (
             <div key={i} className="flex items-center gap-3">
               <span className="text-sm text-muted-foreground w-6 text-center">{i + 1}</span>
               <div className="flex-1">
-                <LessonCard lesson={item.lesson} showProgress />
+                <LessonCard lesson={item.lesson} showProgress context={{ type: 'playlist', id: playlistId }} />
               </div>
             </div>
           ))}
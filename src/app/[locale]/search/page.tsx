@@ -1,8 +1,7 @@
 import { setRequestLocale } from 'next-intl/server';
 import { createServerSupabaseClient } from '@/lib/supabase/server';
-import { LessonCard } from '@/components/lessons/lesson-card';
-import { EmptyState } from '@/components/shared/empty-state';
 import { Search } from 'lucide-react';
+import { SearchClient } from './search-client';
 import type { LessonWithRelations } from '@/types/database';
 
 type Props = {
@@ -52,25 +51,7 @@ export default async function SearchPage({ params, searchParams }: Props) {
         />
       </form>
 
-      {q ? (
-        results.length > 0 ? (
-          <div className="space-y-3">
-            {results.map((lesson) => (
-              <LessonCard key={lesson.id} lesson={lesson} />
-            ))}
-          </div>
-        ) : (
-          <EmptyState
-            icon={Search}
-            title={locale === 'he' ? 'לא נמצאו תוצאות' : 'No results found'}
-            description={locale === 'he' ? `לא נמצאו שיעורים עבור "${q}"` : `No lessons found for "${q}"`}
-          />
-        )
-      ) : (
-        <p className="text-center text-muted-foreground py-12">
-          {locale === 'he' ? 'הקלד לחיפוש שיעורים' : 'Type to search lessons'}
-        </p>
-      )}
+      <SearchClient query={q} results={results} locale={locale} />
     </div>
   );
 }
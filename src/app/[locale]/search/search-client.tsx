@@ -0,0 +1,66 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Search } from 'lucide-react';
+import { LessonCard } from '@/components/lessons/lesson-card';
+import { EmptyState } from '@/components/shared/empty-state';
+import { useIsOnline, useCatalogSnapshot } from '@/hooks/use-offline';
+import { filterCatalogLessons, toLessonWithRelations } from '@/lib/offline-catalog';
+import type { LessonWithRelations } from '@/types/database';
+
+const MAX_RESULTS = 50;
+
+interface SearchClientProps {
+  query?: string;
+  results: LessonWithRelations[];
+  locale: string;
+}
+
+/**
+ * Search results — from the server, or offline from the catalog snapshot for the
+ * query in the URL (the page itself may be a cached copy for another query).
+ */
+export function SearchClient({ query: serverQuery, results, locale }: SearchClientProps) {
+  const online = useIsOnline();
+  const snapshot = useCatalogSnapshot(!online);
+
+  const offline = useMemo(() => {
+    if (!snapshot?.lessons.length) return null;
+    const query = new URLSearchParams(window.location.search).get('q') || undefined;
+    const lessons = query
+      ? filterCatalogLessons(snapshot, { query })
+          .slice(0, MAX_RESULTS)
+          .map((lesson) => toLessonWithRelations(lesson, snapshot))
+      : [];
+    return { query, lessons };
+  }, [snapshot]);
+
+  const query = offline ? offline.query : serverQuery;
+  const lessons = offline ? offline.lessons : results;
+
+  if (!query) {
+    return (
+      <p className="text-center text-muted-foreground py-12">
+        {locale === 'he' ? 'הקלד לחיפוש שיעורים' : 'Type to search lessons'}
+      </p>
+    );
+  }
+
+  if (lessons.length === 0) {
+    return (
+      <EmptyState
+        icon={Search}
+        title={locale === 'he' ? 'לא נמצאו תוצאות' : 'No results found'}
+        description={locale === 'he' ? `לא נמצאו שיעורים עבור "${query}"` : `No lessons found for "${query}"`}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {lessons.map((lesson) => (
+        <LessonCard key={lesson.id} lesson={lesson} />
+      ))}
+    </div>
+  );
+}
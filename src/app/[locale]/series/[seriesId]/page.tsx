@@ -4,6 +4,8 @@ import { getSeriesById, getLessonsBySeries } from '@/lib/supabase/queries';
 import { notFound } from 'next/navigation';
 import { LessonCard } from '@/components/lessons/lesson-card';
 import { EmptyState } from '@/components/shared/empty-state';
+import { DownloadAllButton } from '@/components/lessons/download-all-button';
+import { FollowButton } from '@/components/shared/follow-button';
 import { Link } from '@/i18n/routing';
 import { ArrowRight, BookOpen } from 'lucide-react';
 import type { LessonWithRelations } from '@/types/database';
@@ -43,10 +45,15 @@ export default async function SeriesDetailPage({ params }: Props) {
         </div>
       </div>
 
+      <div className="flex flex-wrap items-center gap-2">
+        <FollowButton type="series" id={seriesId} name={series.hebrew_name || series.name} />
+        {lessons.length > 0 && <DownloadAllButton lessons={lessons as LessonWithRelations[]} />}
+      </div>
+
       {lessons.length > 0 ? (
         <div className="space-y-3">
           {lessons.map((lesson) => (
-            <LessonCard key={lesson.id} lesson={lesson as LessonWithRelations} showProgress />
+            <LessonCard key={lesson.id} lesson={lesson as LessonWithRelations} showProgress context={{ type: 'series', id: seriesId }} />
           ))}
         </div>
       ) : (
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDownloadPresignedUrl } from '@/lib/r2';
+
+/**
+ * Waveform peaks proxy.
+ * Serves the peaks JSON generated at upload (peaks/<lesson>/<file>.json) from R2.
+ * A file's peaks never change once written, so they're cached aggressively.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ fileKey: string }> }
+) {
+  try {
+    const { fileKey } = await params;
+    const decodedKey = decodeURIComponent(fileKey);
+
+    // Only peaks objects — this must not become a way to read arbitrary keys
+    if (!decodedKey.startsWith('peaks/') || !decodedKey.endsWith('.json')) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const signedUrl = await getDownloadPresignedUrl(decodedKey);
+    const r2Response = await fetch(signedUrl);
+
+    if (!r2Response.ok) {
+      return NextResponse.json(
+        { error: 'Failed to fetch peaks from storage' },
+        { status: r2Response.status }
+      );
+    }
+
+    const responseHeaders = new Headers();
+    responseHeaders.set('Content-Type', 'application/json');
+    responseHeaders.set('Cache-Control', 'public, max-age=31536000, immutable');
+
+    const contentLength = r2Response.headers.get('Content-Length');
+    if (contentLength) responseHeaders.set('Content-Length', contentLength);
+
+    return new NextResponse(r2Response.body, {
+      status: 200,
+      headers: responseHeaders,
+    });
+  } catch (error) {
+    console.error('Peaks stream error:', error);
+    return NextResponse.json(
+      { error: 'Failed to stream peaks' },
+      { status: 500 }
+    );
+  }
+}
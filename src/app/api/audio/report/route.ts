@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireServerSupabaseClient } from '@/lib/supabase/server';
+import { audioErrorReportSchema } from '@/lib/validators';
+
+/**
+ * Playback failure report from the player — one per audio source that failed to load.
+ * Listed in the admin stats page so broken files can be found and re-uploaded.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const parsed = audioErrorReportSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await requireServerSupabaseClient();
+    const { error } = await supabase
+      .from('audio_errors')
+      .insert({
+        ...parsed.data,
+        user_agent: request.headers.get('user-agent')?.slice(0, 300) || null,
+      });
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Audio error report failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to record report' },
+      { status: 500 }
+    );
+  }
+}
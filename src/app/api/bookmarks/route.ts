@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireServerSupabaseClient } from '@/lib/supabase/server';
+import { dbErrorStatus } from '@/lib/supabase/errors';
+import { createBookmarkSchema, updateBookmarkSchema, deleteBookmarkSchema } from '@/lib/validators';
+
+// Postgres unique_violation
+const DUPLICATE_KEY = '23505';
+
+/**
+ * Save a bookmark made on the device, under the id it was given there. Sent through
+ * the offline outbox, so it may arrive more than once — an id already saved counts as done.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const parsed = createBookmarkSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await requireServerSupabaseClient();
+    const { error } = await supabase
+      .from('bookmarks')
+      .insert(parsed.data);
+
+    if (error && error.code !== DUPLICATE_KEY) {
+      return NextResponse.json({ error: error.message }, { status: dbErrorStatus(error) });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Bookmark save error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save bookmark' },
+      { status: 500 }
+    );
+  }
+}
+
+/** Change a bookmark's note — by the id it was given on the device */
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const parsed = updateBookmarkSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await requireServerSupabaseClient();
+    const { error } = await supabase
+      .from('bookmarks')
+      .update({ note: parsed.data.note })
+      .eq('id', parsed.data.id);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: dbErrorStatus(error) });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Bookmark update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update bookmark' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const parsed = deleteBookmarkSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await requireServerSupabaseClient();
+    const { error } = await supabase
+      .from('bookmarks')
+      .delete()
+      .eq('id', parsed.data.id);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: dbErrorStatus(error) });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Bookmark delete error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete bookmark' },
+      { status: 500 }
+    );
+  }
+}
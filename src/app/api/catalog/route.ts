@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireServerSupabaseClient } from '@/lib/supabase/server';
+import { catalogSchema } from '@/lib/validators';
+
+// Supabase returns at most this many rows per select
+const PAGE_SIZE = 1000;
+
+// What offline browsing and search need — enough for a lesson card
+const LESSON_COLUMNS =
+  'id, title, hebrew_title, description, date, hebrew_date, parsha, duration, audio_url, series_id, category_id, part_number, is_published, updated_at, audio_files:lesson_audio(audio_type)';
+
+type Page<T> = PromiseLike<{ data: T[] | null; error: { message: string } | null }>;
+
+/** Every row of a query, a page at a time */
+async function fetchAll<T>(page: (from: number, to: number) => Page<T>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * The catalog snapshot kept on the device for offline browsing and search.
+ * With `since`, only the lessons changed after it — including ones unpublished
+ * since, so the device drops them — plus the ids of all published lessons, so it
+ * drops deleted ones too. Categories and series are few and always come whole.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const parsed = catalogSchema.safeParse({
+      since: searchParams.get('since') || undefined,
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { since } = parsed.data;
+    // Taken before reading, so anything changed meanwhile comes again next time
+    const syncedAt = new Date().toISOString();
+
+    const supabase = await requireServerSupabaseClient();
+    const [lessons, lessonIds, categories, series] = await Promise.all([
+      fetchAll((from, to) => {
+        const query = supabase.from('lessons').select(LESSON_COLUMNS).order('id').range(from, to);
+        return since ? query.gt('updated_at', since) : query.eq('is_published', true);
+      }),
+      fetchAll((from, to) =>
+        supabase.from('lessons').select('id').eq('is_published', true).order('id').range(from, to)
+      ),
+      fetchAll((from, to) => supabase.from('categories').select('*').order('sort_order').range(from, to)),
+      fetchAll((from, to) => supabase.from('series').select('*').order('name').range(from, to)),
+    ]);
+
+    return NextResponse.json({
+      lessons: lessons.map(({ audio_files, ...lesson }) => ({
+        ...lesson,
+        audio_types: [...new Set((audio_files || []).map((f: { audio_type: string | null }) => f.audio_type).filter(Boolean))],
+      })),
+      lesson_ids: lessonIds.map((l) => l.id),
+      categories,
+      series,
+      synced_at: syncedAt,
+    });
+  } catch (error) {
+    console.error('Catalog error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch catalog' },
+      { status: 500 }
+    );
+  }
+}
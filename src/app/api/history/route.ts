@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireServerSupabaseClient } from '@/lib/supabase/server';
+import { listeningSessionSchema } from '@/lib/validators';
+
+/** Record a finished listening session — sent by the player when playback stops */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const parsed = listeningSessionSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await requireServerSupabaseClient();
+    const { error } = await supabase
+      .from('listening_sessions')
+      .insert(parsed.data);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Listening session error:', error);
+    return NextResponse.json(
+      { error: 'Failed to record listening session' },
+      { status: 500 }
+    );
+  }
+}
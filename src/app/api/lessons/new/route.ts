@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireServerSupabaseClient } from '@/lib/supabase/server';
+import { normalizeAudioUrl } from '@/lib/audio-url';
+import { newLessonsSchema } from '@/lib/validators';
+
+/**
+ * Lessons published since a given time in the followed categories (with their
+ * sub-categories) or series, newest first. Polled by the service worker to
+ * auto-download them, so audio_url comes back as the stream proxy path, and
+ * image_urls lists the lesson's images at theirs.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const list = (name: string) => searchParams.get(name)?.split(',').filter(Boolean) ?? [];
+
+    const raw = {
+      category_ids: list('category_ids'),
+      series_ids: list('series_ids'),
+      since: searchParams.get('since') || '',
+      limit: searchParams.get('limit') ? Number(searchParams.get('limit')) : 20,
+    };
+
+    const parsed = newLessonsSchema.safeParse(raw);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { category_ids, series_ids, since, limit } = parsed.data;
+    if (category_ids.length === 0 && series_ids.length === 0) {
+      return NextResponse.json({ data: [] });
+    }
+
+    const supabase = await requireServerSupabaseClient();
+
+    // Following a category includes its sub-categories, like its page does
+    let categoryIds = category_ids;
+    if (category_ids.length > 0) {
+      const { data: children } = await supabase
+        .from('categories')
+        .select('id')
+        .in('parent_id', category_ids);
+      categoryIds = [...category_ids, ...(children || []).map((c) => c.id)];
+    }
+
+    const filters = [
+      categoryIds.length > 0 ? `category_id.in.(${categoryIds.join(',')})` : null,
+      series_ids.length > 0 ? `series_id.in.(${series_ids.join(',')})` : null,
+    ].filter(Boolean);
+
+    const { data, error } = await supabase
+      .from('lessons')
+      .select('id, title, hebrew_title, audio_url, duration, file_size, date, created_at, published_at, series(name, hebrew_name), images:lesson_images(file_key, sort_order)')
+      .eq('is_published', true)
+      .not('audio_url', 'is', null)
+      .gt('published_at', since)
+      .or(filters.join(','))
+      .order('published_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      data: (data || []).map(({ images, ...lesson }) => ({
+        ...lesson,
+        audio_url: normalizeAudioUrl(lesson.audio_url),
+        image_urls: [...(images || [])]
+          .sort((a, b) => a.sort_order - b.sort_order)
+          .map((image) => `/api/images/stream/${encodeURIComponent(image.file_key)}`),
+      })),
+    });
+  } catch (error) {
+    console.error('New lessons error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch new lessons' },
+      { status: 500 }
+    );
+  }
+}
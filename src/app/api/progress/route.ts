@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireServerSupabaseClient } from '@/lib/supabase/server';
+import { upsertPlaybackProgress } from '@/lib/supabase/queries';
+import { dbErrorStatus } from '@/lib/supabase/errors';
 import { playbackProgressSchema } from '@/lib/validators';
 
 export async function PUT(request: NextRequest) {
@@ -15,30 +17,22 @@ export async function PUT(request: NextRequest) {
     }
 
     const supabase = await requireServerSupabaseClient();
-    const { data, error } = await supabase
-      .from('playback_progress')
-      .upsert(
-        {
-          lesson_id: parsed.data.lesson_id,
-          position: parsed.data.position,
-          completed: parsed.data.completed,
-          last_played_at: new Date().toISOString(),
-        },
-        { onConflict: 'lesson_id' }
-      )
-      .select()
-      .single();
-
-    if (error) {
-      return NextResponse.json({ error: error.message }, { status: 500 });
-    }
+    const data = await upsertPlaybackProgress(
+      supabase,
+      parsed.data.lesson_id,
+      parsed.data.position,
+      parsed.data.completed,
+      parsed.data.audio_file_id,
+      parsed.data.played_at,
+      parsed.data.file_position
+    );
 
     return NextResponse.json({ data });
   } catch (error) {
     console.error('Progress update error:', error);
     return NextResponse.json(
       { error: 'Failed to update progress' },
-      { status: 500 }
+      { status: dbErrorStatus(error) }
     );
   }
 }
@@ -60,6 +54,7 @@ export async function GET(request: NextRequest) {
       .from('playback_progress')
       .select('*')
       .eq('lesson_id', lessonId)
+      .is('audio_file_id', null)
       .single();
 
     return NextResponse.json({ data });
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { uploadToR2 } from '@/lib/r2';
+import { uploadToR2, listR2Objects, deleteR2Prefix } from '@/lib/r2';
+import { requireServerSupabaseClient } from '@/lib/supabase/server';
+import { uploadChunksSchema } from '@/lib/validators';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
@@ -43,3 +45,76 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/**
+ * List the chunks of an upload already stored in R2, so an interrupted upload
+ * (a reload, the phone locking) sends only the rest. `completed` means it was
+ * already assembled — only the response to that got lost — so there's nothing to send.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const parsed = uploadChunksSchema.safeParse({
+      uploadId: searchParams.get('uploadId') || '',
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await requireServerSupabaseClient();
+    const [chunkKeys, { data: audioRecord }] = await Promise.all([
+      listR2Objects(`_chunks/${parsed.data.uploadId}/`),
+      supabase
+        .from('lesson_audio')
+        .select('id')
+        .eq('upload_id', parsed.data.uploadId)
+        .maybeSingle(),
+    ]);
+    const parts = chunkKeys
+      .map((key) => key.match(/part_(\d+)$/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map((match) => Number(match[1]));
+
+    return NextResponse.json({ parts, completed: audioRecord !== null });
+  } catch (error) {
+    console.error('Chunk list error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list chunks' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete the stored chunks of an upload that's been discarded — nothing else
+ * would ever clean them up.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const parsed = uploadChunksSchema.safeParse({
+      uploadId: searchParams.get('uploadId') || '',
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    await deleteR2Prefix(`_chunks/${parsed.data.uploadId}/`);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Chunk delete error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete chunks' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,5 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { requireServerSupabaseClient } from '@/lib/supabase/server';
 import {
   uploadToR2,
@@ -8,15 +9,18 @@ import {
   deleteFromR2,
   generateOriginalKey,
   getPublicAudioUrl,
+  getDownloadPresignedUrl,
   createMultipartUpload,
   uploadPart,
   completeMultipartUpload,
   abortMultipartUpload,
   type MultipartPart,
 } from '@/lib/r2';
+import { storePeaks } from '@/lib/waveform';
+import { measureLoudness } from '@/lib/loudness';
 
 export const runtime = 'nodejs';
-export const maxDuration = 300; // 5 min for large file assembly
+export const maxDuration = 300; // 5 min for large file assembly, and the measurement after it
 
 // Threshold: files under this size use simple Buffer.concat (fast path)
 // Files above this use S3 Multipart Upload (memory-safe path)
@@ -25,9 +29,14 @@ const SIMPLE_THRESHOLD = 10 * 1024 * 1024; // 10 MB
 // R2/S3 minimum part size for multipart upload (except last part)
 const MIN_PART_SIZE = 5 * 1024 * 1024; // 5 MB
 
+// Postgres unique_violation — another request completed the same upload first
+const DUPLICATE_KEY = '23505';
+
 /**
  * Assemble previously uploaded chunks from R2 and upload the complete file.
- * Then record the upload in the database.
+ * Then record the upload in the database. Its loudness and waveform peaks are
+ * measured from the assembled file after the response is sent. Completing an
+ * upload again (its first response was lost) returns what the first one recorded.
  *
  * Two paths:
  * - Fast path (< 10MB): Download all chunks → Buffer.concat → single PutObject
@@ -55,6 +64,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const supabase = await requireServerSupabaseClient();
+    const completed = await findCompletedUpload(supabase, uploadId);
+    if (completed) return NextResponse.json(completed);
+
     chunkPrefix = `_chunks/${uploadId}/`;
 
     // List all chunk objects in R2
@@ -149,7 +162,6 @@ export async function POST(request: NextRequest) {
     const originalKey = generateOriginalKey(lessonId, `${sortOrder}_${fileName}`);
 
     // Record in database
-    const supabase = await requireServerSupabaseClient();
     const ctLower = ct.toLowerCase();
     const extLower = ext.toLowerCase();
     const codec = (ctLower.includes('mp3') || ctLower.includes('mpeg') || extLower === 'mp3') ? 'mp3'
@@ -169,10 +181,19 @@ export async function POST(request: NextRequest) {
         file_size: fileSize || actualFileSize,
         codec,
         sort_order: sortOrder,
+        upload_id: uploadId,
       })
       .select()
       .single();
 
+    if (dbError?.code === DUPLICATE_KEY) {
+      const first = await findCompletedUpload(supabase, uploadId);
+      if (first) {
+        try { await deleteFromR2(fileKey); } catch { /* non-critical */ }
+        return NextResponse.json(first);
+      }
+    }
+
     if (dbError) {
       console.error('DB error creating lesson_audio:', dbError);
       // Fallback: update lesson directly
@@ -187,6 +208,10 @@ export async function POST(request: NextRequest) {
         .eq('id', lessonId);
     }
 
+    if (audioRecord) {
+      after(() => measureUpload(supabase, audioRecord.id, fileKey));
+    }
+
     return NextResponse.json({
       success: true,
       fileKey,
@@ -207,3 +232,47 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/** The response an earlier completion of this upload gave, if there was one */
+async function findCompletedUpload(supabase: SupabaseClient, uploadId: string) {
+  const { data: audioRecord } = await supabase
+    .from('lesson_audio')
+    .select()
+    .eq('upload_id', uploadId)
+    .maybeSingle();
+  if (!audioRecord) return null;
+  return {
+    success: true,
+    fileKey: audioRecord.file_key,
+    publicUrl: audioRecord.audio_url,
+    audioRecord,
+  };
+}
+
+/**
+ * Measure the integrated loudness of an assembled upload and compute its waveform
+ * peaks — ffmpeg streams it from a presigned URL for each, so memory stays flat —
+ * and save both on its lesson_audio row. Best-effort: until they're there (or if
+ * they fail) the file plays at unity gain with a plain seek bar, and the backfill
+ * scripts can fill them in later.
+ */
+async function measureUpload(supabase: SupabaseClient, audioId: string, fileKey: string) {
+  try {
+    const sourceUrl = await getDownloadPresignedUrl(fileKey);
+    const [loudness, peaksUrl] = await Promise.all([
+      measureLoudness(sourceUrl),
+      storePeaks(fileKey, sourceUrl).catch((err) => {
+        console.warn('Waveform peaks failed:', err);
+        return null;
+      }),
+    ]);
+    if (loudness === null && peaksUrl === null) return;
+    const { error } = await supabase
+      .from('lesson_audio')
+      .update({ loudness, peaks_url: peaksUrl })
+      .eq('id', audioId);
+    if (error) throw error;
+  } catch (err) {
+    console.warn('Upload measurement failed:', err);
+  }
+}
@@ -40,6 +40,7 @@ export function ContinueListeningSection({ title }: Props) {
               ? {
                   id: '',
                   lesson_id: id,
+                  audio_file_id: null,
                   position: lp.position,
                   completed: lp.completed,
                   last_played_at: lp.lastPlayed,
@@ -1,9 +1,10 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Search, Play, Pause, Music, Shield, WifiOff } from 'lucide-react';
+import { Search, Play, Pause, Music, Shield, WifiOff, History, CloudUpload } from 'lucide-react';
 import Link from 'next/link';
 import { useAudioStore } from '@/stores/audio-store';
+import { useIsOnline, usePendingSync } from '@/hooks/use-offline';
 
 interface HeaderProps {
   locale: string;
@@ -13,23 +14,13 @@ export function Header({ locale }: HeaderProps) {
   const isRTL = locale === 'he';
   const { currentTrack, isPlaying, togglePlay, toggleMiniPlayer } = useAudioStore();
   const [isAdminVisible, setIsAdminVisible] = useState(false);
-  const [isOffline, setIsOffline] = useState(false);
+  const isOffline = !useIsOnline();
+  const pendingSync = usePendingSync();
 
   useEffect(() => {
     // Check the non-httpOnly cookie for admin visibility
     const hasAdminCookie = document.cookie.split(';').some(c => c.trim().startsWith('tora-admin-visible='));
     setIsAdminVisible(hasAdminCookie);
-
-    // Track online/offline status
-    setIsOffline(!navigator.onLine);
-    const goOffline = () => setIsOffline(true);
-    const goOnline = () => setIsOffline(false);
-    window.addEventListener('offline', goOffline);
-    window.addEventListener('online', goOnline);
-    return () => {
-      window.removeEventListener('offline', goOffline);
-      window.removeEventListener('online', goOnline);
-    };
   }, []);
 
   return (
@@ -55,6 +46,17 @@ export function Header({ locale }: HeaderProps) {
             </div>
           )}
 
+          {/* Changes made offline, waiting to reach the server */}
+          {pendingSync > 0 && (
+            <div
+              className="flex items-center gap-1 rounded-full px-2 py-0.5 text-[10px] font-medium bg-primary/10 text-primary"
+              title={isRTL ? `${pendingSync} שינויים ממתינים לסנכרון` : `${pendingSync} changes waiting to sync`}
+            >
+              <CloudUpload className="h-3 w-3" />
+              <span>{pendingSync}</span>
+            </div>
+          )}
+
           {/* Now Playing indicator — shows when a track is loaded */}
           {currentTrack && (
             <button
@@ -93,6 +95,14 @@ export function Header({ locale }: HeaderProps) {
             </Link>
           )}
 
+          <Link
+            href={`/${locale}/history`}
+            className="rounded-full p-2 text-muted-foreground hover:text-foreground hover:bg-[hsl(var(--surface-highlight))] transition-colors"
+            aria-label={isRTL ? 'היסטוריית האזנה' : 'Listening History'}
+          >
+            <History className="h-4 w-4" />
+          </Link>
+
           <Link
             href={`/${locale}/search`}
             className="rounded-full p-2 text-muted-foreground hover:text-foreground hover:bg-[hsl(var(--surface-highlight))] transition-colors"
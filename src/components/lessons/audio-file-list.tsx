@@ -1,9 +1,10 @@
 'use client';
 
-import { Play, Pause, Volume2 } from 'lucide-react';
+import { Play, Pause, Volume2, CheckCircle2 } from 'lucide-react';
 import { useAudioStore } from '@/stores/audio-store';
 import { normalizeAudioUrl } from '@/lib/audio-url';
-import type { LessonAudio } from '@/types/database';
+import { useFileProgress } from '@/hooks/use-file-progress';
+import type { LessonAudio, PlaybackProgress } from '@/types/database';
 
 interface AudioFileListProps {
   lessonId: string;
@@ -12,8 +13,11 @@ interface AudioFileListProps {
   lessonDate: string;
   lessonDuration: number;
   seriesName?: string;
+  seriesId?: string;
+  categoryId?: string;
   description?: string;
   audioFiles: LessonAudio[];
+  fileProgress?: PlaybackProgress[]; // lesson.file_progress from the server
   locale: string;
 }
 
@@ -31,14 +35,18 @@ export function AudioFileList({
   lessonDate,
   lessonDuration,
   seriesName,
+  seriesId,
+  categoryId,
   description,
   audioFiles,
+  fileProgress,
   locale,
 }: AudioFileListProps) {
   const currentTrack = useAudioStore((s) => s.currentTrack);
   const isPlaying = useAudioStore((s) => s.isPlaying);
   const setTrack = useAudioStore((s) => s.setTrack);
   const togglePlay = useAudioStore((s) => s.togglePlay);
+  const getFileProgress = useFileProgress(lessonId, fileProgress);
 
   const sorted = [...audioFiles].sort((a, b) => a.sort_order - b.sort_order);
 
@@ -58,10 +66,15 @@ export function AudioFileList({
       title: lessonTitle,
       hebrewTitle,
       audioUrl: normalizeAudioUrl(audio.audio_url) || audio.audio_url,
+      audioFileId: audio.id,
       duration: audio.duration || lessonDuration,
       seriesName,
+      seriesId,
+      categoryId,
       date: lessonDate,
       description,
+      loudness: audio.loudness ?? undefined,
+      peaksUrl: audio.peaks_url || undefined,
     });
   }
 
@@ -74,6 +87,7 @@ export function AudioFileList({
         {sorted.map((audio, index) => {
           const active = isFileActive(audio);
           const playing = active && isPlaying;
+          const progress = getFileProgress(audio);
           return (
             <button
               key={audio.id}
@@ -106,8 +120,23 @@ export function AudioFileList({
                 >
                   {audio.original_name || `${locale === 'he' ? 'חלק' : 'Part'} ${index + 1}`}
                 </p>
+                {progress && !progress.completed && progress.percent > 0 && (
+                  <div className="mt-1 h-0.5 overflow-hidden rounded-full bg-[hsl(0,0%,24%)]">
+                    <div
+                      className="h-full rounded-full bg-primary"
+                      style={{ width: `${progress.percent}%` }}
+                    />
+                  </div>
+                )}
               </div>
 
+              {progress?.completed && (
+                <CheckCircle2
+                  className="h-4 w-4 text-primary flex-shrink-0"
+                  aria-label={locale === 'he' ? 'הושלם' : 'Completed'}
+                />
+              )}
+
               {audio.duration > 0 && (
                 <span className="text-xs text-muted-foreground tabular-nums flex-shrink-0">
                   {formatDur(audio.duration)}
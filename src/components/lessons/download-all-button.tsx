@@ -0,0 +1,84 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { CloudDownload, CheckCircle, Loader2 } from 'lucide-react';
+import { getDownloadedLessons } from '@/lib/offline-storage';
+import { buildDownloadRequest } from '@/lib/download-manager';
+import { formatFileSize } from '@/lib/audio-utils';
+import { useDownloadStore } from '@/stores/download-store';
+import { Link } from '@/i18n/routing';
+import type { LessonWithRelations } from '@/types/database';
+
+interface DownloadAllButtonProps {
+  lessons: LessonWithRelations[];
+}
+
+/**
+ * "Download all" for a series, category or playlist — queues every lesson not
+ * already on this device, showing how many that is and roughly how much space.
+ */
+export function DownloadAllButton({ lessons }: DownloadAllButtonProps) {
+  const t = useTranslations('offline');
+  const [downloadedIds, setDownloadedIds] = useState<Set<string> | null>(null);
+  const queueItems = useDownloadStore((s) => s.items);
+  const enqueue = useDownloadStore((s) => s.enqueue);
+
+  useEffect(() => {
+    let cancelled = false;
+    getDownloadedLessons().then((downloaded) => {
+      if (!cancelled) setDownloadedIds(new Set(downloaded.map((l) => l.lessonId)));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Downloaded-or-not is only known in the browser
+  if (!downloadedIds) return null;
+
+  const requests = lessons.flatMap((lesson) => buildDownloadRequest(lesson) ?? []);
+  if (requests.length === 0) return null;
+
+  const queueStatus = new Map(queueItems.map((i) => [i.lessonId, i.status]));
+  const pending = requests.filter((r) => {
+    const status = queueStatus.get(r.lessonId);
+    return !downloadedIds.has(r.lessonId) && status !== 'done' && status !== 'queued' && status !== 'downloading';
+  });
+  const inQueue = requests.some((r) => {
+    const status = queueStatus.get(r.lessonId);
+    return status === 'queued' || status === 'downloading';
+  });
+
+  if (pending.length === 0) {
+    return inQueue ? (
+      <Link
+        href="/offline"
+        className="flex items-center gap-1.5 rounded-lg bg-[hsl(var(--surface-elevated))] px-3 py-1.5 text-sm font-medium text-primary hover:bg-[hsl(var(--surface-highlight))] transition-colors"
+      >
+        <Loader2 className="h-4 w-4 animate-spin" />
+        {t('addedToQueue')}
+      </Link>
+    ) : (
+      <span className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-muted-foreground">
+        <CheckCircle className="h-4 w-4 text-green-500" />
+        {t('allDownloaded')}
+      </span>
+    );
+  }
+
+  const totalSize = pending.reduce((sum, r) => sum + r.fileSize, 0);
+
+  return (
+    <button
+      onClick={() => enqueue(pending)}
+      className="flex items-center gap-1.5 rounded-lg bg-[hsl(var(--surface-elevated))] px-3 py-1.5 text-sm font-medium hover:bg-[hsl(var(--surface-highlight))] transition-colors"
+    >
+      <CloudDownload className="h-4 w-4 text-primary" />
+      <span>{t('downloadAll')}</span>
+      <span className="text-xs text-muted-foreground">
+        {t('downloadAllSummary', { count: pending.length, size: formatFileSize(totalSize) })}
+      </span>
+    </button>
+  );
+}
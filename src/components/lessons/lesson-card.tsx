@@ -5,16 +5,18 @@ import { useRouter } from '@/i18n/routing';
 import { Link } from '@/i18n/routing';
 import { formatDuration } from '@/lib/utils';
 import { useAudioStore } from '@/stores/audio-store';
-import { normalizeAudioUrl } from '@/lib/audio-url';
-import { useIsDownloaded } from '@/hooks/use-offline';
-import type { LessonWithRelations } from '@/types/database';
+import { normalizeAudioUrl, resolveOriginalAudioUrl } from '@/lib/audio-url';
+import { useIsDownloaded, useIsOnline } from '@/hooks/use-offline';
+import type { LessonWithRelations, PlayContext } from '@/types/database';
 
 interface LessonCardProps {
   lesson: LessonWithRelations;
   showProgress?: boolean;
+  /** The series / playlist / category list this card is in — auto-continue follows it */
+  context?: PlayContext;
 }
 
-export function LessonCard({ lesson, showProgress }: LessonCardProps) {
+export function LessonCard({ lesson, showProgress, context }: LessonCardProps) {
   const router = useRouter();
   const currentTrack = useAudioStore((s) => s.currentTrack);
   const isPlaying = useAudioStore((s) => s.isPlaying);
@@ -23,6 +25,9 @@ export function LessonCard({ lesson, showProgress }: LessonCardProps) {
 
   const isCurrentlyPlaying = currentTrack?.id === lesson.id;
   const isOffline = useIsDownloaded(lesson.id);
+  const online = useIsOnline();
+  // Without a connection only downloaded lessons play — the rest are dimmed
+  const unavailable = !online && !isOffline;
 
   const progressPercent = lesson.progress && lesson.duration > 0
     ? Math.round((lesson.progress.position / lesson.duration) * 100)
@@ -53,10 +58,14 @@ export function LessonCard({ lesson, showProgress }: LessonCardProps) {
       hebrewTitle: lesson.hebrew_title || lesson.title,
       audioUrl: normalizeAudioUrl(lesson.audio_url) || lesson.audio_url,
       audioUrlFallback: normalizeAudioUrl(lesson.audio_url_fallback) || undefined,
+      audioUrlOriginal: resolveOriginalAudioUrl(lesson.audio_url_original) || undefined,
       duration: lesson.duration,
       seriesName: lesson.series?.hebrew_name || lesson.series?.name || undefined,
+      seriesId: lesson.series_id || undefined,
+      categoryId: lesson.category_id || undefined,
       date: lesson.date,
       description: lesson.description || lesson.summary || undefined,
+      context,
     });
     router.push(`/lessons/${lesson.id}`);
   };
@@ -64,7 +73,7 @@ export function LessonCard({ lesson, showProgress }: LessonCardProps) {
   return (
     <Link
       href={`/lessons/${lesson.id}`}
-      className="group block rounded-lg p-3 transition-all hover:bg-[hsl(var(--surface-highlight))]"
+      className={`group block rounded-lg p-3 transition-all hover:bg-[hsl(var(--surface-highlight))] ${unavailable ? 'opacity-50' : ''}`}
     >
       <div className="flex items-center gap-3">
         {/* Play button / Equalizer */}
@@ -0,0 +1,92 @@
+'use client';
+
+import { useState } from 'react';
+import { Repeat, BookmarkPlus, Check, X } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { useAudioStore } from '@/stores/audio-store';
+import { useBookmarksStore } from '@/stores/bookmarks-store';
+import { formatDuration } from '@/lib/utils';
+
+// Repeat counts offered by the repeat chip — null = loop until cleared
+const REPEAT_OPTIONS: (number | null)[] = [null, 2, 3, 5, 10];
+
+/**
+ * A–B loop controls for the full player: set A, then B, at the current position.
+ * Once both are set the loop can be limited to N passes and saved as a bookmark range.
+ */
+export function ABLoopControl() {
+  const t = useTranslations('player');
+  const currentTrack = useAudioStore((s) => s.currentTrack);
+  const currentTime = useAudioStore((s) => s.currentTime);
+  const abLoop = useAudioStore((s) => s.abLoop);
+  const setLoopPoint = useAudioStore((s) => s.setLoopPoint);
+  const setLoopRepeat = useAudioStore((s) => s.setLoopRepeat);
+  const clearLoop = useAudioStore((s) => s.clearLoop);
+  const addBookmark = useBookmarksStore((s) => s.addBookmark);
+  const [savedKey, setSavedKey] = useState<string | null>(null);
+
+  if (!currentTrack) return null;
+
+  const isComplete = abLoop?.end != null;
+  const loopKey = isComplete ? `${currentTrack.id}:${abLoop!.start}:${abLoop!.end}` : null;
+  const isSaved = loopKey !== null && savedKey === loopKey;
+
+  const handleLoopClick = () => {
+    if (!abLoop) {
+      setLoopPoint('start', currentTime);
+    } else if (!isComplete) {
+      setLoopPoint('end', currentTime);
+    } else {
+      clearLoop();
+    }
+  };
+
+  const cycleRepeat = () => {
+    const index = REPEAT_OPTIONS.indexOf(abLoop?.repeat ?? null);
+    setLoopRepeat(REPEAT_OPTIONS[(index + 1) % REPEAT_OPTIONS.length]);
+  };
+
+  const handleSave = () => {
+    if (!abLoop || abLoop.end === null || isSaved) return;
+    addBookmark(currentTrack.id, abLoop.start, '', 'review', abLoop.end);
+    setSavedKey(loopKey);
+  };
+
+  const chipClass = (active: boolean) =>
+    `flex items-center gap-1 rounded-full border px-2.5 py-1 text-xs font-bold tabular-nums transition-colors ${
+      active
+        ? 'border-primary text-primary'
+        : 'border-[hsl(0,0%,30%)] text-muted-foreground hover:text-foreground hover:border-foreground'
+    }`;
+
+  return (
+    <div dir="ltr" className="flex items-center justify-center gap-2 flex-wrap">
+      <button
+        onClick={handleLoopClick}
+        className={chipClass(!!abLoop)}
+        aria-label={!abLoop ? t('loopSetA') : !isComplete ? t('loopSetB') : t('loopClear')}
+      >
+        <Repeat className="h-3.5 w-3.5" />
+        <span>
+          {!abLoop
+            ? 'A–B'
+            : !isComplete
+              ? `A ${formatDuration(Math.round(abLoop.start))} · B?`
+              : `${formatDuration(Math.round(abLoop.start))}–${formatDuration(Math.round(abLoop.end!))}`}
+        </span>
+        {isComplete && <X className="h-3 w-3" />}
+      </button>
+
+      {isComplete && (
+        <>
+          <button onClick={cycleRepeat} className={chipClass(abLoop!.repeat !== null)} aria-label={t('loopRepeat')}>
+            {abLoop!.repeat === null ? '∞' : `×${abLoop!.repeat}`}
+          </button>
+          <button onClick={handleSave} className={chipClass(isSaved)} aria-label={t('loopSave')} disabled={isSaved}>
+            {isSaved ? <Check className="h-3.5 w-3.5" /> : <BookmarkPlus className="h-3.5 w-3.5" />}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
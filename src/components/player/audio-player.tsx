@@ -2,8 +2,12 @@
 
 import { useAudioStore } from '@/stores/audio-store';
 import { useMediaSession } from '@/hooks/use-media-session';
+import { useSleepTimer } from '@/hooks/use-sleep-timer';
+import { useUpNext } from '@/hooks/use-up-next';
 import { MiniPlayer } from './mini-player';
 import { FullPlayer } from './full-player';
+import { UpNextCard } from './up-next-card';
+import { KeyboardShortcuts } from './keyboard-shortcuts';
 
 /**
  * Root audio player component.
@@ -16,6 +20,12 @@ export function AudioPlayer() {
   // Initialize Media Session API
   useMediaSession();
 
+  // Sleep timer fade-out / auto-stop
+  useSleepTimer();
+
+  // Countdown into the next lesson once the queue runs out
+  useUpNext();
+
   if (!currentTrack) return null;
 
   return (
@@ -25,6 +35,8 @@ export function AudioPlayer() {
       ) : (
         <MiniPlayer />
       )}
+      <UpNextCard />
+      <KeyboardShortcuts />
     </>
   );
 }
@@ -0,0 +1,47 @@
+'use client';
+
+import { ListOrdered } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { formatDuration } from '@/lib/utils';
+import { getCurrentChapterIndex, type ChapterMark } from '@/lib/chapters';
+
+interface ChapterListProps {
+  chapters: ChapterMark[];
+  currentTime: number;
+  onSeek: (time: number) => void;
+  className?: string;
+}
+
+export function ChapterList({ chapters, currentTime, onSeek, className = '' }: ChapterListProps) {
+  const t = useTranslations('player');
+  if (chapters.length === 0) return null;
+
+  const activeIndex = getCurrentChapterIndex(chapters, currentTime);
+
+  return (
+    <div className={className}>
+      <div className="flex items-center gap-1.5 mb-1.5 text-xs font-bold text-muted-foreground uppercase tracking-wider">
+        <ListOrdered className="h-3.5 w-3.5" />
+        {t('chapters')}
+      </div>
+      <div className="space-y-0.5 max-h-40 overflow-y-auto">
+        {chapters.map((chapter, index) => (
+          <button
+            key={`${chapter.time}-${index}`}
+            onClick={() => onSeek(chapter.time)}
+            className={`w-full flex items-center gap-3 rounded-md px-2.5 py-1.5 text-start transition-colors ${
+              index === activeIndex
+                ? 'bg-primary/10 text-primary'
+                : 'text-foreground hover:bg-[hsl(var(--surface-highlight))]'
+            }`}
+          >
+            <span className="text-xs text-muted-foreground tabular-nums flex-shrink-0" dir="ltr">
+              {formatDuration(Math.round(chapter.time))}
+            </span>
+            <span className="text-sm truncate" dir="auto">{chapter.title}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,22 @@
 'use client';
 
 import { useState } from 'react';
-import { Play, Pause, ChevronDown, Bookmark, Download, List, Cast, Car, Scissors } from 'lucide-react';
+import { Play, Pause, ChevronDown, Bookmark, Download, List, Cast, Car, Scissors, AudioWaveform, ListEnd } from 'lucide-react';
 import { useTranslations } from 'next-intl';
 import { useRouter } from 'next/navigation';
 import { useLocale } from 'next-intl';
 import { useAudioPlayer } from '@/hooks/use-audio-player';
+import { formatDuration } from '@/lib/utils';
+import { getSegmentBoundaries } from '@/lib/lesson-timeline';
+import { getChapterMarks } from '@/lib/chapters';
+import { getSpeedScopes } from '@/lib/playback-speed';
 import { SeekBar } from './seek-bar';
 import { SpeedControl } from './speed-control';
+import { SleepTimerControl } from './sleep-timer-control';
+import { ChapterList } from './chapter-list';
+import { ABLoopControl } from './ab-loop-control';
+import { VoiceEnhanceControl } from './voice-enhance-control';
+import { useWaveform } from '@/hooks/use-waveform';
 import { handleCastClick } from '@/lib/cast-utils';
 import { useBookmarksStore } from '@/stores/bookmarks-store';
 import { BookmarkDialog } from '@/components/bookmarks/bookmark-dialog';
@@ -51,6 +60,15 @@ export function FullPlayer({ onClose }: FullPlayerProps) {
     skipBackward,
     seekTo,
     setPlaybackSpeed,
+    speedScope,
+    trimSilence,
+    setTrimSilence,
+    timeSaved,
+    autoplayNext,
+    setAutoplayNext,
+    abLoop,
+    setLoop,
+    setLoopPoint,
   } = useAudioPlayer();
 
   const locale = useLocale();
@@ -58,11 +76,13 @@ export function FullPlayer({ onClose }: FullPlayerProps) {
   const bookmarks = useBookmarksStore((s) => s.bookmarks);
   const [showBookmarkDialog, setShowBookmarkDialog] = useState(false);
   const [showShareClipDialog, setShowShareClipDialog] = useState(false);
+  const waveform = useWaveform(currentTrack);
 
   if (!currentTrack) return null;
 
   const lessonBookmarks = bookmarks.filter((b) => b.lessonId === currentTrack.id);
   const bookmarkCount = lessonBookmarks.length;
+  const chapters = getChapterMarks(currentTrack);
 
   // Tag color map for bookmark markers
   const tagColorMap: Record<string, string> = {
@@ -140,17 +160,30 @@ export function FullPlayer({ onClose }: FullPlayerProps) {
 
           {/* Seek bar with bookmark markers */}
           <div className="w-full max-w-md relative flex-shrink-0">
-            <SeekBar currentTime={currentTime} duration={duration} onSeek={seekTo} />
+            <SeekBar
+              currentTime={currentTime}
+              duration={duration}
+              onSeek={seekTo}
+              markers={currentTrack.segments ? getSegmentBoundaries(currentTrack.segments) : undefined}
+              chapters={chapters.map((c) => c.time)}
+              loop={abLoop}
+              onLoopChange={setLoopPoint}
+              waveform={waveform}
+            />
             {/* Bookmark markers on seek bar */}
             {duration > 0 && lessonBookmarks.length > 0 && (
-              <div className="absolute top-0 inset-x-0 h-5 pointer-events-auto" style={{ zIndex: 1 }}>
+              <div className={`absolute top-0 inset-x-0 pointer-events-auto ${waveform ? 'h-8' : 'h-5'}`} style={{ zIndex: 1 }}>
                 {lessonBookmarks.map((bm) => {
                   const pct = (bm.position / duration) * 100;
                   const colorClass = tagColorMap[bm.tag] || 'bg-primary';
                   return (
                     <button
                       key={bm.id}
-                      onClick={() => seekTo(bm.position)}
+                      onClick={() => {
+                        // Saved A–B range — reopen the loop
+                        if (bm.endPosition !== undefined) setLoop(bm.position, bm.endPosition);
+                        seekTo(bm.position);
+                      }}
                       className={`absolute top-1/2 -translate-y-1/2 w-2.5 h-2.5 rounded-full ${colorClass} border border-black/30 shadow-sm hover:scale-150 transition-transform cursor-pointer`}
                       style={{
                         [document.documentElement?.dir === 'rtl' ? 'right' : 'left']: `calc(${pct}% - 5px)`,
@@ -165,7 +198,12 @@ export function FullPlayer({ onClose }: FullPlayerProps) {
 
           {/* Main controls -- dir="ltr" keeps standard media layout (⏪ ▶ ⏩) */}
           <div dir="ltr" className="flex items-center justify-center gap-6 w-full max-w-md flex-shrink-0">
-            <SpeedControl speed={playbackSpeed} onSpeedChange={setPlaybackSpeed} />
+            <SpeedControl
+              speed={playbackSpeed}
+              onSpeedChange={setPlaybackSpeed}
+              scope={speedScope}
+              scopes={getSpeedScopes(currentTrack)}
+            />
 
             {/* RTL: left-arrow icon = skip FORWARD (Hebrew reads R→L, left = forward) */}
             <button
@@ -197,10 +235,27 @@ export function FullPlayer({ onClose }: FullPlayerProps) {
               <Skip15Forward className="h-8 w-8" />
             </button>
 
-            {/* Placeholder for symmetry */}
-            <div className="w-10" />
+            <SleepTimerControl />
+          </div>
+
+          <div className="w-full max-w-md flex-shrink-0">
+            <ABLoopControl />
           </div>
 
+          {/* Running total of listening time saved by trimming silence */}
+          {trimSilence && timeSaved >= 1 && (
+            <p className="-mt-2 text-xs text-primary tabular-nums flex-shrink-0">
+              {t('timeSaved', { time: formatDuration(timeSaved) })}
+            </p>
+          )}
+
+          <ChapterList
+            chapters={chapters}
+            currentTime={currentTime}
+            onSeek={seekTo}
+            className="w-full max-w-md flex-shrink-0"
+          />
+
           {/* Secondary actions */}
           <div className="flex items-center justify-center gap-6 pt-2 flex-wrap flex-shrink-0">
             <button
@@ -221,6 +276,31 @@ export function FullPlayer({ onClose }: FullPlayerProps) {
               </div>
               <span className="text-[10px]">{t('bookmark')}</span>
             </button>
+            <button
+              onClick={() => setTrimSilence(!trimSilence)}
+              className={`flex flex-col items-center gap-1.5 transition-colors ${
+                trimSilence
+                  ? 'text-primary'
+                  : 'text-muted-foreground hover:text-foreground'
+              }`}
+              aria-pressed={trimSilence}
+            >
+              <AudioWaveform className="h-5 w-5" />
+              <span className="text-[10px]">{t('trimSilence')}</span>
+            </button>
+            <VoiceEnhanceControl />
+            <button
+              onClick={() => setAutoplayNext(!autoplayNext)}
+              className={`flex flex-col items-center gap-1.5 transition-colors ${
+                autoplayNext
+                  ? 'text-primary'
+                  : 'text-muted-foreground hover:text-foreground'
+              }`}
+              aria-pressed={autoplayNext}
+            >
+              <ListEnd className="h-5 w-5" />
+              <span className="text-[10px]">{t('autoplayNext')}</span>
+            </button>
             <button
               onClick={() => setShowShareClipDialog(true)}
               className="flex flex-col items-center gap-1.5 text-muted-foreground hover:text-foreground transition-colors"
@@ -0,0 +1,176 @@
+'use client';
+
+import { useState } from 'react';
+import { X, Keyboard, StickyNote } from 'lucide-react';
+import { useLocale, useTranslations } from 'next-intl';
+import { useAudioStore } from '@/stores/audio-store';
+import { useKeyboardShortcuts } from '@/hooks/use-keyboard-shortcuts';
+import { BookmarkDialog } from '@/components/bookmarks/bookmark-dialog';
+import { addNote } from '@/lib/local-notes';
+import { formatDuration } from '@/lib/utils';
+
+type ShortcutLabelKey =
+  | 'shortcutPlayPause'
+  | 'shortcutSeek'
+  | 'shortcutSpeed'
+  | 'shortcutJump'
+  | 'shortcutMute'
+  | 'shortcutBookmark'
+  | 'shortcutNote'
+  | 'shortcutHelp';
+
+const SHORTCUTS: { keys: string[]; label: ShortcutLabelKey }[] = [
+  { keys: ['Space'], label: 'shortcutPlayPause' },
+  { keys: ['←', '→'], label: 'shortcutSeek' },
+  { keys: ['Shift + ←', 'Shift + →'], label: 'shortcutSpeed' },
+  { keys: ['0–9'], label: 'shortcutJump' },
+  { keys: ['M'], label: 'shortcutMute' },
+  { keys: ['B'], label: 'shortcutBookmark' },
+  { keys: ['N'], label: 'shortcutNote' },
+  { keys: ['?'], label: 'shortcutHelp' },
+];
+
+const dialogBackdrop = 'fixed inset-0 z-[300] flex items-end sm:items-center justify-center bg-black/60 backdrop-blur-sm animate-fade-in';
+const dialogPanel = 'w-full sm:max-w-md bg-[hsl(0,0%,12%)] rounded-t-2xl sm:rounded-2xl p-5 space-y-4 animate-slide-up';
+
+/**
+ * Global player shortcuts plus what they open: the "?" list, the bookmark dialog
+ * and a quick note dialog, both at the moment the key was pressed.
+ */
+export function KeyboardShortcuts() {
+  const t = useTranslations('player');
+  const tc = useTranslations('common');
+  const locale = useLocale();
+  const isRTL = locale === 'he';
+  const currentTrack = useAudioStore((s) => s.currentTrack);
+
+  const [showHelp, setShowHelp] = useState(false);
+  const [bookmarkAt, setBookmarkAt] = useState<number | null>(null);
+  const [noteAt, setNoteAt] = useState<number | null>(null);
+  const [noteText, setNoteText] = useState('');
+
+  useKeyboardShortcuts({
+    onBookmark: setBookmarkAt,
+    onNote: (position) => {
+      setNoteText('');
+      setNoteAt(position);
+    },
+    onHelp: () => setShowHelp((open) => !open),
+  });
+
+  const handleSaveNote = () => {
+    const text = noteText.trim();
+    if (!text || !currentTrack || noteAt === null) return;
+    addNote(currentTrack.id, text, noteAt);
+    setNoteAt(null);
+  };
+
+  return (
+    <>
+      {showHelp && (
+        <div
+          className={dialogBackdrop}
+          onClick={(e) => { if (e.target === e.currentTarget) setShowHelp(false); }}
+        >
+          <div className={dialogPanel} dir={isRTL ? 'rtl' : 'ltr'}>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Keyboard className="h-5 w-5 text-primary" />
+                <h3 className="text-lg font-bold">{t('keyboardShortcuts')}</h3>
+              </div>
+              <button
+                onClick={() => setShowHelp(false)}
+                className="rounded-full p-1.5 text-muted-foreground hover:text-foreground hover:bg-[hsl(var(--surface-highlight))] transition-colors"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <ul className="space-y-2">
+              {SHORTCUTS.map(({ keys, label }) => (
+                <li key={label} className="flex items-center justify-between gap-4 text-sm">
+                  <span className="text-foreground">{t(label)}</span>
+                  <span className="flex gap-1 flex-shrink-0" dir="ltr">
+                    {keys.map((key) => (
+                      <kbd
+                        key={key}
+                        className="rounded-md border border-[hsl(0,0%,25%)] bg-[hsl(var(--surface-elevated))] px-2 py-0.5 text-xs font-mono text-muted-foreground"
+                      >
+                        {key}
+                      </kbd>
+                    ))}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {currentTrack && (
+        <BookmarkDialog
+          isOpen={bookmarkAt !== null}
+          onClose={() => setBookmarkAt(null)}
+          lessonId={currentTrack.id}
+          position={bookmarkAt ?? 0}
+          locale={locale}
+        />
+      )}
+
+      {noteAt !== null && (
+        <div
+          className={dialogBackdrop}
+          onClick={(e) => { if (e.target === e.currentTarget) setNoteAt(null); }}
+        >
+          <div className={dialogPanel} dir={isRTL ? 'rtl' : 'ltr'}>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <StickyNote className="h-5 w-5 text-primary" />
+                <h3 className="text-lg font-bold">{t('addNote')}</h3>
+                <span className="font-mono text-sm text-primary font-bold">
+                  {formatDuration(Math.round(noteAt))}
+                </span>
+              </div>
+              <button
+                onClick={() => setNoteAt(null)}
+                className="rounded-full p-1.5 text-muted-foreground hover:text-foreground hover:bg-[hsl(var(--surface-highlight))] transition-colors"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <textarea
+              value={noteText}
+              onChange={(e) => setNoteText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSaveNote();
+                if (e.key === 'Escape') setNoteAt(null);
+              }}
+              placeholder={t('notePlaceholder')}
+              className="w-full rounded-xl bg-[hsl(var(--surface-elevated))] border border-[hsl(0,0%,22%)] px-4 py-3 text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/40 focus:border-primary/40 resize-none"
+              rows={3}
+              dir={isRTL ? 'rtl' : 'ltr'}
+              autoFocus
+            />
+
+            <div className="flex gap-3 pt-1">
+              <button
+                onClick={() => setNoteAt(null)}
+                className="flex-1 rounded-xl bg-[hsl(var(--surface-elevated))] px-4 py-2.5 text-sm font-medium text-muted-foreground hover:text-foreground transition-colors"
+              >
+                {tc('cancel')}
+              </button>
+              <button
+                onClick={handleSaveNote}
+                disabled={!noteText.trim()}
+                className="flex-1 rounded-xl bg-primary px-4 py-2.5 text-sm font-bold text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                {tc('save')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
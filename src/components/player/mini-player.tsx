@@ -6,6 +6,7 @@ import { useAudioPlayer } from '@/hooks/use-audio-player';
 import { handleCastClick } from '@/lib/cast-utils';
 import { useBookmarksStore } from '@/stores/bookmarks-store';
 import { BookmarkDialog } from '@/components/bookmarks/bookmark-dialog';
+import { SleepTimerControl } from './sleep-timer-control';
 
 export function MiniPlayer() {
   const {
@@ -73,6 +74,9 @@ export function MiniPlayer() {
               <Heart className={`h-5 w-5 ${isBookmarked ? 'fill-current' : ''}`} />
             </button>
 
+            {/* Sleep timer */}
+            <SleepTimerControl compact />
+
             {/* Cast / broadcast */}
             <button
               onClick={(e) => { e.stopPropagation(); void handleCastClick(); }}
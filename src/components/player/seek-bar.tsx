@@ -7,13 +7,27 @@ interface SeekBarProps {
   currentTime: number;
   duration: number;
   onSeek: (time: number) => void;
+  /** Positions (seconds) to mark on the track — e.g. file boundaries in whole-lesson mode */
+  markers?: number[];
+  /** Chapter starts (seconds), drawn as taller accent ticks */
+  chapters?: number[];
+  /** A–B loop range — shaded, with draggable A/B handles when onLoopChange is given */
+  loop?: { start: number; end: number | null } | null;
+  onLoopChange?: (point: 'start' | 'end', time: number) => void;
+  /** Waveform bars (0–100) spread across the track — replaces the plain line */
+  waveform?: number[] | null;
 }
 
-export function SeekBar({ currentTime, duration, onSeek }: SeekBarProps) {
+// Keep A and B at least this far apart while dragging
+const MIN_LOOP_LENGTH = 1;
+
+export function SeekBar({ currentTime, duration, onSeek, markers, chapters, loop, onLoopChange, waveform }: SeekBarProps) {
   const barRef = useRef<HTMLDivElement>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [isHovering, setIsHovering] = useState(false);
   const [dragTime, setDragTime] = useState(0);
+  const [draggingPoint, setDraggingPoint] = useState<'start' | 'end' | null>(null);
+  const [pointTime, setPointTime] = useState(0);
 
   const getTimeFromPosition = useCallback((clientX: number) => {
     if (!barRef.current || !duration) return 0;
@@ -49,41 +63,142 @@ export function SeekBar({ currentTime, duration, onSeek }: SeekBarProps) {
     }
   }, [isDragging, dragTime, onSeek]);
 
+  // Loop handles — stop propagation so dragging a handle doesn't also seek
+  const clampLoopPoint = useCallback((point: 'start' | 'end', time: number) => {
+    if (!loop) return time;
+    if (point === 'start' && loop.end !== null) return Math.min(time, loop.end - MIN_LOOP_LENGTH);
+    if (point === 'end') return Math.max(time, loop.start + MIN_LOOP_LENGTH);
+    return time;
+  }, [loop]);
+
+  const handleLoopPointerDown = useCallback((point: 'start' | 'end', e: React.PointerEvent) => {
+    e.stopPropagation();
+    setDraggingPoint(point);
+    setPointTime(clampLoopPoint(point, getTimeFromPosition(e.clientX)));
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+  }, [clampLoopPoint, getTimeFromPosition]);
+
+  const handleLoopPointerMove = useCallback((e: React.PointerEvent) => {
+    if (!draggingPoint) return;
+    e.stopPropagation();
+    setPointTime(clampLoopPoint(draggingPoint, getTimeFromPosition(e.clientX)));
+  }, [draggingPoint, clampLoopPoint, getTimeFromPosition]);
+
+  const handleLoopPointerUp = useCallback((e: React.PointerEvent) => {
+    if (!draggingPoint) return;
+    e.stopPropagation();
+    onLoopChange?.(draggingPoint, pointTime);
+    setDraggingPoint(null);
+  }, [draggingPoint, pointTime, onLoopChange]);
+
   const displayTime = isDragging ? dragTime : currentTime;
   const progress = duration > 0 ? (displayTime / duration) * 100 : 0;
   const remaining = duration > 0 ? duration - displayTime : 0;
   const showThumb = isDragging || isHovering;
+  const side = typeof document !== 'undefined' && document.documentElement.dir === 'rtl' ? 'right' : 'left';
+  const loopStart = draggingPoint === 'start' ? pointTime : loop?.start;
+  const loopEnd = draggingPoint === 'end' ? pointTime : loop?.end;
 
   return (
     <div className="space-y-1.5">
       <div
         ref={barRef}
-        className="group relative h-5 flex items-center cursor-pointer touch-none"
+        className={`group relative flex items-center cursor-pointer touch-none ${waveform ? 'h-8' : 'h-5'}`}
         onPointerDown={handlePointerDown}
         onPointerMove={handlePointerMove}
         onPointerUp={handlePointerUp}
         onMouseEnter={() => setIsHovering(true)}
         onMouseLeave={() => setIsHovering(false)}
       >
-        {/* Track — thin by default, slightly taller on hover */}
-        <div className={`absolute inset-x-0 rounded-full bg-[hsl(0,0%,24%)] transition-all ${
-          showThumb ? 'h-1' : 'h-0.5'
-        }`}>
-          {/* Progress — green */}
+        {waveform ? (
+          /* Waveform — played bars highlighted; dir matches how progress is measured */
+          <div className="absolute inset-0 flex items-center gap-px pointer-events-none" dir={side === 'right' ? 'rtl' : 'ltr'}>
+            {waveform.map((peak, i) => (
+              <div
+                key={i}
+                className={`flex-1 rounded-full transition-colors ${
+                  ((i + 0.5) / waveform.length) * 100 <= progress
+                    ? (showThumb ? 'bg-primary' : 'bg-foreground')
+                    : 'bg-[hsl(0,0%,28%)]'
+                }`}
+                style={{ height: `${Math.max(8, peak)}%` }}
+              />
+            ))}
+          </div>
+        ) : (
+          /* Track — thin by default, slightly taller on hover */
+          <div className={`absolute inset-x-0 rounded-full bg-[hsl(0,0%,24%)] transition-all ${
+            showThumb ? 'h-1' : 'h-0.5'
+          }`}>
+            {/* Progress — green */}
+            <div
+              className={`h-full rounded-full transition-[width] duration-75 ${
+                showThumb ? 'bg-primary' : 'bg-foreground'
+              }`}
+              style={{ width: `${progress}%` }}
+            />
+          </div>
+        )}
+
+        {/* Markers — thin ticks across the track */}
+        {duration > 0 && markers?.map((time) => (
           <div
-            className={`h-full rounded-full transition-[width] duration-75 ${
-              showThumb ? 'bg-primary' : 'bg-foreground'
-            }`}
-            style={{ width: `${progress}%` }}
+            key={time}
+            className="absolute h-2.5 w-0.5 rounded-full bg-muted-foreground/70 pointer-events-none"
+            style={{
+              [side]: `calc(${(time / duration) * 100}% - 1px)`,
+            }}
+          />
+        ))}
+
+        {/* A–B loop — shaded range plus A/B handles */}
+        {duration > 0 && loop && loopStart !== undefined && (
+          <>
+            {loopEnd != null && (
+              <div
+                className="absolute h-2 rounded-sm bg-primary/25 pointer-events-none"
+                style={{
+                  [side]: `${(loopStart / duration) * 100}%`,
+                  width: `${((loopEnd - loopStart) / duration) * 100}%`,
+                }}
+              />
+            )}
+            {([['start', loopStart], ['end', loopEnd]] as const).map(([point, time]) =>
+              time == null ? null : (
+                <div
+                  key={point}
+                  className={`absolute -top-3 h-4 w-4 rounded-sm bg-primary text-primary-foreground text-[9px] font-bold flex items-center justify-center ${
+                    onLoopChange ? 'cursor-ew-resize touch-none' : 'pointer-events-none'
+                  }`}
+                  style={{ [side]: `calc(${(time / duration) * 100}% - 8px)` }}
+                  onPointerDown={onLoopChange ? (e) => handleLoopPointerDown(point, e) : undefined}
+                  onPointerMove={onLoopChange ? handleLoopPointerMove : undefined}
+                  onPointerUp={onLoopChange ? handleLoopPointerUp : undefined}
+                >
+                  {point === 'start' ? 'A' : 'B'}
+                </div>
+              )
+            )}
+          </>
+        )}
+
+        {/* Chapter ticks */}
+        {duration > 0 && chapters?.map((time) => (
+          <div
+            key={`chapter-${time}`}
+            className="absolute h-3 w-0.5 rounded-full bg-primary pointer-events-none"
+            style={{
+              [side]: `calc(${(time / duration) * 100}% - 1px)`,
+            }}
           />
-        </div>
+        ))}
 
         {/* Thumb — white dot, only visible on hover/drag */}
         {showThumb && (
           <div
             className="absolute h-3 w-3 rounded-full bg-foreground shadow-lg transition-[left,right] duration-75"
             style={{
-              [document.documentElement.dir === 'rtl' ? 'right' : 'left']: `calc(${progress}% - 6px)`,
+              [side]: `calc(${progress}% - 6px)`,
             }}
           />
         )}
@@ -0,0 +1,116 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import { Moon } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { useAudioStore } from '@/stores/audio-store';
+import { useSleepTimerRemaining } from '@/hooks/use-sleep-timer';
+import { SLEEP_TIMER_PRESETS } from '@/lib/sleep-timer';
+import { formatDuration } from '@/lib/utils';
+
+interface SleepTimerControlProps {
+  /** Icon-only button for the mini-player */
+  compact?: boolean;
+}
+
+export function SleepTimerControl({ compact = false }: SleepTimerControlProps) {
+  const t = useTranslations('player');
+  const sleepTimer = useAudioStore((s) => s.sleepTimer);
+  const setSleepTimer = useAudioStore((s) => s.setSleepTimer);
+  const clearSleepTimer = useAudioStore((s) => s.clearSleepTimer);
+  const remaining = useSleepTimerRemaining();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    function handleClickOutside(e: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen]);
+
+  const isActive = !!sleepTimer;
+  const label = remaining !== null ? formatDuration(remaining) : null;
+
+  const optionClass = (selected: boolean) =>
+    `block w-full rounded-lg px-4 py-2 text-sm text-center whitespace-nowrap transition-colors ${
+      selected
+        ? 'bg-primary/20 text-primary font-bold'
+        : 'text-foreground hover:bg-[hsl(var(--surface-highlight))]'
+    }`;
+
+  return (
+    <div className="relative" ref={menuRef} onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={
+          compact
+            ? `p-2 transition-colors ${isActive ? 'text-primary' : 'text-muted-foreground hover:text-foreground'}`
+            : `flex items-center gap-1 rounded-full border px-2.5 py-1 text-xs font-bold tabular-nums transition-colors min-w-[3rem] justify-center ${
+                isActive
+                  ? 'border-primary text-primary'
+                  : 'border-[hsl(0,0%,30%)] text-muted-foreground hover:text-foreground hover:border-foreground'
+              }`
+        }
+        aria-label={label ? `${t('sleepTimer')}: ${label}` : t('sleepTimer')}
+      >
+        <Moon className={compact ? `h-4 w-4 ${isActive ? 'fill-current' : ''}` : 'h-3.5 w-3.5'} />
+        {!compact && label && <span>{label}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 end-0 bg-[hsl(var(--surface-elevated))] border border-[hsl(0,0%,20%)] rounded-xl shadow-2xl p-1 z-50 min-w-[140px] max-h-[60vh] overflow-y-auto">
+          <p className="px-4 py-1.5 text-[11px] text-muted-foreground font-medium text-center">
+            {t('sleepTimer')}
+          </p>
+          {SLEEP_TIMER_PRESETS.map((minutes) => (
+            <button
+              key={minutes}
+              onClick={() => {
+                setSleepTimer('duration', minutes);
+                setIsOpen(false);
+              }}
+              className={optionClass(false)}
+            >
+              {t('minutes', { count: minutes })}
+            </button>
+          ))}
+          <button
+            onClick={() => {
+              setSleepTimer('endOfFile');
+              setIsOpen(false);
+            }}
+            className={optionClass(sleepTimer?.mode === 'endOfFile')}
+          >
+            {t('sleepEndOfFile')}
+          </button>
+          <button
+            onClick={() => {
+              setSleepTimer('endOfLesson');
+              setIsOpen(false);
+            }}
+            className={optionClass(sleepTimer?.mode === 'endOfLesson')}
+          >
+            {t('sleepEndOfLesson')}
+          </button>
+          {isActive && (
+            <button
+              onClick={() => {
+                clearSleepTimer();
+                setIsOpen(false);
+              }}
+              className={optionClass(false)}
+            >
+              {t('sleepOff')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
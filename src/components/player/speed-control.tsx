@@ -1,16 +1,22 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-
-const SPEED_OPTIONS = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+import { useTranslations } from 'next-intl';
+import { SPEED_OPTIONS, type SpeedScope } from '@/lib/playback-speed';
 
 interface SpeedControlProps {
   speed: number;
-  onSpeedChange: (speed: number) => void;
+  onSpeedChange: (speed: number, scope?: SpeedScope | 'global') => void;
+  /** Remembered speed currently in effect — null when the global speed applies */
+  scope?: SpeedScope | null;
+  /** Scopes the current track can remember a speed for */
+  scopes?: SpeedScope[];
 }
 
-export function SpeedControl({ speed, onSpeedChange }: SpeedControlProps) {
+export function SpeedControl({ speed, onSpeedChange, scope = null, scopes = [] }: SpeedControlProps) {
+  const t = useTranslations('player');
   const [isOpen, setIsOpen] = useState(false);
+  const [target, setTarget] = useState<SpeedScope | 'global'>('global');
   const menuRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -27,27 +33,69 @@ export function SpeedControl({ speed, onSpeedChange }: SpeedControlProps) {
 
   const isCustomSpeed = speed !== 1;
 
+  const targetLabels: Record<SpeedScope | 'global', string> = {
+    global: t('speedEverywhere'),
+    series: t('speedThisSeries'),
+    category: t('speedThisCategory'),
+  };
+
+  const handleToggle = () => {
+    // Menu opens on whatever speed is in effect — changing it there is the natural default
+    if (!isOpen) setTarget(scope ?? 'global');
+    setIsOpen(!isOpen);
+  };
+
   return (
     <div className="relative" ref={menuRef}>
       <button
-        onClick={() => setIsOpen(!isOpen)}
-        className={`rounded-full border px-2.5 py-1 text-xs font-bold tabular-nums transition-colors min-w-[3rem] ${
-          isCustomSpeed
+        onClick={handleToggle}
+        className={`relative rounded-full border px-2.5 py-1 text-xs font-bold tabular-nums transition-colors min-w-[3rem] ${
+          isCustomSpeed || scope
             ? 'border-primary text-primary'
             : 'border-[hsl(0,0%,30%)] text-muted-foreground hover:text-foreground hover:border-foreground'
         }`}
-        aria-label={`Playback speed: ${speed}x`}
+        aria-label={`${t('speed')}: ${speed}x${scope ? ` (${targetLabels[scope]})` : ''}`}
       >
         {speed}x
+        {/* Dot marks a series/category speed rather than the global one */}
+        {scope && (
+          <span className="absolute -top-0.5 -end-0.5 h-2 w-2 rounded-full bg-primary" />
+        )}
       </button>
 
       {isOpen && (
         <div className="absolute bottom-full mb-2 start-1/2 -translate-x-1/2 bg-[hsl(var(--surface-elevated))] border border-[hsl(0,0%,20%)] rounded-xl shadow-2xl p-1 z-50 min-w-[80px]">
+          {scope && (
+            <p className="px-3 pt-1.5 pb-1 text-[10px] text-primary text-center whitespace-nowrap">
+              {scope === 'series' ? t('speedSeriesActive') : t('speedCategoryActive')}
+            </p>
+          )}
+
+          {/* Where the chosen speed applies */}
+          {scopes.length > 0 && (
+            <div className="flex flex-col gap-0.5 border-b border-[hsl(0,0%,20%)] pb-1 mb-1">
+              {(['global', ...scopes] as const).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setTarget(option)}
+                  className={`rounded-lg px-3 py-1 text-[11px] whitespace-nowrap transition-colors ${
+                    option === target
+                      ? 'bg-primary/20 text-primary font-bold'
+                      : 'text-muted-foreground hover:text-foreground'
+                  }`}
+                  aria-pressed={option === target}
+                >
+                  {targetLabels[option]}
+                </button>
+              ))}
+            </div>
+          )}
+
           {SPEED_OPTIONS.map((opt) => (
             <button
               key={opt}
               onClick={() => {
-                onSpeedChange(opt);
+                onSpeedChange(opt, scopes.length > 0 ? target : undefined);
                 setIsOpen(false);
               }}
               className={`block w-full rounded-lg px-4 py-2 text-sm tabular-nums text-center transition-colors ${
@@ -0,0 +1,67 @@
+'use client';
+
+import { Play, X } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { useAudioStore } from '@/stores/audio-store';
+import { useUpNextRemaining } from '@/hooks/use-up-next';
+
+/**
+ * Countdown card for the lesson that auto-plays after the current one ends.
+ * Floats above the mini player (and the full player) until it starts or is cancelled.
+ */
+export function UpNextCard() {
+  const t = useTranslations('player');
+  const upNext = useAudioStore((s) => s.upNext);
+  const playUpNext = useAudioStore((s) => s.playUpNext);
+  const cancelUpNext = useAudioStore((s) => s.cancelUpNext);
+  const setAutoplayNext = useAudioStore((s) => s.setAutoplayNext);
+  const remaining = useUpNextRemaining();
+
+  if (!upNext) return null;
+
+  return (
+    <div className="fixed inset-x-3 bottom-20 z-[110] mx-auto max-w-md rounded-xl bg-[hsl(var(--surface-highlight))] p-3 shadow-2xl animate-slide-up">
+      <div className="flex items-center gap-3">
+        <div className="flex-1 min-w-0">
+          <p className="text-[11px] font-bold uppercase tracking-wide text-primary">
+            {t('upNext')} · <span className="tabular-nums">{t('upNextIn', { seconds: remaining ?? 0 })}</span>
+          </p>
+          <p className="text-sm font-semibold truncate text-foreground" dir="rtl">
+            {upNext.track.hebrewTitle || upNext.track.title}
+          </p>
+          {upNext.track.seriesName && (
+            <p className="text-xs text-muted-foreground truncate" dir="rtl">
+              {upNext.track.seriesName}
+            </p>
+          )}
+        </div>
+
+        <button
+          onClick={playUpNext}
+          className="flex-shrink-0 h-10 w-10 rounded-full bg-primary text-primary-foreground flex items-center justify-center hover:scale-105 transition-transform"
+          aria-label={t('playNow')}
+        >
+          <Play className="h-4 w-4 ms-0.5 fill-current" />
+        </button>
+        <button
+          onClick={cancelUpNext}
+          className="flex-shrink-0 p-2 text-muted-foreground hover:text-foreground transition-colors"
+          aria-label={t('cancelUpNext')}
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      {/* Turning autoplay off also drops this card */}
+      <label className="mt-2 flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+        <input
+          type="checkbox"
+          checked
+          onChange={() => setAutoplayNext(false)}
+          className="accent-[hsl(var(--primary))]"
+        />
+        {t('autoplayNext')}
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import { AudioLines } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { useAudioStore } from '@/stores/audio-store';
+import { VOICE_PRESETS, type VoicePreset } from '@/lib/voice-enhance';
+
+const PRESET_LABEL_KEYS: Record<VoicePreset, 'voicePresetLight' | 'voicePresetClear' | 'voicePresetStrong'> = {
+  light: 'voicePresetLight',
+  clear: 'voicePresetClear',
+  strong: 'voicePresetStrong',
+};
+
+/**
+ * Full-player secondary action: voice enhance on/off with presets, plus mono
+ * and left/right balance for listening with one earbud.
+ */
+export function VoiceEnhanceControl() {
+  const t = useTranslations('player');
+  const voiceEnhance = useAudioStore((s) => s.voiceEnhance);
+  const voicePreset = useAudioStore((s) => s.voicePreset);
+  const monoAudio = useAudioStore((s) => s.monoAudio);
+  const audioBalance = useAudioStore((s) => s.audioBalance);
+  const setVoiceEnhance = useAudioStore((s) => s.setVoiceEnhance);
+  const setVoicePreset = useAudioStore((s) => s.setVoicePreset);
+  const setMonoAudio = useAudioStore((s) => s.setMonoAudio);
+  const setAudioBalance = useAudioStore((s) => s.setAudioBalance);
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    function handleClickOutside(e: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen]);
+
+  const isActive = voiceEnhance || monoAudio || audioBalance !== 0;
+
+  const chipClass = (selected: boolean) =>
+    `flex-1 rounded-lg px-3 py-1.5 text-xs whitespace-nowrap transition-colors ${
+      selected
+        ? 'bg-primary/20 text-primary font-bold'
+        : 'text-foreground hover:bg-[hsl(var(--surface-highlight))]'
+    }`;
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex flex-col items-center gap-1.5 transition-colors ${
+          isActive
+            ? 'text-primary'
+            : 'text-muted-foreground hover:text-foreground'
+        }`}
+        aria-expanded={isOpen}
+      >
+        <AudioLines className="h-5 w-5" />
+        <span className="text-[10px]">{t('voiceEnhance')}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 start-1/2 -translate-x-1/2 bg-[hsl(var(--surface-elevated))] border border-[hsl(0,0%,20%)] rounded-xl shadow-2xl p-2 z-50 w-60 space-y-2">
+          <button
+            onClick={() => setVoiceEnhance(!voiceEnhance)}
+            className={chipClass(voiceEnhance) + ' w-full'}
+            aria-pressed={voiceEnhance}
+          >
+            {t('voiceEnhance')}
+          </button>
+
+          {/* Picking a preset also turns enhancement on */}
+          <div className="flex gap-1">
+            {VOICE_PRESETS.map((preset) => (
+              <button
+                key={preset}
+                onClick={() => setVoicePreset(preset)}
+                className={chipClass(voiceEnhance && preset === voicePreset)}
+              >
+                {t(PRESET_LABEL_KEYS[preset])}
+              </button>
+            ))}
+          </div>
+
+          <div className="border-t border-[hsl(0,0%,20%)] pt-2 space-y-2">
+            <button
+              onClick={() => setMonoAudio(!monoAudio)}
+              className={chipClass(monoAudio) + ' w-full'}
+              aria-pressed={monoAudio}
+            >
+              {t('monoAudio')}
+            </button>
+
+            <div className="text-[11px] text-muted-foreground text-center">
+              {t('audioBalance')}
+              <div dir="ltr" className="mt-1 flex items-center gap-2">
+                <span className="text-[10px] font-bold">L</span>
+                <input
+                  type="range"
+                  min={-1}
+                  max={1}
+                  step={0.1}
+                  value={audioBalance}
+                  onChange={(e) => setAudioBalance(parseFloat(e.target.value))}
+                  onDoubleClick={() => setAudioBalance(0)}
+                  className="flex-1 accent-[hsl(var(--primary))]"
+                  aria-label={t('audioBalance')}
+                />
+                <span className="text-[10px] font-bold">R</span>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
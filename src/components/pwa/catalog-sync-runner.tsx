@@ -0,0 +1,19 @@
+'use client';
+
+import { useEffect } from 'react';
+import { syncCatalog } from '@/lib/offline-catalog';
+import { useIsOnline } from '@/hooks/use-offline';
+
+/**
+ * Client component that refreshes the offline catalog snapshot on app open and
+ * whenever the connection comes back. Renders nothing to the DOM.
+ */
+export function CatalogSyncRunner() {
+  const online = useIsOnline();
+
+  useEffect(() => {
+    if (online) void syncCatalog();
+  }, [online]);
+
+  return null;
+}
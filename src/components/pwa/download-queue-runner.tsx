@@ -0,0 +1,36 @@
+'use client';
+
+import { useEffect } from 'react';
+import { downloadManager } from '@/lib/download-manager';
+import { enforceStoragePolicy, shareListening } from '@/lib/storage-policy';
+import { useAudioStore } from '@/stores/audio-store';
+
+/**
+ * Client component that keeps the download queue running on every page —
+ * including picking it up again after a reload — and tidies up downloads per
+ * the storage policy on app open. Renders nothing to the DOM.
+ */
+export function DownloadQueueRunner() {
+  useEffect(() => {
+    downloadManager.start();
+    void enforceStoragePolicy();
+  }, []);
+
+  // The service worker's auto-downloads follow the storage policy too — keep it
+  // up to date on what's been listened to and what's playing
+  useEffect(() => {
+    const onHide = () => {
+      if (document.visibilityState === 'hidden') void shareListening();
+    };
+    document.addEventListener('visibilitychange', onHide);
+    const unsubscribe = useAudioStore.subscribe((state, prev) => {
+      if (state.currentTrack?.id !== prev.currentTrack?.id) void shareListening();
+    });
+    return () => {
+      document.removeEventListener('visibilitychange', onHide);
+      unsubscribe();
+    };
+  }, []);
+
+  return null;
+}
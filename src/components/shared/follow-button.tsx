@@ -0,0 +1,31 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { BellPlus, BellRing } from 'lucide-react';
+import { useAutoDownloadSettings } from '@/hooks/use-auto-download';
+import type { FollowedTopic } from '@/lib/offline-storage';
+
+/** Follow a category or series — its new lessons are downloaded automatically */
+export function FollowButton({ type, id, name }: FollowedTopic) {
+  const t = useTranslations('offline');
+  const { settings, follow, unfollow } = useAutoDownloadSettings();
+  if (!settings) return null;
+
+  const following = settings.follows.some((f) => f.type === type && f.id === id);
+
+  return (
+    <button
+      onClick={() => (following ? unfollow(type, id) : follow({ type, id, name }))}
+      className={`flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-sm font-medium transition-colors ${
+        following
+          ? 'bg-primary/15 text-primary hover:bg-primary/25'
+          : 'bg-[hsl(var(--surface-elevated))] hover:bg-[hsl(var(--surface-highlight))]'
+      }`}
+      title={t('followHint')}
+      aria-pressed={following}
+    >
+      {following ? <BellRing className="h-4 w-4" /> : <BellPlus className="h-4 w-4 text-primary" />}
+      {following ? t('following') : t('follow')}
+    </button>
+  );
+}
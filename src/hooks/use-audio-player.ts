@@ -3,7 +3,13 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { useAudioStore, type AudioTrack } from '@/stores/audio-store';
 import { audioEngine } from '@/lib/audio-engine';
-import { getOfflineAudioUrl, revokeOfflineAudioUrl } from '@/lib/offline-storage';
+import { shouldSleepAtTrackEnd } from '@/lib/sleep-timer';
+import { getPlaybackSpeed, getActiveSpeedScope } from '@/lib/playback-speed';
+import { getTrackSources, rememberWorkingSource, reportAudioError } from '@/lib/audio-sources';
+import { listeningRecorder } from '@/lib/listening-history';
+import { locateInTimeline, getSegmentStarts } from '@/lib/lesson-timeline';
+import { sendOrQueue } from '@/lib/sync-outbox';
+import { useProgressStore } from '@/stores/progress-store';
 
 const PROGRESS_SAVE_INTERVAL = 10000; // Save progress every 10 seconds
 
@@ -11,7 +17,6 @@ export function useAudioPlayer() {
   const store = useAudioStore();
   const progressTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const lastSavedTimeRef = useRef(0);
-  const prevTrackIdRef = useRef<string | null>(null);
 
   // Sync engine with store state
   useEffect(() => {
@@ -19,76 +24,82 @@ export function useAudioPlayer() {
 
     audioEngine.setOnTimeUpdate((time) => {
       store.setCurrentTime(time);
+      listeningRecorder.update(time);
     });
 
     audioEngine.setOnLoad((duration) => {
       store.setDuration(duration);
+      const track = useAudioStore.getState().currentTrack;
+      if (track) rememberWorkingSource(track, audioEngine.getCurrentUrl());
     });
 
     audioEngine.setOnEnd(() => {
+      const ended = useAudioStore.getState().currentTrack;
+      if (ended) markFileComplete(ended, ended.segments ? ended.segments.length - 1 : undefined);
       store.pause();
-      // Auto-play next track in queue
-      store.nextTrack();
+      // Sleep timer set to "end of file" / "end of lesson" — stop here instead of advancing
+      const state = useAudioStore.getState();
+      if (shouldSleepAtTrackEnd(state.sleepTimer, state)) {
+        state.clearSleepTimer();
+        return;
+      }
+      // Auto-play next track in queue; past its end, offer the next lesson with a countdown
+      if (state.queueIndex < state.queue.length - 1) {
+        store.nextTrack();
+      } else if (state.autoplayNext) {
+        void state.queueUpNext();
+      }
     });
 
     audioEngine.setOnError((error) => {
       console.error('Audio error:', error);
     });
-  }, [store.currentTrack?.id]); // eslint-disable-line react-hooks/exhaustive-deps
 
-  // Load track when it changes — check offline storage first
-  useEffect(() => {
-    if (!store.currentTrack?.audioUrl) return;
-
-    // Revoke old blob URL when switching tracks to free memory
-    if (prevTrackIdRef.current && prevTrackIdRef.current !== store.currentTrack.id) {
-      revokeOfflineAudioUrl(prevTrackIdRef.current);
-    }
-    prevTrackIdRef.current = store.currentTrack.id;
+    // Every failed source is reported, including ones the engine recovered from
+    audioEngine.setOnSourceError((url, error, nextUrl) => {
+      const track = useAudioStore.getState().currentTrack;
+      if (track) reportAudioError(track, url, error, nextUrl !== null);
+    });
 
-    let cancelled = false;
+    audioEngine.setOnTimeSaved((seconds) => {
+      store.addTimeSaved(seconds);
+    });
 
-    async function loadTrack() {
-      const track = useAudioStore.getState().currentTrack;
-      if (!track?.audioUrl || cancelled) return;
-
-      // Try offline blob URL first, fall back to streaming URL
-      let url = track.audioUrl;
-      try {
-        const offlineUrl = await getOfflineAudioUrl(track.id);
-        if (offlineUrl && !cancelled) {
-          url = offlineUrl;
-        }
-      } catch {
-        // Offline storage unavailable — use network URL
+    // Whole-lesson mode: file boundaries inside one timeline
+    audioEngine.setOnSegmentEnd((nextIndex) => {
+      const state = useAudioStore.getState();
+      if (state.currentTrack) markFileComplete(state.currentTrack, nextIndex - 1);
+      if (state.sleepTimer?.mode === 'endOfFile') {
+        state.pause();
+        state.clearSleepTimer();
+        return false;
       }
+      return true;
+    });
 
-      if (cancelled) return;
-
-      audioEngine.load(url, {
-        startPosition: useAudioStore.getState().currentTime > 0
-          ? useAudioStore.getState().currentTime
-          : undefined,
-      });
+    audioEngine.setOnSegmentDurations((durations) => {
+      store.setSegmentDurations(durations);
+    });
 
-      // Set proper attributes on the native <audio> element for iOS background playback
-      const audioEl = audioEngine.getAudioElement();
-      if (audioEl) {
-        audioEl.setAttribute('playsinline', '');
-        audioEl.setAttribute('webkit-playsinline', '');
-      }
+    // A–B loop finished its passes — playback continues normally
+    audioEngine.setOnLoopEnd(() => {
+      store.clearLoop();
+    });
+  }, [store.currentTrack?.id]); // eslint-disable-line react-hooks/exhaustive-deps
 
-      // NOTE: Do NOT call audioEngine.play() here. The play/pause sync effect
-      // is the SOLE authority for calling play(). Calling it here too caused
-      // a dual-effect race condition (two useEffects both calling play()).
-    }
+  // Load track when it changes. Downloaded lessons use the same URL — the
+  // service worker answers it from offline storage
+  useEffect(() => {
+    const track = useAudioStore.getState().currentTrack;
+    if (!track?.audioUrl) return;
 
-    loadTrack();
+    const startPosition = useAudioStore.getState().currentTime;
+    loadIntoEngine(track, startPosition > 0 ? startPosition : undefined);
 
-    return () => {
-      cancelled = true;
-    };
-  }, [store.currentTrack?.id, store.currentTrack?.audioUrl]);
+    // NOTE: Do NOT call audioEngine.play() here. The play/pause sync effect
+    // is the SOLE authority for calling play(). Calling it here too caused
+    // a dual-effect race condition (two useEffects both calling play()).
+  }, [store.currentTrack?.id, store.currentTrack?.audioUrl, !!store.currentTrack?.segments]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Re-initialize audio when app comes back to foreground (browser may have killed audio context)
   useEffect(() => {
@@ -99,29 +110,18 @@ export function useAudioPlayer() {
 
       // If engine lost its state, re-load and resume
       if (!audioEngine.isLoaded()) {
-        // Try offline first, then fall back to streaming
-        getOfflineAudioUrl(state.currentTrack.id).then((offlineUrl) => {
-          const url = offlineUrl || state.currentTrack!.audioUrl;
-          // Use onLoad callback to play when ready, instead of setTimeout
-          if (useAudioStore.getState().isPlaying) {
-            const prevOnLoad = audioEngine['onLoad'];
-            audioEngine.setOnLoad((duration) => {
-              audioEngine.setOnLoad(prevOnLoad || (() => {}));
-              prevOnLoad?.(duration);
-              if (useAudioStore.getState().isPlaying) {
-                audioEngine.play();
-              }
-            });
-          }
-          audioEngine.load(url, {
-            startPosition: state.currentTime > 0 ? state.currentTime : undefined,
+        // Use onLoad callback to play when ready, instead of setTimeout
+        if (state.isPlaying) {
+          const prevOnLoad = audioEngine['onLoad'];
+          audioEngine.setOnLoad((duration) => {
+            audioEngine.setOnLoad(prevOnLoad || (() => {}));
+            prevOnLoad?.(duration);
+            if (useAudioStore.getState().isPlaying) {
+              audioEngine.play();
+            }
           });
-          const audioEl = audioEngine.getAudioElement();
-          if (audioEl) {
-            audioEl.setAttribute('playsinline', '');
-            audioEl.setAttribute('webkit-playsinline', '');
-          }
-        });
+        }
+        loadIntoEngine(state.currentTrack, state.currentTime > 0 ? state.currentTime : undefined);
       }
     }
 
@@ -140,85 +140,77 @@ export function useAudioPlayer() {
       // If engine is not loaded (e.g., after page refresh, browser killed audio),
       // re-load the track first, then play via onLoad callback
       if (!audioEngine.isLoaded() && store.currentTrack.audioUrl) {
-        const trackId = store.currentTrack.id;
-        const trackUrl = store.currentTrack.audioUrl;
+        const track = store.currentTrack;
         const startPos = store.currentTime > 0 ? store.currentTime : undefined;
-        // Try offline first
-        getOfflineAudioUrl(trackId).then((offlineUrl) => {
-          // Check state is still isPlaying before proceeding (user may have paused during async)
-          if (!useAudioStore.getState().isPlaying) return;
-          const url = offlineUrl || trackUrl;
-          // Set onLoad to trigger play when the track is actually ready
-          const prevOnLoad = audioEngine['onLoad'];
-          audioEngine.setOnLoad((duration) => {
-            // Restore the original onLoad handler
-            audioEngine.setOnLoad(prevOnLoad || (() => {}));
-            prevOnLoad?.(duration);
-            // Only play if store still says isPlaying (user may have paused during load)
-            if (useAudioStore.getState().isPlaying) {
-              audioEngine.play();
-            }
-          });
-          audioEngine.load(url, { startPosition: startPos });
-          const audioEl = audioEngine.getAudioElement();
-          if (audioEl) {
-            audioEl.setAttribute('playsinline', '');
-            audioEl.setAttribute('webkit-playsinline', '');
+        // Set onLoad to trigger play when the track is actually ready
+        const prevOnLoad = audioEngine['onLoad'];
+        audioEngine.setOnLoad((duration) => {
+          // Restore the original onLoad handler
+          audioEngine.setOnLoad(prevOnLoad || (() => {}));
+          prevOnLoad?.(duration);
+          // Only play if store still says isPlaying (user may have paused during load)
+          if (useAudioStore.getState().isPlaying) {
+            audioEngine.play();
           }
         });
+        loadIntoEngine(track, startPos);
       } else {
         audioEngine.play();
       }
     } else {
       audioEngine.pause();
     }
-  }, [store.isPlaying, store.currentTrack?.id]); // eslint-disable-line react-hooks/exhaustive-deps
+    // Segments flag: switching between a single file and the whole-lesson timeline of the
+    // same lesson keeps the id, but the new Howl still needs play()
+  }, [store.isPlaying, store.currentTrack?.id, !!store.currentTrack?.segments]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Sync volume
   useEffect(() => {
     audioEngine.setVolume(store.volume);
   }, [store.volume]);
 
-  // Sync playback speed
+  // Sync playback speed — the track's series/category speed, else the global one
+  const playbackSpeed = getPlaybackSpeed(store);
   useEffect(() => {
-    audioEngine.setRate(store.playbackSpeed);
-  }, [store.playbackSpeed]);
+    audioEngine.setRate(playbackSpeed);
+  }, [playbackSpeed]);
 
-  // Preload next track in queue when current track starts playing
-  const preloadRef = useRef<HTMLAudioElement | null>(null);
+  // Sync trim-silence mode
   useEffect(() => {
-    // Clean up any previous preloaded element — fully release the audio resource
-    if (preloadRef.current) {
-      preloadRef.current.pause();
-      preloadRef.current.removeAttribute('src');
-      preloadRef.current.load(); // Forces browser to release the audio resource
-      preloadRef.current = null;
-    }
+    audioEngine.setTrimSilence(store.trimSilence);
+  }, [store.trimSilence]);
 
-    if (!store.isPlaying || !store.currentTrack) return;
-
-    const { queue, queueIndex } = store;
-    const nextIndex = queueIndex + 1;
-    if (nextIndex >= queue.length) return;
-
-    const nextTrack = queue[nextIndex];
-    if (!nextTrack?.audioUrl) return;
+  // Sync voice enhancement / mono / balance
+  useEffect(() => {
+    audioEngine.setVoiceSettings({
+      enhance: store.voiceEnhance,
+      preset: store.voicePreset,
+      mono: store.monoAudio,
+      balance: store.audioBalance,
+    });
+  }, [store.voiceEnhance, store.voicePreset, store.monoAudio, store.audioBalance]);
 
-    // Create a hidden audio element to preload the next track
-    const preloadAudio = new Audio();
-    preloadAudio.preload = 'auto';
-    preloadAudio.src = nextTrack.audioUrl;
-    preloadRef.current = preloadAudio;
+  // Sync A–B loop — only active once both points are set
+  useEffect(() => {
+    const loop = store.abLoop;
+    if (loop && loop.end !== null) {
+      audioEngine.setLoop(loop.start, loop.end, loop.repeat);
+    } else {
+      audioEngine.clearLoop();
+    }
+  }, [store.abLoop]);
 
-    return () => {
-      if (preloadRef.current) {
-        preloadRef.current.pause();
-        preloadRef.current.removeAttribute('src');
-        preloadRef.current.load();
-        preloadRef.current = null;
-      }
-    };
-  }, [store.isPlaying, store.currentTrack?.id, store.queueIndex]); // eslint-disable-line react-hooks/exhaustive-deps
+  // Tell the engine what plays next in the queue — it warms it up near the end of this track.
+  // Timelines load fresh, so they don't need it
+  useEffect(() => {
+    const next = store.queue[store.queueIndex + 1];
+    if (!store.currentTrack || !next?.audioUrl || next.segments) {
+      audioEngine.setNextTrack(null);
+      return;
+    }
+    // The URL loadIntoEngine will start with
+    audioEngine.setNextTrack(getTrackSources(next)[0]?.url ?? next.audioUrl);
+  }, [store.currentTrack?.id, store.queue, store.queueIndex]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Save progress periodically
   useEffect(() => {
@@ -234,8 +226,12 @@ export function useAudioPlayer() {
       const currentTime = audioEngine.getCurrentTime();
       if (Math.abs(currentTime - lastSavedTimeRef.current) > 5) {
         lastSavedTimeRef.current = currentTime;
+        const track = store.currentTrack!;
+        const { audioFileId, filePosition } = getFilePosition(track, currentTime);
+        const position = Math.round(currentTime);
+        useProgressStore.getState().updateProgress(track.id, position, audioFileId, Math.round(filePosition));
         // Save to server (fire-and-forget)
-        saveProgress(store.currentTrack!.id, Math.round(currentTime));
+        saveProgress(track.id, position, audioFileId, false, Math.round(filePosition));
       }
     }, PROGRESS_SAVE_INTERVAL);
 
@@ -246,6 +242,19 @@ export function useAudioPlayer() {
     };
   }, [store.currentTrack?.id, store.isPlaying]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Listening history — a session runs while this track plays at this speed.
+  // The cleanup closes it before the engine moves on to anything else, but not
+  // when this component merely unmounts while playback carries on
+  useEffect(() => {
+    if (!store.currentTrack || !store.isPlaying) return;
+    listeningRecorder.start(store.currentTrack, audioEngine.getCurrentTime(), playbackSpeed);
+    return () => {
+      const state = useAudioStore.getState();
+      if (state.isPlaying && state.currentTrack && listeningRecorder.isRecording(state.currentTrack, getPlaybackSpeed(state))) return;
+      listeningRecorder.finish(audioEngine.getCurrentTime());
+    };
+  }, [store.currentTrack?.id, store.currentTrack?.audioUrl, store.isPlaying, playbackSpeed]); // eslint-disable-line react-hooks/exhaustive-deps
+
   // Seek handler (triggered from UI)
   const seekTo = useCallback((time: number) => {
     audioEngine.seek(time);
@@ -276,6 +285,9 @@ export function useAudioPlayer() {
 
   return {
     ...store,
+    // The speed in effect for the current track, not the stored global default
+    playbackSpeed,
+    speedScope: getActiveSpeedScope(store),
     seekTo,
     skipForward,
     skipBackward,
@@ -283,18 +295,83 @@ export function useAudioPlayer() {
   };
 }
 
-async function saveProgress(lessonId: string, position: number) {
+/**
+ * Load a track into the engine — as a multi-file timeline in whole-lesson mode,
+ * otherwise as a single file with the track's other sources as fallbacks, in
+ * this device's preferred order.
+ */
+function loadIntoEngine(track: AudioTrack, startPosition?: number) {
+  if (track.segments && track.segments.length > 0) {
+    audioEngine.loadTimeline(track.segments, { startPosition });
+  } else {
+    const [primary, ...fallbacks] = getTrackSources(track).map((s) => s.url);
+    audioEngine.load(primary ?? track.audioUrl, { startPosition, loudness: track.loudness, fallbacks });
+  }
+
+  // Set proper attributes on the native <audio> element for iOS background playback
+  const audioEl = audioEngine.getAudioElement();
+  if (audioEl) {
+    audioEl.setAttribute('playsinline', '');
+    audioEl.setAttribute('webkit-playsinline', '');
+  }
+}
+
+/** The lesson_audio file playing at `time`, and the position inside it */
+function getFilePosition(track: AudioTrack, time: number): { audioFileId?: string; filePosition: number } {
+  if (!track.segments) return { audioFileId: track.audioFileId, filePosition: time };
+  const { index, localTime } = locateInTimeline(track.segments, time);
+  return { audioFileId: track.segments[index]?.audioFileId, filePosition: localTime };
+}
+
+/** A file played to its end — `segment` is its index on a whole-lesson timeline */
+function markFileComplete(track: AudioTrack, segment?: number) {
+  const file = segment !== undefined ? track.segments?.[segment] : track;
+  if (!file) return;
+  const audioFileId = file.audioFileId;
+  const filePosition = Math.round(file.duration || 0);
+  // On a timeline the lesson is at the end of this file, past the ones before it
+  const position = segment !== undefined && track.segments
+    ? Math.round(getSegmentStarts(track.segments)[segment] + (file.duration || 0))
+    : filePosition;
+  const progress = useProgressStore.getState();
+  progress.updateProgress(track.id, position, audioFileId, filePosition);
+  // Without a lesson_audio row the file is the whole lesson — done now, not once the server says so
+  progress.markComplete(track.id, audioFileId);
+  void saveProgress(track.id, position, audioFileId, true, filePosition).then((saved) => {
+    // The server decides when the lesson as a whole is done — once every one of its files is
+    if (saved?.completed) useProgressStore.getState().markComplete(track.id);
+  });
+}
+
+/** `position` is on the lesson's timeline; `filePosition` inside `audioFileId`, when they differ */
+async function saveProgress(
+  lessonId: string,
+  position: number,
+  audioFileId?: string,
+  completed = false,
+  filePosition = position
+): Promise<{ completed: boolean } | null> {
   try {
-    await fetch('/api/progress', {
+    // Kept in the offline outbox when it can't be sent — null then, the server's answer comes later
+    const res = await sendOrQueue({
+      url: '/api/progress',
       method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
         lesson_id: lessonId,
+        audio_file_id: audioFileId ?? null,
         position,
-        completed: false,
+        file_position: filePosition,
+        completed,
+        played_at: new Date().toISOString(),
       }),
+      // A newer position for the file supersedes this one; a completion doesn't
+      key: completed ? undefined : `progress:${lessonId}:${audioFileId ?? ''}`,
     });
+    if (!res?.ok) return null;
+    const { data } = await res.json();
+    return data ?? null;
   } catch {
     // Silent fail - progress saving is best-effort
+    return null;
   }
 }
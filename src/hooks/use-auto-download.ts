@@ -0,0 +1,42 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getAutoDownloadSettings,
+  updateAutoDownloadSettings,
+  type AutoDownloadSettings,
+  type FollowedTopic,
+} from '@/lib/offline-storage';
+import { followTopic, unfollowTopic } from '@/lib/auto-download';
+
+/**
+ * Auto-download settings from IndexedDB (where the service worker reads them).
+ * Null until loaded — they're only known in the browser.
+ */
+export function useAutoDownloadSettings() {
+  const [settings, setSettings] = useState<AutoDownloadSettings | null>(null);
+
+  const reload = useCallback(() => {
+    getAutoDownloadSettings().then(setSettings);
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const update = useCallback(async (changes: Partial<AutoDownloadSettings>) => {
+    setSettings(await updateAutoDownloadSettings(changes));
+  }, []);
+
+  const follow = useCallback(async (topic: FollowedTopic) => {
+    await followTopic(topic);
+    reload();
+  }, [reload]);
+
+  const unfollow = useCallback(async (type: FollowedTopic['type'], id: string) => {
+    await unfollowTopic(type, id);
+    reload();
+  }, [reload]);
+
+  return { settings, update, follow, unfollow };
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+const SWIPE_DISTANCE = 60; // px along the dominant axis
+const TAP_SLOP = 12; // px of movement still counted as a tap
+const DOUBLE_TAP_MS = 300;
+const LONG_PRESS_MS = 600;
+
+export interface DrivingGestureHandlers {
+  onSwipeLeft: () => void;
+  onSwipeRight: () => void;
+  onSwipeUp: () => void;
+  onSwipeDown: () => void;
+  onDoubleTap: () => void;
+  onLongPress: () => void;
+}
+
+interface PointerStart {
+  x: number;
+  y: number;
+  moved: boolean;
+  longPressed: boolean;
+}
+
+/**
+ * Whole-screen gestures for driving mode — spread the returned props on the
+ * surface (with `touch-action: none` so the browser doesn't scroll or zoom).
+ * Buttons on the surface keep working: a tap on one is just a click, and a swipe
+ * or long-press that starts on one doesn't also click it. Double-taps only count
+ * off the buttons, so quick taps on skip don't drop bookmarks.
+ */
+export function useDrivingGestures(handlers: DrivingGestureHandlers) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const startRef = useRef<PointerStart | null>(null);
+  const longPressTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastTapRef = useRef(0);
+  const suppressClickRef = useRef(false);
+
+  function clearLongPress() {
+    if (longPressTimerRef.current) {
+      clearTimeout(longPressTimerRef.current);
+      longPressTimerRef.current = null;
+    }
+  }
+
+  useEffect(() => clearLongPress, []);
+
+  return {
+    onPointerDown: (e: React.PointerEvent) => {
+      if (!e.isPrimary) return;
+      const start: PointerStart = { x: e.clientX, y: e.clientY, moved: false, longPressed: false };
+      startRef.current = start;
+      suppressClickRef.current = false;
+      clearLongPress();
+      longPressTimerRef.current = setTimeout(() => {
+        start.longPressed = true;
+        navigator.vibrate?.(30);
+        handlersRef.current.onLongPress();
+      }, LONG_PRESS_MS);
+    },
+
+    onPointerMove: (e: React.PointerEvent) => {
+      const start = startRef.current;
+      if (!start || !e.isPrimary || start.moved) return;
+      if (Math.hypot(e.clientX - start.x, e.clientY - start.y) > TAP_SLOP) {
+        start.moved = true;
+        clearLongPress();
+      }
+    },
+
+    onPointerUp: (e: React.PointerEvent) => {
+      const start = startRef.current;
+      startRef.current = null;
+      clearLongPress();
+      if (!start || !e.isPrimary) return;
+
+      if (start.longPressed) {
+        suppressClickRef.current = true;
+        return;
+      }
+
+      const dx = e.clientX - start.x;
+      const dy = e.clientY - start.y;
+      if (Math.max(Math.abs(dx), Math.abs(dy)) >= SWIPE_DISTANCE) {
+        suppressClickRef.current = true;
+        lastTapRef.current = 0;
+        const h = handlersRef.current;
+        if (Math.abs(dx) > Math.abs(dy)) {
+          if (dx > 0) h.onSwipeRight();
+          else h.onSwipeLeft();
+        } else if (dy < 0) {
+          h.onSwipeUp();
+        } else {
+          h.onSwipeDown();
+        }
+        return;
+      }
+
+      if (start.moved) return;
+      if ((e.target as HTMLElement).closest('button')) {
+        lastTapRef.current = 0;
+        return;
+      }
+      const now = Date.now();
+      if (now - lastTapRef.current < DOUBLE_TAP_MS) {
+        lastTapRef.current = 0;
+        handlersRef.current.onDoubleTap();
+      } else {
+        lastTapRef.current = now;
+      }
+    },
+
+    onPointerCancel: () => {
+      startRef.current = null;
+      clearLongPress();
+    },
+
+    // The click that follows a swipe or long-press that began on a button
+    onClickCapture: (e: React.MouseEvent) => {
+      if (!suppressClickRef.current) return;
+      suppressClickRef.current = false;
+      e.preventDefault();
+      e.stopPropagation();
+    },
+  };
+}
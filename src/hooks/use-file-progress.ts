@@ -0,0 +1,34 @@
+'use client';
+
+import { useProgressStore } from '@/stores/progress-store';
+import type { LessonAudio, PlaybackProgress } from '@/types/database';
+
+export interface FileProgress {
+  percent: number; // 0–100
+  completed: boolean;
+}
+
+/**
+ * Progress of each of a lesson's audio files — this device's local record, or the
+ * server's rows (`serverRows`, from lesson.file_progress) when those are newer.
+ */
+export function useFileProgress(
+  lessonId: string,
+  serverRows: PlaybackProgress[] = [],
+): (audio: LessonAudio) => FileProgress | null {
+  const local = useProgressStore((s) => s.progressMap[lessonId]?.files);
+
+  return (audio) => {
+    const mine = local?.[audio.id];
+    const server = serverRows.find((p) => p.audio_file_id === audio.id);
+    const useServer = server && (!mine || new Date(server.last_played_at) > new Date(mine.lastPlayed));
+    const position = useServer ? server.position : mine?.position;
+    const completed = useServer ? server.completed : mine?.completed ?? false;
+    if (position === undefined && !completed) return null;
+
+    const percent = completed
+      ? 100
+      : audio.duration > 0 ? Math.min(100, Math.round(((position ?? 0) / audio.duration) * 100)) : 0;
+    return { percent, completed };
+  };
+}
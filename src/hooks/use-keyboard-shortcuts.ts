@@ -0,0 +1,110 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useAudioStore } from '@/stores/audio-store';
+import { audioEngine } from '@/lib/audio-engine';
+import { SPEED_OPTIONS, getPlaybackSpeed } from '@/lib/playback-speed';
+
+const SEEK_STEP = 15; // seconds, same as the skip buttons
+
+interface ShortcutHandlers {
+  onBookmark: (position: number) => void;
+  onNote: (position: number) => void;
+  onHelp: () => void;
+}
+
+/** Typing somewhere — keys belong to the field, not the player */
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Desktop keyboard shortcuts for the player. Mount once (AudioPlayer).
+ *
+ *   Space          play / pause
+ *   ← / →          seek 15s
+ *   Shift + ← / →  slower / faster
+ *   0–9            jump to 0%–90%
+ *   M              mute
+ *   B / N          bookmark / note at the current time
+ *   ?              shortcut list
+ */
+export function useKeyboardShortcuts({ onBookmark, onNote, onHelp }: ShortcutHandlers) {
+  const handlersRef = useRef({ onBookmark, onNote, onHelp });
+  handlersRef.current = { onBookmark, onNote, onHelp };
+  const unmutedVolumeRef = useRef(1);
+
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.ctrlKey || e.metaKey || e.altKey || e.defaultPrevented) return;
+      if (isTypingTarget(e.target)) return;
+
+      if (e.key === '?') {
+        e.preventDefault();
+        handlersRef.current.onHelp();
+        return;
+      }
+
+      const state = useAudioStore.getState();
+      if (!state.currentTrack) return;
+      const time = audioEngine.getCurrentTime();
+      const duration = audioEngine.getDuration() || state.duration;
+
+      function seek(to: number) {
+        const clamped = Math.max(0, Math.min(to, duration || to));
+        audioEngine.seek(clamped);
+        state.setCurrentTime(clamped);
+      }
+
+      switch (e.key) {
+        case ' ':
+          // A focused button already acts on space
+          if (e.target instanceof HTMLButtonElement) return;
+          state.togglePlay();
+          break;
+        case 'ArrowRight':
+        case 'ArrowLeft': {
+          const forward = e.key === 'ArrowRight';
+          if (e.shiftKey) {
+            const current = getPlaybackSpeed(state);
+            const next = forward
+              ? SPEED_OPTIONS.find((s) => s > current)
+              : [...SPEED_OPTIONS].reverse().find((s) => s < current);
+            if (next !== undefined) state.setPlaybackSpeed(next);
+          } else {
+            seek(time + (forward ? SEEK_STEP : -SEEK_STEP));
+          }
+          break;
+        }
+        case 'm':
+        case 'M':
+          if (state.volume > 0) {
+            unmutedVolumeRef.current = state.volume;
+            state.setVolume(0);
+          } else {
+            state.setVolume(unmutedVolumeRef.current || 1);
+          }
+          break;
+        case 'b':
+        case 'B':
+          handlersRef.current.onBookmark(time);
+          break;
+        case 'n':
+        case 'N':
+          handlersRef.current.onNote(time);
+          break;
+        default:
+          if (/^[0-9]$/.test(e.key) && duration > 0) {
+            seek((duration * Number(e.key)) / 10);
+            break;
+          }
+          return;
+      }
+      e.preventDefault();
+    }
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+}
@@ -3,6 +3,9 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { useAudioStore } from '@/stores/audio-store';
 import { audioEngine } from '@/lib/audio-engine';
+import { useSleepTimerRemaining } from '@/hooks/use-sleep-timer';
+import { getChapterMarks, getNextChapterTime, getPreviousChapterTime } from '@/lib/chapters';
+import { getPlaybackSpeed } from '@/lib/playback-speed';
 
 /**
  * Integrates with the Media Session API for:
@@ -14,7 +17,9 @@ import { audioEngine } from '@/lib/audio-engine';
  * Also manages Wake Lock to prevent device sleep during playback.
  */
 export function useMediaSession() {
-  const { currentTrack, isPlaying, currentTime, duration, playbackSpeed } = useAudioStore();
+  const { currentTrack, isPlaying, currentTime, duration, sleepTimer } = useAudioStore();
+  const playbackSpeed = useAudioStore(getPlaybackSpeed);
+  const sleepRemaining = useSleepTimerRemaining();
   const lastPositionUpdate = useRef(0);
   const wakeLockRef = useRef<WakeLockSentinel | null>(null);
 
@@ -25,6 +30,14 @@ export function useMediaSession() {
     return `${window.location.origin}${path.startsWith('/') ? '' : '/'}${path}`;
   }, []);
 
+  // Sleep timer shown on the lock screen in place of the album — minute granularity
+  // so metadata is only re-set once a minute
+  const sleepLabel = !sleepTimer
+    ? null
+    : sleepRemaining === null
+      ? (sleepTimer.mode === 'endOfFile' ? 'שינה בסוף הקובץ' : 'שינה בסוף השיעור')
+      : `שינה בעוד ${Math.max(1, Math.ceil(sleepRemaining / 60))} דק׳`;
+
   // Set metadata when track changes
   useEffect(() => {
     if (!('mediaSession' in navigator) || !currentTrack) return;
@@ -49,10 +62,10 @@ export function useMediaSession() {
     navigator.mediaSession.metadata = new MediaMetadata({
       title: currentTrack.hebrewTitle || currentTrack.title,
       artist: currentTrack.seriesName || 'נגן תורה',
-      album: 'שיעורי תורה',
+      album: sleepLabel || 'שיעורי תורה',
       artwork: artworkList,
     });
-  }, [currentTrack, getAbsoluteUrl]);
+  }, [currentTrack, getAbsoluteUrl, sleepLabel]);
 
   // Set playback state and manage Wake Lock
   useEffect(() => {
@@ -160,10 +173,24 @@ export function useMediaSession() {
         audioEngine.seek(newTime);
         useAudioStore.getState().setCurrentTime(newTime);
       }],
-      ['nexttrack', () => { useAudioStore.getState().nextTrack(); }],
+      // Lessons with chapters: next/previous step through chapters before changing track
+      ['nexttrack', () => {
+        const state = useAudioStore.getState();
+        const chapterTime = getNextChapterTime(getChapterMarks(state.currentTrack), audioEngine.getCurrentTime());
+        if (chapterTime !== null) {
+          audioEngine.seek(chapterTime);
+          state.setCurrentTime(chapterTime);
+        } else {
+          state.nextTrack();
+        }
+      }],
       ['previoustrack', () => {
         const state = useAudioStore.getState();
-        if (audioEngine.getCurrentTime() > 3) {
+        const chapterTime = getPreviousChapterTime(getChapterMarks(state.currentTrack), audioEngine.getCurrentTime());
+        if (chapterTime !== null) {
+          audioEngine.seek(chapterTime);
+          state.setCurrentTime(chapterTime);
+        } else if (audioEngine.getCurrentTime() > 3) {
           audioEngine.seek(0);
           state.setCurrentTime(0);
         } else {
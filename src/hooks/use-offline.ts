@@ -2,6 +2,8 @@
 
 import { useState, useEffect } from 'react';
 import { isLessonDownloaded } from '@/lib/offline-storage';
+import { flushOutbox, getPendingCount, OUTBOX_CHANGED_EVENT, OUTBOX_SYNC_TAG } from '@/lib/sync-outbox';
+import { getCatalogSnapshot, type CatalogSnapshot } from '@/lib/offline-catalog';
 
 /**
  * Hook to check if a lesson is downloaded for offline playback.
@@ -26,3 +28,78 @@ export function useIsDownloaded(lessonId: string): boolean {
 
   return downloaded;
 }
+
+/**
+ * Whether the browser reports a connection. True during SSR and the first render
+ * to avoid a hydration mismatch.
+ */
+export function useIsOnline(): boolean {
+  const [online, setOnline] = useState(true);
+
+  useEffect(() => {
+    setOnline(navigator.onLine);
+    const goOnline = () => setOnline(true);
+    const goOffline = () => setOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  return online;
+}
+
+/**
+ * Changes waiting in the offline outbox. Replays them whenever the app is (back)
+ * online — use it once, in the header. 0 during SSR and the first render.
+ */
+export function usePendingSync(): number {
+  const online = useIsOnline();
+  const [pending, setPending] = useState(0);
+
+  useEffect(() => {
+    const refresh = () => {
+      getPendingCount().then(setPending);
+    };
+    // The service worker replayed the outbox through Background Sync
+    const handleMessage = (e: MessageEvent) => {
+      if (e.data?.type === OUTBOX_SYNC_TAG) refresh();
+    };
+    refresh();
+    window.addEventListener(OUTBOX_CHANGED_EVENT, refresh);
+    navigator.serviceWorker?.addEventListener('message', handleMessage);
+    return () => {
+      window.removeEventListener(OUTBOX_CHANGED_EVENT, refresh);
+      navigator.serviceWorker?.removeEventListener('message', handleMessage);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (online) void flushOutbox();
+  }, [online]);
+
+  return pending;
+}
+
+/**
+ * The offline catalog snapshot, read while `enabled` (typically: while offline).
+ * Null until loaded.
+ */
+export function useCatalogSnapshot(enabled: boolean): CatalogSnapshot | null {
+  const [snapshot, setSnapshot] = useState<CatalogSnapshot | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    getCatalogSnapshot().then((result) => {
+      if (!cancelled) setSnapshot(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  return enabled ? snapshot : null;
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAudioStore } from '@/stores/audio-store';
+import { audioEngine } from '@/lib/audio-engine';
+import { getSleepTimerRemaining, SLEEP_FADE_SECONDS } from '@/lib/sleep-timer';
+import { getPlaybackSpeed } from '@/lib/playback-speed';
+
+const SLEEP_TICK_INTERVAL = 500; // Fade step granularity
+
+/**
+ * Drives the sleep timer: fades the engine volume over the last
+ * SLEEP_FADE_SECONDS and stops playback when a 'duration' timer runs out.
+ * File-based modes stop from the engine's onEnd handler (see useAudioPlayer).
+ *
+ * Must be mounted ONCE (in AudioPlayer) — useAudioPlayer runs in several components.
+ */
+export function useSleepTimer() {
+  const sleepTimer = useAudioStore((s) => s.sleepTimer);
+  const isPlaying = useAudioStore((s) => s.isPlaying);
+
+  useEffect(() => {
+    if (!sleepTimer) {
+      audioEngine.setFadeLevel(1);
+      return;
+    }
+
+    function tick() {
+      const state = useAudioStore.getState();
+      const remaining = getSleepTimerRemaining(state.sleepTimer, {
+        ...state,
+        // Engine time is fresher than the store's between animation frames
+        currentTime: audioEngine.getCurrentTime() || state.currentTime,
+        playbackSpeed: getPlaybackSpeed(state),
+      });
+
+      if (remaining === null) {
+        audioEngine.setFadeLevel(1);
+        return;
+      }
+
+      audioEngine.setFadeLevel(remaining / SLEEP_FADE_SECONDS);
+
+      if (state.sleepTimer?.mode === 'duration' && remaining <= 0) {
+        audioEngine.pause();
+        state.pause();
+        state.clearSleepTimer();
+      }
+    }
+
+    tick();
+    if (!isPlaying) return;
+
+    const interval = setInterval(tick, SLEEP_TICK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [sleepTimer, isPlaying]);
+}
+
+/**
+ * Seconds left on the sleep timer (re-renders every second), or null when
+ * no timer is set or the stop point isn't known yet.
+ */
+export function useSleepTimerRemaining(): number | null {
+  const sleepTimer = useAudioStore((s) => s.sleepTimer);
+  const currentTrack = useAudioStore((s) => s.currentTrack);
+  const currentTime = useAudioStore((s) => s.currentTime);
+  const duration = useAudioStore((s) => s.duration);
+  const playbackSpeed = useAudioStore(getPlaybackSpeed);
+  const queue = useAudioStore((s) => s.queue);
+  const queueIndex = useAudioStore((s) => s.queueIndex);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Wall-clock timers need their own tick — currentTime doesn't move while paused
+  useEffect(() => {
+    if (sleepTimer?.mode !== 'duration') return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [sleepTimer]);
+
+  return getSleepTimerRemaining(
+    sleepTimer,
+    { currentTrack, currentTime, duration, playbackSpeed, queue, queueIndex },
+    now,
+  );
+}
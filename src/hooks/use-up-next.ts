@@ -0,0 +1,54 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAudioStore } from '@/stores/audio-store';
+
+/**
+ * Drives the up-next countdown: starts the queued next lesson when its countdown
+ * runs out. Resuming the finished track cancels it.
+ *
+ * Must be mounted ONCE (in AudioPlayer) — useAudioPlayer runs in several components.
+ */
+export function useUpNext() {
+  const upNext = useAudioStore((s) => s.upNext);
+  const isPlaying = useAudioStore((s) => s.isPlaying);
+
+  useEffect(() => {
+    if (!upNext) return;
+    const state = useAudioStore.getState();
+
+    if (isPlaying) {
+      state.cancelUpNext();
+      return;
+    }
+
+    // Hidden tabs / locked phones throttle timers (iOS suspends the page once audio
+    // stops) — start right away while the browser still lets us play
+    if (document.hidden) {
+      state.playUpNext();
+      return;
+    }
+
+    const timeout = setTimeout(
+      () => useAudioStore.getState().playUpNext(),
+      Math.max(0, upNext.startsAt - Date.now()),
+    );
+    return () => clearTimeout(timeout);
+  }, [upNext, isPlaying]);
+}
+
+/** Whole seconds left before the up-next lesson starts (re-renders every second), or null */
+export function useUpNextRemaining(): number | null {
+  const upNext = useAudioStore((s) => s.upNext);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!upNext) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [upNext]);
+
+  if (!upNext) return null;
+  return Math.max(0, Math.ceil((upNext.startsAt - now) / 1000));
+}
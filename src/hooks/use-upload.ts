@@ -3,6 +3,12 @@
 import { useState, useCallback } from 'react';
 import type { AudioMetadata } from '@/lib/audio-utils';
 import { transcodeToOpus, type TranscodeProgress } from '@/lib/audio-transcode';
+import {
+  savePendingUpload,
+  markPartUploaded,
+  deletePendingUpload,
+  type PendingUpload,
+} from '@/lib/pending-uploads';
 
 function guessContentType(fileName: string): string {
   const ext = fileName.split('.').pop()?.toLowerCase();
@@ -31,6 +37,19 @@ function uuid(): string {
 // Chunk size: 3.5 MB (well under Vercel's 4.5 MB body limit)
 const CHUNK_SIZE = 3.5 * 1024 * 1024;
 
+/** Chunk indexes the server already has for an upload, or null if it can't say */
+async function fetchUploadedParts(uploadId: string, totalParts: number): Promise<number[] | null> {
+  try {
+    const res = await fetch(`/api/upload/chunk?uploadId=${encodeURIComponent(uploadId)}`);
+    if (!res.ok) return null;
+    const { parts, completed } = await res.json();
+    // Already assembled — completing it again just returns what was recorded
+    return completed ? Array.from({ length: totalParts }, (_, i) => i) : parts;
+  } catch {
+    return null;
+  }
+}
+
 type UploadStatus = 'idle' | 'uploading' | 'processing' | 'complete' | 'error';
 
 export interface FileUploadProgress {
@@ -47,6 +66,7 @@ interface UseUploadReturn {
   fileProgresses: FileUploadProgress[];
   upload: (file: File, lessonId: string, metadata: AudioMetadata, sortOrder?: number) => Promise<string | null>;
   uploadMultiple: (files: FileWithMeta[], lessonId: string) => Promise<string[]>;
+  resumeUpload: (pending: PendingUpload) => Promise<string | null>;
   reset: () => void;
 }
 
@@ -77,11 +97,12 @@ export function useUpload(): UseUploadReturn {
     sortOrder: number = 0,
     onProgress?: (pct: number) => void,
     transcodeEnabled: boolean = false,
+    resume?: PendingUpload,
   ): Promise<string | null> => {
     let fileToUpload = file;
 
-    // ─── Transcode to Opus if enabled ───
-    if (transcodeEnabled) {
+    // ─── Transcode to Opus if enabled (a resumed upload already was) ───
+    if (transcodeEnabled && !resume) {
       onProgress?.(0);
       try {
         fileToUpload = await transcodeToOpus(file, {}, (tp: TranscodeProgress) => {
@@ -96,15 +117,33 @@ export function useUpload(): UseUploadReturn {
     }
 
     const contentType = fileToUpload.type || guessContentType(fileToUpload.name);
-    const uploadId = uuid();
     const totalParts = Math.ceil(fileToUpload.size / CHUNK_SIZE);
 
+    // Saved as it goes, so a reload or the phone locking doesn't mean starting over
+    const pending: PendingUpload = resume ?? {
+      uploadId: uuid(),
+      lessonId,
+      file: fileToUpload,
+      contentType,
+      sortOrder,
+      totalParts,
+      completedParts: [],
+      startedAt: new Date().toISOString(),
+    };
+    const { uploadId } = pending;
+    // The server has the final say on which chunks it has
+    const uploadedParts = new Set(resume ? (await fetchUploadedParts(uploadId, pending.totalParts)) ?? resume.completedParts : []);
+    if (!resume) await savePendingUpload(pending);
+
+
     // Progress offset: if transcoding happened, upload progress starts at 40%
-    const progressOffset = transcodeEnabled ? 40 : 0;
-    const progressRange = transcodeEnabled ? 54 : 90; // remaining % for upload (leaving 6-10% for assembly)
+    const transcoded = transcodeEnabled && !resume;
+    const progressOffset = transcoded ? 40 : 0;
+    const progressRange = transcoded ? 54 : 90; // remaining % for upload (leaving 6-10% for assembly)
 
     // Step 1: Upload file in chunks
     for (let partNumber = 0; partNumber < totalParts; partNumber++) {
+      if (uploadedParts.has(partNumber)) continue;
       const start = partNumber * CHUNK_SIZE;
       const end = Math.min(start + CHUNK_SIZE, fileToUpload.size);
       const chunk = fileToUpload.slice(start, end);
@@ -147,6 +186,7 @@ export function useUpload(): UseUploadReturn {
         xhr.timeout = 120000; // 2 min per chunk
         xhr.send(formData);
       });
+      await markPartUploaded(uploadId, partNumber);
     }
 
     // Step 2: Assemble chunks and upload to R2
@@ -172,6 +212,7 @@ export function useUpload(): UseUploadReturn {
     }
 
     const result = await completeRes.json();
+    await deletePendingUpload(uploadId);
     onProgress?.(100);
     return result.publicUrl;
   }, []);
@@ -203,6 +244,34 @@ export function useUpload(): UseUploadReturn {
     }
   }, [uploadSingleFile]);
 
+  // Pick up an upload left unfinished, sending only the chunks the server doesn't have
+  const resumeUpload = useCallback(async (pending: PendingUpload): Promise<string | null> => {
+    try {
+      setStatus('uploading');
+      setProgress(0);
+      setError(null);
+
+      const url = await uploadSingleFile(
+        pending.file,
+        pending.lessonId,
+        {} as AudioMetadata,
+        pending.sortOrder,
+        (pct) => setProgress(pct),
+        false,
+        pending,
+      );
+
+      setStatus('complete');
+      setProgress(100);
+      return url;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Upload failed';
+      setError(message);
+      setStatus('error');
+      return null;
+    }
+  }, [uploadSingleFile]);
+
   // Upload multiple files sequentially with per-file progress
   const uploadMultiple = useCallback(async (
     files: FileWithMeta[],
@@ -269,5 +338,5 @@ export function useUpload(): UseUploadReturn {
     return urls;
   }, [uploadSingleFile]);
 
-  return { status, progress, error, fileProgresses, upload, uploadMultiple, reset };
+  return { status, progress, error, fileProgresses, upload, uploadMultiple, resumeUpload, reset };
 }
@@ -0,0 +1,43 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { AudioTrack } from '@/stores/audio-store';
+import { combinePeaks, fetchPeaks } from '@/lib/waveform-peaks';
+
+// Bars drawn across the seek bar
+const WAVEFORM_BARS = 120;
+
+/**
+ * Waveform bars (0–100) for a track's seek bar, or null while loading / when the
+ * track has no peaks. Whole-lesson timelines combine each file's peaks.
+ */
+export function useWaveform(track: AudioTrack | null | undefined): number[] | null {
+  const [bars, setBars] = useState<number[] | null>(null);
+
+  const files = track?.segments
+    ? track.segments.map((s) => ({ peaksUrl: s.peaksUrl, duration: s.duration }))
+    : track ? [{ peaksUrl: track.peaksUrl, duration: track.duration }] : [];
+  // Stable dependency — segment durations change as files load, which doesn't affect the URLs
+  const key = files.map((f) => f.peaksUrl || '').join('|');
+
+  useEffect(() => {
+    setBars(null);
+    if (!files.some((f) => f.peaksUrl)) return;
+
+    let cancelled = false;
+    Promise.all(files.map((f) => (f.peaksUrl ? fetchPeaks(f.peaksUrl) : Promise.resolve(null)))).then((peaks) => {
+      if (cancelled || peaks.every((p) => !p)) return;
+      const combined = combinePeaks(
+        files.map((f, i) => ({ peaks: peaks[i], duration: f.duration })),
+        WAVEFORM_BARS,
+      );
+      setBars(combined.length > 0 ? combined : null);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  return bars;
+}
@@ -2,11 +2,34 @@
 
 import { Howl, Howler } from 'howler';
 import { normalizeAudioUrl } from '@/lib/audio-url';
+import { silenceTrimmer } from '@/lib/silence-trimmer';
+import { audioGraph } from '@/lib/audio-graph';
+import { isUnmeteredConnection } from '@/lib/network';
+import { locateInTimeline, getSegmentStarts, getTimelineDuration } from '@/lib/lesson-timeline';
+import type { AudioSegment } from '@/stores/audio-store';
+import type { VoiceSettings } from '@/lib/voice-enhance';
 
 // Increase Howler's HTML5 audio pool to prevent "pool exhausted" warnings
 // Default is 10 — raise to 20 for safety with streaming + preloading
 Howler.html5PoolSize = 20;
 
+// Loudness normalization target (LUFS). Louder files are turned down through the
+// element's volume; quieter ones are boosted through the Web Audio graph, which the
+// element's volume can't do — up to MAX_NORMALIZATION_GAIN so a near-silent or
+// mis-measured file isn't blown up along with its noise floor.
+const TARGET_LOUDNESS = -20;
+const MAX_NORMALIZATION_GAIN = 4; // +12 dB
+
+// How often the A–B loop checks for point B. Time tracking runs on rAF, which stops
+// in background tabs — an interval keeps looping with the screen off (throttled to ~1s).
+const LOOP_CHECK_INTERVAL = 100;
+
+// The next file or queued track starts buffering this many seconds (at the current
+// speed) before the current one ends — early enough to be ready, late enough not
+// to fetch tracks the listener skips. Checked on an interval for the same reason as the loop.
+const PRELOAD_LEAD_TIME = 60;
+const PRELOAD_CHECK_INTERVAL = 5000;
+
 /**
  * Singleton audio engine wrapping Howler.js.
  * Manages a single audio instance and provides control methods.
@@ -14,6 +37,11 @@ Howler.html5PoolSize = 20;
 class AudioEngine {
   private howl: Howl | null = null;
   private currentUrl: string | null = null;
+  // Candidate URLs for the loaded file, tried in order when one fails to load
+  private sources: string[] = [];
+  private sourceIndex = 0;
+  private loadPosition = 0;
+  private onSourceError: ((url: string, error: string, nextUrl: string | null) => void) | null = null;
   private soundId: number | null = null; // Track Howler sound ID to prevent duplicate streams
   private onTimeUpdate: ((time: number) => void) | null = null;
   private onEnd: (() => void) | null = null;
@@ -21,6 +49,25 @@ class AudioEngine {
   private onError: ((error: string) => void) | null = null;
   private animationFrameId: number | null = null;
   private _userPaused = false; // Track if user explicitly paused to prevent auto-resume
+  private volume = 1;
+  private fadeLevel = 1; // Sleep-timer fade multiplier, applied on top of the user volume
+  private rate = 1;
+  private normalizationGain = 1; // Per-track gain from measured loudness
+  // Whole-lesson timeline — null when playing a single file
+  private timeline: { key: string; segments: AudioSegment[]; index: number } | null = null;
+  private nextHowl: Howl | null = null; // Next timeline segment, preloaded for a gapless handoff
+  private nextHowlIndex = -1;
+  private onSegmentEnd: ((nextIndex: number) => boolean) | null = null;
+  private onSegmentDurations: ((durations: number[]) => void) | null = null;
+  // The track expected to play after this one, and its Howl once it's being warmed up
+  private nextTrackUrl: string | null = null;
+  private warm: { url: string; howl: Howl } | null = null;
+  private preloadTimer: ReturnType<typeof setInterval> | null = null;
+  // A–B loop. passesLeft counts the jumps back still to do (null = forever)
+  private loop: { start: number; end: number; repeat: number | null; passesLeft: number | null } | null = null;
+  private loopTimer: ReturnType<typeof setInterval> | null = null;
+  private lastLoopCheckTime = 0;
+  private onLoopEnd: (() => void) | null = null;
 
   /**
    * Detect audio format from URL for Howler.js format hint.
@@ -42,39 +89,151 @@ class AudioEngine {
     }
   }
 
-  load(url: string, options?: { startPosition?: number }) {
+  /**
+   * Load a single file. `fallbacks` are other copies of the same audio (e.g. the
+   * MP3 behind an Opus file, the original upload), tried in order if it fails to load.
+   */
+  load(url: string, options?: { startPosition?: number; loudness?: number | null; fallbacks?: string[] }) {
     // Normalize the URL to use stream proxy instead of direct R2
     const normalizedUrl = normalizeAudioUrl(url) || url;
 
-    // Don't reload same track
-    if (this.currentUrl === normalizedUrl && this.howl) {
+    this.normalizationGain = this.getNormalizationGain(options?.loudness);
+    this.applyVolume();
+
+    // Don't reload same track — even if it's playing from a fallback by now
+    if (this.sources[0] === normalizedUrl && this.howl && !this.timeline) {
       if (options?.startPosition) {
         this.howl.seek(options.startPosition);
       }
       return;
     }
 
+    // Already buffering as the next track — take it before cleanup discards it.
+    // A resume point can only be applied once it has loaded, like a preloaded segment
+    const startPosition = options?.startPosition ?? 0;
+    const warm = this.warm?.url === normalizedUrl
+      && (this.warm.howl.state() === 'loaded' || (startPosition === 0 && this.warm.howl.state() === 'loading'))
+      ? this.warm.howl
+      : null;
+    if (warm) this.warm = null;
+    const resume = this.isPlaybackActive();
+
     // Cleanup previous
     this.unload();
+    this.sources = [normalizedUrl, ...(options?.fallbacks || []).map((u) => normalizeAudioUrl(u) || u)];
+    this.sourceIndex = 0;
+    this.loadPosition = startPosition;
     this.currentUrl = normalizedUrl;
+    if (warm) {
+      this.adoptWarmHowl(warm, startPosition);
+    } else {
+      this.howl = this.createHowl(normalizedUrl, startPosition);
+    }
+    if (resume) this.play();
+  }
+
+  /** Whether playback is meant to be running — true right after a file ends, unlike isPlaying() */
+  private isPlaybackActive(): boolean {
+    return this.soundId !== null && !this._userPaused;
+  }
+
+  /** Make the preloaded next-track Howl the current one */
+  private adoptWarmHowl(howl: Howl, startPosition?: number) {
+    this.howl = howl;
+    howl.rate(this.rate); // Speed may have changed since it was preloaded
+    this.applyVolume();
+    // Still loading: its onload sees it's current by then and reports the duration itself
+    if (howl.state() !== 'loaded') return;
+    if (startPosition && startPosition > 0) howl.seek(startPosition);
+    this.onLoad?.(this.getDuration());
+  }
+
+  /**
+   * A file failed to load: report it, then move on to the next candidate source —
+   * same position, and playing again if it was playing. False when none are left.
+   */
+  private failover(error: string): boolean {
+    const failedUrl = this.currentUrl;
+    const nextUrl = this.timeline ? null : this.sources[this.sourceIndex + 1] ?? null;
+    if (failedUrl) this.onSourceError?.(failedUrl, error, nextUrl);
+    if (!nextUrl || !this.howl) return false;
 
-    this.howl = new Howl({
-      src: [normalizedUrl],
-      format: this.detectFormat(normalizedUrl),
+    const position = this.getCurrentTime() || this.loadPosition;
+    const resume = this.isPlaybackActive();
+
+    this.stopTimeTracking();
+    silenceTrimmer.detach();
+    this.howl.unload();
+
+    this.sourceIndex += 1;
+    this.loadPosition = position;
+    this.currentUrl = nextUrl;
+    this.soundId = null;
+    this.howl = this.createHowl(nextUrl, position);
+    if (resume) this.play();
+    return true;
+  }
+
+  /**
+   * Load several files as one continuous timeline ("whole lesson" mode).
+   * From here on getCurrentTime/getDuration/seek work in timeline seconds,
+   * and the next file is preloaded near the end of each so the handoff is gapless.
+   */
+  loadTimeline(segments: AudioSegment[], options?: { startPosition?: number }) {
+    const urls = segments.map((s) => normalizeAudioUrl(s.audioUrl) || s.audioUrl);
+    const key = urls.join('|');
+
+    // Don't reload same timeline
+    if (this.timeline?.key === key && this.howl) {
+      if (options?.startPosition) {
+        this.seek(options.startPosition);
+      }
+      return;
+    }
+
+    const resume = this.isPlaybackActive();
+    this.unload();
+    this.timeline = { key, segments: segments.map((s) => ({ ...s })), index: 0 };
+
+    const { index, localTime } = locateInTimeline(this.timeline.segments, options?.startPosition ?? 0);
+    this.timeline.index = index;
+    this.currentUrl = urls[index];
+    this.normalizationGain = this.getNormalizationGain(segments[index].loudness);
+    this.howl = this.createHowl(urls[index], localTime);
+    if (resume) this.play();
+  }
+
+  private createHowl(url: string, startPosition?: number): Howl {
+    const howl: Howl = new Howl({
+      src: [url],
+      format: this.detectFormat(url),
       html5: true, // Required for streaming long audio files
       preload: true,
+      volume: this.getOutputVolume(),
+      rate: this.rate,
       onload: () => {
-        const duration = this.howl?.duration() || 0;
-        this.onLoad?.(duration);
-        if (options?.startPosition && options.startPosition > 0) {
-          this.howl?.seek(options.startPosition);
+        this.handleSegmentLoaded(howl);
+        // A preloaded next segment or track — nothing else to do until it's handed off
+        if (howl !== this.howl) return;
+        this.onLoad?.(this.getDuration());
+        if (startPosition && startPosition > 0) {
+          howl.seek(startPosition);
         }
       },
       onend: () => {
+        if (howl !== this.howl) return;
         this.stopTimeTracking();
+        // Point B at (or past) the end of the file — the interval may not have caught it
+        if (this.loop && this.loop.end >= this.getFileEnd() - 0.5 && this.restartLoop()) {
+          this.play();
+          return;
+        }
+        if (this.advanceSegment()) return;
         this.onEnd?.();
       },
       onloaderror: (_id: number, error: unknown) => {
+        if (howl !== this.howl) return;
+        if (this.failover(String(error))) return;
         this.onError?.(`Failed to load audio: ${error}`);
       },
       onplayerror: (_id: number, error: unknown) => {
@@ -94,6 +253,145 @@ class AudioEngine {
         }
       },
     });
+    return howl;
+  }
+
+  /** Record a timeline segment's real duration once its file has loaded */
+  private handleSegmentLoaded(howl: Howl) {
+    if (!this.timeline) return;
+    const index = howl === this.howl ? this.timeline.index
+      : howl === this.nextHowl ? this.nextHowlIndex
+      : -1;
+    const duration = howl.duration();
+    if (index < 0 || !duration || this.timeline.segments[index].duration === duration) return;
+
+    this.timeline.segments[index].duration = duration;
+    this.onSegmentDurations?.(this.timeline.segments.map((s) => s.duration));
+    if (howl !== this.howl) this.onLoad?.(this.getDuration());
+  }
+
+  /**
+   * The track to warm up for once this one nears its end — a single-file URL, or
+   * null when there's nothing worth preloading. The current warm Howl is kept until
+   * the check next runs, in case the same track comes back.
+   */
+  setNextTrack(url: string | null) {
+    this.nextTrackUrl = url ? normalizeAudioUrl(url) || url : null;
+  }
+
+  /** Near the end of the current file, start buffering whatever plays after it */
+  private checkPreload() {
+    const howl = this.howl;
+    if (!howl || !howl.playing()) return;
+    const seek = this.soundId !== null ? howl.seek(this.soundId) : howl.seek();
+    const remaining = (howl.duration() - (typeof seek === 'number' ? seek : 0)) / this.rate;
+    if (!howl.duration() || remaining > PRELOAD_LEAD_TIME || !isUnmeteredConnection()) return;
+
+    const tl = this.timeline;
+    if (tl && tl.index < tl.segments.length - 1) {
+      this.preloadNextSegment();
+    } else {
+      this.warmNextTrack();
+    }
+  }
+
+  private warmNextTrack() {
+    const url = this.nextTrackUrl;
+    if (this.warm?.url === url) return;
+    this.discardWarmHowl();
+    if (!url || url === this.currentUrl) return;
+    this.warm = { url, howl: this.createHowl(url) };
+  }
+
+  private discardWarmHowl() {
+    this.warm?.howl.unload();
+    this.warm = null;
+  }
+
+  private startPreloadWatch() {
+    if (this.preloadTimer !== null) return;
+    this.preloadTimer = setInterval(() => this.checkPreload(), PRELOAD_CHECK_INTERVAL);
+  }
+
+  private stopPreloadWatch() {
+    if (this.preloadTimer !== null) {
+      clearInterval(this.preloadTimer);
+      this.preloadTimer = null;
+    }
+  }
+
+  /** Start buffering the next file of the timeline so it can take over without a gap */
+  private preloadNextSegment() {
+    const tl = this.timeline;
+    if (!tl) return;
+    const nextIndex = tl.index + 1;
+    if (nextIndex >= tl.segments.length || this.nextHowlIndex === nextIndex) return;
+
+    this.discardNextHowl();
+    const segment = tl.segments[nextIndex];
+    this.nextHowlIndex = nextIndex;
+    this.nextHowl = this.createHowl(normalizeAudioUrl(segment.audioUrl) || segment.audioUrl);
+  }
+
+  private discardNextHowl() {
+    this.nextHowl?.unload();
+    this.nextHowl = null;
+    this.nextHowlIndex = -1;
+  }
+
+  /** Current file ended — continue into the next one. Returns false at the end of the timeline. */
+  private advanceSegment(): boolean {
+    const tl = this.timeline;
+    if (!tl || tl.index >= tl.segments.length - 1) return false;
+    const nextIndex = tl.index + 1;
+    const keepPlaying = this.onSegmentEnd?.(nextIndex) ?? true;
+    this.switchSegment(nextIndex, 0, keepPlaying);
+    return true;
+  }
+
+  /** Make `index` the active timeline segment, reusing the preloaded Howl when possible */
+  private switchSegment(index: number, localTime: number, autoplay: boolean) {
+    const tl = this.timeline;
+    if (!tl) return;
+    const segment = tl.segments[index];
+    const url = normalizeAudioUrl(segment.audioUrl) || segment.audioUrl;
+
+    this.stopTimeTracking();
+    silenceTrimmer.detach();
+
+    const previous = this.howl;
+    const preloaded = this.nextHowl && this.nextHowlIndex === index
+      && (localTime === 0 || this.nextHowl.state() === 'loaded');
+
+    let howl: Howl;
+    if (preloaded) {
+      howl = this.nextHowl!;
+      this.nextHowl = null;
+      this.nextHowlIndex = -1;
+      howl.rate(this.rate); // Speed may have changed since it was preloaded
+    } else {
+      this.discardNextHowl();
+      howl = this.createHowl(url, localTime);
+    }
+
+    this.howl = howl;
+    this.currentUrl = url;
+    this.soundId = null;
+    tl.index = index;
+    previous?.unload();
+
+    this.normalizationGain = this.getNormalizationGain(segment.loudness);
+    this.applyVolume();
+
+    if (howl.state() === 'loaded' && localTime > 0) {
+      howl.seek(localTime);
+    }
+
+    if (autoplay) {
+      this.play();
+    } else {
+      this.onTimeUpdate?.(this.getCurrentTime());
+    }
   }
 
   play() {
@@ -110,6 +408,9 @@ class AudioEngine {
     // not at the top — prevents race where a pending play() clears a recent pause()
     this._userPaused = false;
     this.startTimeTracking();
+    this.attachAudioGraph();
+    this.startLoopWatch();
+    this.startPreloadWatch();
   }
 
   pause() {
@@ -122,10 +423,21 @@ class AudioEngine {
     // Safety net: also pause without soundId to ensure ALL sounds on this Howl stop
     this.howl.pause();
     this.stopTimeTracking();
+    this.stopLoopWatch();
+    this.stopPreloadWatch();
   }
 
   seek(time: number) {
     if (!this.howl) return;
+    if (this.timeline) {
+      // Timeline seconds → file + position inside it
+      const { index, localTime } = locateInTimeline(this.timeline.segments, time);
+      if (index !== this.timeline.index) {
+        this.switchSegment(index, localTime, this.isPlaying());
+        return;
+      }
+      time = localTime;
+    }
     if (this.soundId !== null) {
       this.howl.seek(time, this.soundId);
     } else {
@@ -134,11 +446,42 @@ class AudioEngine {
   }
 
   setVolume(volume: number) {
+    this.volume = volume;
+    this.applyVolume();
+  }
+
+  /**
+   * Scale the output volume (0..1) without touching the user's volume setting.
+   * Used by the sleep timer to fade out the last seconds before stopping.
+   */
+  setFadeLevel(level: number) {
+    const clamped = Math.max(0, Math.min(1, level));
+    if (clamped === this.fadeLevel) return;
+    this.fadeLevel = clamped;
+    this.applyVolume();
+  }
+
+  /** Gain that brings a file measured at `loudness` LUFS to TARGET_LOUDNESS */
+  private getNormalizationGain(loudness: number | null | undefined): number {
+    if (loudness === null || loudness === undefined) return 1;
+    return Math.min(MAX_NORMALIZATION_GAIN, Math.pow(10, (TARGET_LOUDNESS - loudness) / 20));
+  }
+
+  private getOutputVolume(): number {
+    return this.volume * this.fadeLevel * Math.min(1, this.normalizationGain);
+  }
+
+  private applyVolume() {
+    // The part above unity goes through the graph — captured on play if it's needed
+    audioGraph.setBoost(this.normalizationGain);
     if (!this.howl) return;
-    this.howl.volume(volume);
+    this.howl.volume(this.getOutputVolume());
+    if (this.normalizationGain > 1 && this.isPlaying()) this.attachAudioGraph();
   }
 
   setRate(rate: number) {
+    this.rate = rate;
+    silenceTrimmer.setBaseRate(rate);
     if (!this.howl) return;
     if (this.soundId !== null) {
       this.howl.rate(rate, this.soundId);
@@ -147,14 +490,57 @@ class AudioEngine {
     }
   }
 
+  /**
+   * Toggle "trim silence": quiet stretches play faster than the selected speed.
+   * Takes effect immediately if a track is playing.
+   */
+  setTrimSilence(enabled: boolean) {
+    if (enabled === silenceTrimmer.isEnabled()) return;
+    silenceTrimmer.setEnabled(enabled);
+    if (enabled && this.isPlaying()) {
+      this.attachAudioGraph();
+    } else if (!enabled) {
+      // Trimmer restored base rate on the element — keep Howler in sync
+      this.setRate(this.rate);
+    }
+  }
+
+  /**
+   * Voice enhancement, mono and balance (see audio-graph.ts).
+   * Takes effect immediately if a track is playing.
+   */
+  setVoiceSettings(settings: VoiceSettings) {
+    audioGraph.setVoiceSettings(settings);
+    if (this.isPlaying()) this.attachAudioGraph();
+  }
+
+  /**
+   * Route the playing element through the Web Audio graph. Capturing is permanent,
+   * so an element is only captured once trimming, voice processing or a boost is wanted —
+   * after that it must keep the context running to be heard at all.
+   */
+  private attachAudioGraph() {
+    const el = this.getAudioElement();
+    if (!el || !this.currentUrl) return;
+    if (silenceTrimmer.isEnabled() || audioGraph.needsProcessing()) {
+      audioGraph.capture(el, this.currentUrl);
+    } else if (audioGraph.isCaptured(el)) {
+      audioGraph.resume();
+    }
+    silenceTrimmer.attach(el);
+  }
+
   getCurrentTime(): number {
     if (!this.howl) return 0;
     const seek = this.soundId !== null ? this.howl.seek(this.soundId) : this.howl.seek();
-    return typeof seek === 'number' ? seek : 0;
+    const local = typeof seek === 'number' ? seek : 0;
+    if (!this.timeline) return local;
+    return getSegmentStarts(this.timeline.segments)[this.timeline.index] + local;
   }
 
   getDuration(): number {
     if (!this.howl) return 0;
+    if (this.timeline) return getTimelineDuration(this.timeline.segments);
     return this.howl.duration() || 0;
   }
 
@@ -192,15 +578,24 @@ class AudioEngine {
     this._userPaused = true;
     this.howl.stop();
     this.stopTimeTracking();
+    this.stopLoopWatch();
+    this.stopPreloadWatch();
   }
 
   unload() {
     this.stopTimeTracking();
+    this.stopLoopWatch();
+    this.stopPreloadWatch();
+    silenceTrimmer.detach();
+    this.discardNextHowl();
+    this.discardWarmHowl();
     if (this.howl) {
       this.howl.unload();
       this.howl = null;
     }
+    this.timeline = null;
     this.currentUrl = null;
+    this.sources = [];
     this.soundId = null;
   }
 
@@ -221,6 +616,95 @@ class AudioEngine {
     this.onError = cb;
   }
 
+  /** A source failed to load — nextUrl is the one tried next, null if playback gave up */
+  setOnSourceError(cb: (url: string, error: string, nextUrl: string | null) => void) {
+    this.onSourceError = cb;
+  }
+
+  /**
+   * Called when a timeline file ends and the next one is about to start.
+   * Return false to stop at the boundary (the next file is loaded but not played).
+   */
+  setOnSegmentEnd(cb: (nextIndex: number) => boolean) {
+    this.onSegmentEnd = cb;
+  }
+
+  /** Called when the engine learns the real length of timeline files */
+  setOnSegmentDurations(cb: (durations: number[]) => void) {
+    this.onSegmentDurations = cb;
+  }
+
+  /** Called with seconds of listening time saved by trimming silence */
+  setOnTimeSaved(cb: (seconds: number) => void) {
+    silenceTrimmer.setOnTimeSaved(cb);
+  }
+
+  /** Called when an A–B loop has played its last pass and playback carries on past B */
+  setOnLoopEnd(cb: () => void) {
+    this.onLoopEnd = cb;
+  }
+
+  /**
+   * Loop playback between `start` and `end` (track-level seconds). `repeat` is the
+   * total number of passes, null = forever. Setting the same loop again keeps the
+   * pass count, so every mounted player can sync it without resetting progress.
+   */
+  setLoop(start: number, end: number, repeat: number | null) {
+    const current = this.loop;
+    if (current && current.start === start && current.end === end && current.repeat === repeat) return;
+    this.loop = { start, end, repeat, passesLeft: repeat === null ? null : Math.max(0, repeat - 1) };
+    this.lastLoopCheckTime = this.getCurrentTime();
+    if (this.isPlaying()) this.startLoopWatch();
+  }
+
+  clearLoop() {
+    this.loop = null;
+    this.stopLoopWatch();
+  }
+
+  private startLoopWatch() {
+    if (!this.loop || this.loopTimer !== null) return;
+    this.lastLoopCheckTime = this.getCurrentTime();
+    this.loopTimer = setInterval(() => {
+      if (!this.loop || !this.isPlaying()) return;
+      const time = this.getCurrentTime();
+      // Only crossing B counts — seeking past it on purpose leaves the loop alone
+      const crossed = this.lastLoopCheckTime < this.loop.end && time >= this.loop.end;
+      this.lastLoopCheckTime = time;
+      if (crossed) this.restartLoop();
+    }, LOOP_CHECK_INTERVAL);
+  }
+
+  private stopLoopWatch() {
+    if (this.loopTimer !== null) {
+      clearInterval(this.loopTimer);
+      this.loopTimer = null;
+    }
+  }
+
+  /** Jump back to point A, or end the loop after its last pass. Returns true if it jumped. */
+  private restartLoop(): boolean {
+    const loop = this.loop;
+    if (!loop) return false;
+    if (loop.passesLeft === 0) {
+      this.clearLoop();
+      this.onLoopEnd?.();
+      return false;
+    }
+    if (loop.passesLeft !== null) loop.passesLeft--;
+    this.seek(loop.start);
+    this.lastLoopCheckTime = loop.start;
+    this.onTimeUpdate?.(loop.start);
+    return true;
+  }
+
+  /** Track-level time where the current file ends */
+  private getFileEnd(): number {
+    if (!this.timeline) return this.getDuration();
+    const { segments, index } = this.timeline;
+    return getSegmentStarts(segments)[index] + (segments[index].duration || 0);
+  }
+
   private startTimeTracking() {
     this.stopTimeTracking();
     const track = () => {
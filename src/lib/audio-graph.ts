@@ -0,0 +1,170 @@
+'use client';
+
+import {
+  VOICE_PRESET_PARAMS,
+  PRESENCE_FREQUENCY,
+  PRESENCE_Q,
+  needsVoiceProcessing,
+  type VoiceSettings,
+} from '@/lib/voice-enhance';
+
+/**
+ * Shared Web Audio graph behind Howler's HTML5 <audio> element:
+ *
+ *   element → source → analyser → [high-pass → presence EQ → compressor → makeup] → channels → balance → boost → limiter → speakers
+ *
+ * The analyser feeds the silence trimmer; the bracketed voice chain is only wired in
+ * while "voice enhance" is on. The boost stage lifts quiet recordings past what the
+ * element's volume (max 1) allows, with the limiter catching peaks it pushes over. A MediaElementAudioSourceNode can only be created once
+ * per element and takes over its output for good, so every Web Audio feature shares
+ * this one context and the cached sources — and an element is only captured once
+ * something actually needs processing. Captured audio shares the usual Web Audio caveat:
+ * iOS may suspend the context while the screen is locked.
+ */
+class AudioGraph {
+  private ctx: AudioContext | null = null;
+  private sources = new WeakMap<HTMLAudioElement, MediaElementAudioSourceNode>();
+  private source: MediaElementAudioSourceNode | null = null;
+  private analyser: AnalyserNode | null = null;
+  private highpass: BiquadFilterNode | null = null;
+  private presence: BiquadFilterNode | null = null;
+  private compressor: DynamicsCompressorNode | null = null;
+  private makeup: GainNode | null = null;
+  private channels: GainNode | null = null;
+  private balance: StereoPannerNode | null = null;
+  private boost: GainNode | null = null;
+  private limiter: DynamicsCompressorNode | null = null;
+  private boostGain = 1;
+  private settings: VoiceSettings = { enhance: false, preset: 'clear', mono: false, balance: 0 };
+
+  /**
+   * Route an element through the graph. Only same-origin and blob: sources are
+   * safe — a cross-origin element without CORS outputs silence once captured.
+   * Returns false when the element plays on unprocessed.
+   */
+  capture(element: HTMLAudioElement, url: string): boolean {
+    let source = this.sources.get(element);
+    if (!source) {
+      if (!isCapturable(url)) return false;
+      try {
+        const ctx = this.ensureContext();
+        source = ctx.createMediaElementSource(element);
+        this.sources.set(element, source);
+      } catch (err) {
+        // Web Audio unavailable — play on without processing
+        console.warn('Audio processing unavailable:', err);
+        return false;
+      }
+    }
+    if (this.source !== source) {
+      this.source?.disconnect();
+      source.disconnect();
+      source.connect(this.analyser!);
+      this.source = source;
+    }
+    this.resume();
+    return true;
+  }
+
+  /** Captured earlier — its only output is through our context */
+  isCaptured(element: HTMLAudioElement): boolean {
+    return this.sources.has(element);
+  }
+
+  resume() {
+    if (this.ctx?.state === 'suspended') {
+      this.ctx.resume().catch(() => {});
+    }
+  }
+
+  /** Level meter tap for the silence trimmer — null until an element has been captured */
+  getAnalyser(): AnalyserNode | null {
+    return this.analyser;
+  }
+
+  setVoiceSettings(settings: VoiceSettings) {
+    this.settings = settings;
+    if (this.ctx) this.applyVoiceSettings();
+  }
+
+  /** Loudness-normalization gain above unity (1 = off) */
+  setBoost(gain: number) {
+    this.boostGain = Math.max(1, gain);
+    if (this.boost) this.boost.gain.value = this.boostGain;
+  }
+
+  needsProcessing(): boolean {
+    return needsVoiceProcessing(this.settings) || this.boostGain > 1;
+  }
+
+  private ensureContext(): AudioContext {
+    if (this.ctx) return this.ctx;
+    const ctx = new AudioContext();
+    this.analyser = ctx.createAnalyser();
+    this.analyser.fftSize = 2048;
+
+    this.highpass = ctx.createBiquadFilter();
+    this.highpass.type = 'highpass';
+    this.presence = ctx.createBiquadFilter();
+    this.presence.type = 'peaking';
+    this.presence.frequency.value = PRESENCE_FREQUENCY;
+    this.presence.Q.value = PRESENCE_Q;
+    this.compressor = ctx.createDynamicsCompressor();
+    this.compressor.attack.value = 0.005;
+    this.compressor.release.value = 0.25;
+    this.makeup = ctx.createGain();
+
+    this.channels = ctx.createGain();
+    this.balance = ctx.createStereoPanner();
+    this.boost = ctx.createGain();
+    this.boost.gain.value = this.boostGain;
+    this.limiter = ctx.createDynamicsCompressor();
+    this.limiter.threshold.value = -1;
+    this.limiter.knee.value = 0;
+    this.limiter.ratio.value = 20;
+    this.limiter.attack.value = 0.001;
+    this.limiter.release.value = 0.1;
+    this.highpass.connect(this.presence);
+    this.presence.connect(this.compressor);
+    this.compressor.connect(this.makeup);
+    this.makeup.connect(this.channels);
+    this.channels.connect(this.balance);
+    this.balance.connect(this.boost);
+    this.boost.connect(this.limiter);
+    this.limiter.connect(ctx.destination);
+
+    this.ctx = ctx;
+    this.applyVoiceSettings();
+    return ctx;
+  }
+
+  private applyVoiceSettings() {
+    const { enhance, preset, mono, balance } = this.settings;
+    const params = VOICE_PRESET_PARAMS[preset];
+
+    this.highpass!.frequency.value = params.highpass;
+    this.presence!.gain.value = params.presenceGain;
+    this.compressor!.threshold.value = params.threshold;
+    this.compressor!.ratio.value = params.ratio;
+    this.makeup!.gain.value = Math.pow(10, params.makeupGain / 20);
+
+    // Forcing one channel makes the browser down-mix (L+R)/2; the panner spreads it to both ears
+    this.channels!.channelCount = mono ? 1 : 2;
+    this.channels!.channelCountMode = mono ? 'explicit' : 'max';
+    this.balance!.pan.value = Math.max(-1, Math.min(1, balance));
+
+    this.analyser!.disconnect();
+    this.analyser!.connect(enhance ? this.highpass! : this.channels!);
+  }
+}
+
+function isCapturable(url: string): boolean {
+  if (url.startsWith('blob:') || url.startsWith('/')) return true;
+  try {
+    return new URL(url).origin === window.location.origin;
+  } catch {
+    return false;
+  }
+}
+
+export const audioGraph = new AudioGraph();
@@ -0,0 +1,86 @@
+import type { AudioTrack } from '@/stores/audio-store';
+import type { AudioSourceKind } from '@/types/database';
+import { normalizeAudioUrl } from '@/lib/audio-url';
+
+export interface AudioSource {
+  kind: AudioSourceKind;
+  url: string;
+}
+
+// Which source last played after the usual first choice failed on this device
+// (e.g. an old iPhone that can't decode Opus) — tried first from then on
+const PREFERRED_SOURCE_KEY = 'tora-preferred-audio-source';
+
+const SOURCE_ORDER: AudioSourceKind[] = ['main', 'fallback', 'original'];
+
+function getPreferredKind(): AudioSourceKind | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const kind = localStorage.getItem(PREFERRED_SOURCE_KEY) as AudioSourceKind | null;
+    return kind && SOURCE_ORDER.includes(kind) ? kind : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A track's playable sources, in the order to try them: main → fallback → original,
+ * with the kind that worked here last time moved to the front.
+ */
+export function getTrackSources(track: AudioTrack): AudioSource[] {
+  const urls: Record<string, string | undefined> = {
+    main: track.audioUrl,
+    fallback: track.audioUrlFallback,
+    original: track.audioUrlOriginal,
+  };
+  const preferred = getPreferredKind();
+  const order = preferred ? [preferred, ...SOURCE_ORDER.filter((k) => k !== preferred)] : SOURCE_ORDER;
+
+  const sources: AudioSource[] = [];
+  for (const kind of order) {
+    const url = urls[kind];
+    if (url && !sources.some((s) => s.url === url)) sources.push({ kind, url });
+  }
+  return sources;
+}
+
+/** Whether a track source is the URL the engine loaded (the engine normalizes URLs) */
+function isSameSource(source: AudioSource, engineUrl: string | null): boolean {
+  return engineUrl !== null && (normalizeAudioUrl(source.url) || source.url) === engineUrl;
+}
+
+/** Called once a track has loaded — remembers the source only if it wasn't the first choice */
+export function rememberWorkingSource(track: AudioTrack, loadedUrl: string | null) {
+  const sources = getTrackSources(track);
+  const index = sources.findIndex((s) => isSameSource(s, loadedUrl));
+  if (index <= 0) return;
+  try {
+    localStorage.setItem(PREFERRED_SOURCE_KEY, sources[index].kind);
+  } catch {
+    // Storage unavailable — we'll just fail over again next time
+  }
+}
+
+/** Which kind of source a URL is for this track — for error reports */
+function getSourceKind(track: AudioTrack, url: string): AudioSourceKind {
+  if (track.segments) return 'segment';
+  return getTrackSources(track).find((s) => isSameSource(s, url))?.kind ?? 'main';
+}
+
+/** Tell the server a source failed to load (fire-and-forget) */
+export function reportAudioError(track: AudioTrack, url: string, error: string, recovered: boolean) {
+  fetch('/api/audio/report', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      lesson_id: track.id,
+      url,
+      source: getSourceKind(track, url),
+      error: error.slice(0, 500),
+      recovered,
+    }),
+    keepalive: true,
+  }).catch(() => {
+    // Offline — not worth retrying
+  });
+}
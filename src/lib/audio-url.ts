@@ -33,3 +33,13 @@ export function normalizeAudioUrl(url: string | null | undefined): string | null
   // Not an R2 URL — return as-is
   return url;
 }
+
+/**
+ * audio_url_original holds the bare R2 key of the uploaded file (older rows may
+ * hold a URL) — turn either into a playable URL.
+ */
+export function resolveOriginalAudioUrl(value: string | null | undefined): string | null {
+  if (!value) return null;
+  if (/^(https?:|blob:|\/)/.test(value)) return normalizeAudioUrl(value);
+  return `/api/audio/stream/${encodeURIComponent(value)}`;
+}
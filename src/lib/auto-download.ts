@@ -0,0 +1,51 @@
+'use client';
+
+import { updateAutoDownloadSettings, getAutoDownloadSettings, type FollowedTopic } from '@/lib/offline-storage';
+
+// Also the message type and periodic sync tag handled in public/sw.js
+const AUTO_DOWNLOAD_TAG = 'auto-download';
+const CHECK_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+interface PeriodicSyncManager {
+  register: (tag: string, options: { minInterval: number }) => Promise<void>;
+}
+
+/**
+ * Have the service worker look for new lessons in followed topics: on a schedule
+ * with Periodic Background Sync (installed PWA, Chromium), otherwise now — on app open.
+ */
+export async function scheduleAutoDownload(registration: ServiceWorkerRegistration) {
+  const periodicSync = (registration as ServiceWorkerRegistration & { periodicSync?: PeriodicSyncManager }).periodicSync;
+  if (periodicSync) {
+    try {
+      const status = await navigator.permissions.query({ name: 'periodic-background-sync' as PermissionName });
+      if (status.state === 'granted') {
+        await periodicSync.register(AUTO_DOWNLOAD_TAG, { minInterval: CHECK_INTERVAL_MS });
+        return;
+      }
+    } catch {
+      // Not allowed here — fall back to checking on open
+    }
+  }
+  requestAutoDownloadCheck();
+}
+
+/** Ask the service worker to check for new lessons right away */
+export function requestAutoDownloadCheck() {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.ready
+    .then((registration) => registration.active?.postMessage({ type: AUTO_DOWNLOAD_TAG }))
+    .catch(() => {});
+}
+
+export async function followTopic(topic: FollowedTopic) {
+  const { follows } = await getAutoDownloadSettings();
+  if (follows.some((f) => f.type === topic.type && f.id === topic.id)) return;
+  await updateAutoDownloadSettings({ follows: [...follows, topic] });
+  requestAutoDownloadCheck();
+}
+
+export async function unfollowTopic(type: FollowedTopic['type'], id: string) {
+  const { follows } = await getAutoDownloadSettings();
+  await updateAutoDownloadSettings({ follows: follows.filter((f) => !(f.type === type && f.id === id)) });
+}
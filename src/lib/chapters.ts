@@ -0,0 +1,95 @@
+import type { LessonAudio, LessonChapter } from '@/types/database';
+import type { AudioTrack, TrackChapter } from '@/stores/audio-store';
+import { getSegmentStarts } from '@/lib/lesson-timeline';
+
+/**
+ * Helpers for lesson chapters. In the DB a chapter's start_time is relative to
+ * its audio file; on a track it's kept that way too (plus the segment index in
+ * whole-lesson mode) and only resolved to track-level seconds when needed, since
+ * segment durations may not be known until the files load.
+ */
+
+export interface ChapterMark {
+  title: string;
+  time: number; // track-level seconds
+}
+
+// Pressing "previous" this far into a chapter restarts it instead of going back one
+const RESTART_CHAPTER_THRESHOLD = 3;
+
+/**
+ * Chapters for a single-file track. Chapters without an audio_id were set on the
+ * lesson's main audio_url, so they only apply when `isMainFile`.
+ */
+export function getFileChapters(
+  chapters: LessonChapter[] | undefined,
+  audioId: string | null,
+  isMainFile: boolean,
+): TrackChapter[] {
+  return (chapters || [])
+    .filter((c) => (c.audio_id ? c.audio_id === audioId : isMainFile))
+    .map((c) => ({ title: c.title, startTime: c.start_time }));
+}
+
+/** Chapters for a whole-lesson timeline built from `files` (in play order) */
+export function getTimelineChapters(
+  chapters: LessonChapter[] | undefined,
+  files: LessonAudio[],
+  mainAudioId: string | null,
+): TrackChapter[] {
+  const mainIndex = Math.max(0, files.findIndex((f) => f.id === mainAudioId));
+  const result: TrackChapter[] = [];
+  for (const c of chapters || []) {
+    const segment = c.audio_id ? files.findIndex((f) => f.id === c.audio_id) : mainIndex;
+    if (segment < 0) continue;
+    result.push({ title: c.title, startTime: c.start_time, segment });
+  }
+  return result;
+}
+
+/** Resolve a track's chapters to track-level times, sorted */
+export function getChapterMarks(track: AudioTrack | null | undefined): ChapterMark[] {
+  if (!track?.chapters?.length) return [];
+  const segments = track.segments;
+  const starts = segments ? getSegmentStarts(segments) : [];
+
+  const marks: ChapterMark[] = [];
+  for (const chapter of track.chapters) {
+    const segment = chapter.segment ?? 0;
+    if (segments) {
+      // Can't place a chapter until every file before it has a known length
+      if (segment >= segments.length) continue;
+      if (segments.slice(0, segment).some((s) => !s.duration)) continue;
+    }
+    marks.push({ title: chapter.title, time: (starts[segment] ?? 0) + chapter.startTime });
+  }
+  return marks.sort((a, b) => a.time - b.time);
+}
+
+/** Index of the chapter playing at `time`, or -1 before the first chapter */
+export function getCurrentChapterIndex(marks: ChapterMark[], time: number): number {
+  let index = -1;
+  for (let i = 0; i < marks.length; i++) {
+    // Small tolerance so a seek that lands just short of a chapter still counts as in it
+    if (marks[i].time <= time + 0.5) index = i;
+    else break;
+  }
+  return index;
+}
+
+/** Start of the next chapter after `time`, or null if there is none */
+export function getNextChapterTime(marks: ChapterMark[], time: number): number | null {
+  const next = marks.find((m) => m.time > time + 0.5);
+  return next ? next.time : null;
+}
+
+/**
+ * Where "previous" should go: the start of the current chapter, or the one before
+ * it when already near the start. Null when there's nowhere earlier to go.
+ */
+export function getPreviousChapterTime(marks: ChapterMark[], time: number): number | null {
+  const index = getCurrentChapterIndex(marks, time);
+  if (index < 0) return null;
+  if (time - marks[index].time > RESTART_CHAPTER_THRESHOLD) return marks[index].time;
+  return index > 0 ? marks[index - 1].time : null;
+}
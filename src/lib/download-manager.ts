@@ -0,0 +1,141 @@
+'use client';
+
+import { downloadLesson, isLessonDownloaded } from '@/lib/offline-storage';
+import { getMainAudioFile } from '@/lib/lesson-track';
+import { normalizeAudioUrl } from '@/lib/audio-url';
+import { getImages } from '@/actions/lessons';
+import { enforceStoragePolicy } from '@/lib/storage-policy';
+import { useDownloadStore, type DownloadItem, type DownloadRequest } from '@/stores/download-store';
+import type { LessonImage, LessonWithRelations } from '@/types/database';
+
+// Lessons downloaded at once — more only splits the same bandwidth and keeps more in memory
+const MAX_CONCURRENT = 2;
+
+/** Stream URLs of a lesson's images, in gallery order — how they're saved offline */
+export function getImageUrls(images: LessonImage[]): string[] {
+  return [...images]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map((image) => `/api/images/stream/${encodeURIComponent(image.file_key)}`);
+}
+
+/**
+ * The queue entry for a lesson's main audio, or null if it has none. Its images
+ * come along — looked up when the download starts if the lesson wasn't loaded with them.
+ */
+export function buildDownloadRequest(lesson: LessonWithRelations): DownloadRequest | null {
+  const audioUrl = normalizeAudioUrl(lesson.audio_url) || lesson.audio_url;
+  if (!audioUrl) return null;
+  const imagesSize = (lesson.images ?? []).reduce((sum, image) => sum + (image.file_size || 0), 0);
+  return {
+    lessonId: lesson.id,
+    title: lesson.title,
+    hebrewTitle: lesson.hebrew_title || lesson.title,
+    audioUrl,
+    duration: lesson.duration,
+    fileSize: (getMainAudioFile(lesson)?.file_size || lesson.file_size || 0) + imagesSize,
+    seriesName: lesson.series?.hebrew_name || lesson.series?.name || undefined,
+    date: lesson.date,
+    imageUrls: lesson.images ? getImageUrls(lesson.images) : undefined,
+  };
+}
+
+/** A lesson's image URLs from the server — none if that fails, the audio matters more */
+async function fetchImageUrls(lessonId: string): Promise<string[]> {
+  try {
+    const result = await getImages(lessonId);
+    return result.data ? getImageUrls(result.data) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Works through the download queue in the background: up to MAX_CONCURRENT
+ * lessons at a time, stopping in-flight downloads when the queue is paused or an
+ * item is removed. Start once (DownloadQueueRunner); it follows the store from then on.
+ */
+class DownloadManager {
+  private active = new Map<string, AbortController>();
+  private finished = new Set<string>(); // Downloaded since the queue was last empty
+  private started = false;
+
+  start() {
+    if (this.started) return;
+    this.started = true;
+    useDownloadStore.subscribe(() => this.pump());
+    this.pump();
+  }
+
+  private pump() {
+    const { items, paused } = useDownloadStore.getState();
+
+    for (const [lessonId, controller] of this.active) {
+      const item = items.find((i) => i.lessonId === lessonId);
+      if (paused || item?.status !== 'downloading') controller.abort();
+    }
+    if (paused) return;
+
+    for (const item of items) {
+      if (this.active.size >= MAX_CONCURRENT) break;
+      if (item.status === 'queued' && !this.active.has(item.lessonId)) void this.run(item);
+    }
+  }
+
+  private async run(item: DownloadItem) {
+    const controller = new AbortController();
+    // Registered before the status change, which re-enters pump()
+    this.active.set(item.lessonId, controller);
+    const store = useDownloadStore.getState();
+    store.setStatus(item.lessonId, 'downloading');
+
+    let lastPercent = 0;
+    const success = (await isLessonDownloaded(item.lessonId)) || (await downloadLesson(
+      item.lessonId,
+      item.audioUrl,
+      {
+        lessonId: item.lessonId,
+        title: item.title,
+        hebrewTitle: item.hebrewTitle,
+        audioUrl: item.audioUrl,
+        duration: item.duration,
+        fileSize: 0,
+        seriesName: item.seriesName,
+        date: item.date,
+        imageUrls: item.imageUrls ?? (await fetchImageUrls(item.lessonId)),
+      },
+      (percent) => {
+        if (percent === lastPercent) return;
+        lastPercent = percent;
+        useDownloadStore.getState().setProgress(item.lessonId, percent);
+      },
+      controller.signal
+    ));
+
+    this.active.delete(item.lessonId);
+    const current = useDownloadStore.getState().items.find((i) => i.lessonId === item.lessonId);
+    if (current?.status === 'downloading') {
+      // Aborted by a pause — back in line for when the queue resumes
+      const status = success ? 'done' : controller.signal.aborted ? 'queued' : 'error';
+      if (success) this.finished.add(item.lessonId);
+      useDownloadStore.getState().setStatus(item.lessonId, status);
+    } else {
+      this.pump();
+    }
+    this.makeRoom();
+  }
+
+  /**
+   * Once nothing is left to download, make room under the size limit, if one is
+   * set — never by removing what this run of the queue just brought in
+   */
+  private makeRoom() {
+    const { items } = useDownloadStore.getState();
+    if (this.active.size > 0 || items.some((i) => i.status === 'queued')) return;
+    if (this.finished.size === 0) return;
+    const keep = [...this.finished];
+    this.finished.clear();
+    void enforceStoragePolicy(keep);
+  }
+}
+
+export const downloadManager = new DownloadManager();
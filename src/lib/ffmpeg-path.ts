@@ -0,0 +1,5 @@
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+
+// The static binary bundled by @ffmpeg-installer for this platform (it ships in the
+// npm package, so it's deployed with the serverless functions) — FFMPEG_PATH overrides it
+export const FFMPEG_PATH = (process.env.FFMPEG_PATH || ffmpegInstaller.path).trim();
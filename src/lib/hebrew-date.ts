@@ -74,3 +74,8 @@ export function generateLessonMetadata(dateStr: string) {
     lessonType: 'שיעור יומי',
   };
 }
+
+/** Hebrew calendar date without nikud, e.g. "ל׳ תשרי תשפ״ו" */
+export function formatHebrewDate(date: Date): string {
+  return stripNikud(new HDate(date).renderGematriya());
+}
@@ -0,0 +1,51 @@
+import type { AudioSegment } from '@/stores/audio-store';
+
+/**
+ * Helpers for "whole lesson" playback, where a lesson's lesson_audio files are
+ * played back-to-back as one timeline. Times passed in and out are lesson-level
+ * seconds; localTime is the position inside a single file.
+ */
+
+/** Lesson-level start time of each segment */
+export function getSegmentStarts(segments: AudioSegment[]): number[] {
+  const starts: number[] = [];
+  let offset = 0;
+  for (const segment of segments) {
+    starts.push(offset);
+    offset += segment.duration || 0;
+  }
+  return starts;
+}
+
+export function getTimelineDuration(segments: AudioSegment[]): number {
+  return segments.reduce((sum, s) => sum + (s.duration || 0), 0);
+}
+
+/** Map a lesson-level time to the segment that contains it */
+export function locateInTimeline(
+  segments: AudioSegment[],
+  time: number,
+): { index: number; start: number; localTime: number } {
+  const starts = getSegmentStarts(segments);
+  let index = 0;
+  for (let i = 0; i < segments.length; i++) {
+    index = i;
+    // Stop at the segment containing `time` — or at one whose length isn't known yet,
+    // since nothing after it can be placed. Boundaries belong to the next segment.
+    const duration = segments[i].duration || 0;
+    if (!duration || time < starts[i] + duration) break;
+  }
+  const start = starts[index] ?? 0;
+  return { index, start, localTime: Math.max(0, time - start) };
+}
+
+/** Lesson-level time where the segment playing at `time` ends */
+export function getSegmentEnd(segments: AudioSegment[], time: number): number {
+  const { index, start } = locateInTimeline(segments, time);
+  return start + (segments[index]?.duration || 0);
+}
+
+/** Boundary positions between files, for seek bar markers */
+export function getSegmentBoundaries(segments: AudioSegment[]): number[] {
+  return getSegmentStarts(segments).slice(1);
+}
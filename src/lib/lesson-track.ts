@@ -0,0 +1,85 @@
+import type { LessonWithRelations, LessonAudio, PlayContext } from '@/types/database';
+import type { AudioTrack } from '@/stores/audio-store';
+import { normalizeAudioUrl, resolveOriginalAudioUrl } from '@/lib/audio-url';
+import { getFileChapters, getTimelineChapters } from '@/lib/chapters';
+
+/** The lesson_audio row behind lesson.audio_url (falls back to the first file) */
+export function getMainAudioFile(lesson: LessonWithRelations): LessonAudio | undefined {
+  const files = [...(lesson.audio_files || [])].sort((a, b) => a.sort_order - b.sort_order);
+  return files.find((f) => f.audio_url === lesson.audio_url) || files[0];
+}
+
+/**
+ * The player track for a whole lesson — all of its files as one timeline in
+ * whole-lesson mode, otherwise just the main file. Null when there's nothing to play.
+ */
+export function buildLessonTrack(
+  lesson: LessonWithRelations,
+  { wholeLessonMode, context }: { wholeLessonMode: boolean; context?: PlayContext },
+): AudioTrack | null {
+  const files = [...(lesson.audio_files || [])].sort((a, b) => a.sort_order - b.sort_order);
+  const mainAudioFile = getMainAudioFile(lesson);
+  const base = {
+    id: lesson.id,
+    title: lesson.title,
+    hebrewTitle: lesson.hebrew_title || lesson.title,
+    seriesName: lesson.series?.hebrew_name || lesson.series?.name || undefined,
+    seriesId: lesson.series_id || undefined,
+    categoryId: lesson.category_id || undefined,
+    date: lesson.date,
+    description: lesson.description || lesson.summary || undefined,
+    context,
+  };
+
+  if (wholeLessonMode && files.length > 1) {
+    const segments = files.map((audio) => ({
+      audioUrl: normalizeAudioUrl(audio.audio_url) || audio.audio_url,
+      audioFileId: audio.id,
+      duration: audio.duration || 0,
+      loudness: audio.loudness ?? undefined,
+      peaksUrl: audio.peaks_url || undefined,
+      label: audio.audio_type || audio.original_name || undefined,
+    }));
+    return {
+      ...base,
+      audioUrl: segments[0].audioUrl,
+      duration: segments.reduce((sum, seg) => sum + seg.duration, 0) || lesson.duration,
+      segments,
+      chapters: getTimelineChapters(lesson.chapters, files, mainAudioFile?.id ?? null),
+    };
+  }
+
+  const audioUrl = lesson.audio_url || mainAudioFile?.audio_url;
+  if (!audioUrl) return null;
+  return {
+    ...base,
+    audioFileId: mainAudioFile?.id,
+    audioUrl: normalizeAudioUrl(audioUrl) || audioUrl,
+    audioUrlFallback: normalizeAudioUrl(lesson.audio_url_fallback) || undefined,
+    audioUrlOriginal: resolveOriginalAudioUrl(lesson.audio_url_original) || undefined,
+    duration: lesson.duration,
+    loudness: mainAudioFile?.loudness ?? undefined,
+    peaksUrl: mainAudioFile?.peaks_url || undefined,
+    chapters: getFileChapters(lesson.chapters, mainAudioFile?.id ?? null, true),
+  };
+}
+
+/** The player track for one of a lesson's files, played on its own */
+export function buildFileTrack(lesson: LessonWithRelations, audio: LessonAudio): AudioTrack {
+  return {
+    id: lesson.id,
+    title: lesson.title,
+    hebrewTitle: lesson.hebrew_title || lesson.title,
+    audioUrl: normalizeAudioUrl(audio.audio_url) || audio.audio_url,
+    audioFileId: audio.id,
+    duration: audio.duration || lesson.duration,
+    seriesName: lesson.series?.hebrew_name || lesson.series?.name || undefined,
+    seriesId: lesson.series_id || undefined,
+    categoryId: lesson.category_id || undefined,
+    date: lesson.date,
+    description: lesson.description || lesson.summary || undefined,
+    loudness: audio.loudness ?? undefined,
+    peaksUrl: audio.peaks_url || undefined,
+    chapters: getFileChapters(lesson.chapters, audio.id, audio.id === getMainAudioFile(lesson)?.id),
+  };
+}
@@ -0,0 +1,114 @@
+import type { AudioTrack } from '@/stores/audio-store';
+
+// Shorter stretches (a tap on play, scrubbing around) aren't worth a history entry
+const MIN_SESSION_SECONDS = 10;
+// Position this far from where steady playback would have put it = the listener jumped
+const JUMP_TOLERANCE = 5;
+
+interface OpenSession {
+  key: string;
+  lessonId: string;
+  audioFileId: string | null;
+  wholeLesson: boolean;
+  startedAt: number;
+  startPosition: number;
+  speed: number;
+  lastPosition: number;
+  lastUpdateAt: number;
+}
+
+/**
+ * Records listening sessions — stretches of continuous playback of one track at
+ * one speed. A pause, track change, speed change or seek ends the current one;
+ * each finished session is sent to /api/history for the History page.
+ *
+ * Module-level because useAudioPlayer is mounted in several components at once:
+ * start() for the session that's already open and finish() with none open are no-ops.
+ */
+class ListeningRecorder {
+  private session: OpenSession | null = null;
+  private listening = false;
+
+  start(track: AudioTrack, position: number, speed: number) {
+    if (this.isRecording(track, speed)) return;
+    this.finish();
+
+    const now = Date.now();
+    this.session = {
+      key: getSessionKey(track, speed),
+      lessonId: track.id,
+      audioFileId: track.segments ? null : track.audioFileId ?? null,
+      wholeLesson: !!track.segments,
+      startedAt: now,
+      startPosition: position,
+      speed,
+      lastPosition: position,
+      lastUpdateAt: now,
+    };
+    this.listenForPageHide();
+  }
+
+  isRecording(track: AudioTrack, speed: number): boolean {
+    return this.session?.key === getSessionKey(track, speed);
+  }
+
+  /** Playback position report — a jump splits the session at the point it happened */
+  update(position: number) {
+    const s = this.session;
+    if (!s) return;
+    const now = Date.now();
+    const expected = s.lastPosition + ((now - s.lastUpdateAt) / 1000) * s.speed;
+    if (Math.abs(position - expected) > JUMP_TOLERANCE) {
+      this.send(s, s.lastPosition, s.lastUpdateAt);
+      this.session = { ...s, startedAt: now, startPosition: position };
+    }
+    this.session!.lastPosition = position;
+    this.session!.lastUpdateAt = now;
+  }
+
+  finish(position?: number) {
+    const s = this.session;
+    if (!s) return;
+    this.session = null;
+    this.send(s, position ?? this.estimatePosition(s), Date.now());
+  }
+
+  /** Where steady playback has got to since the last position report */
+  private estimatePosition(s: OpenSession): number {
+    return s.lastPosition + ((Date.now() - s.lastUpdateAt) / 1000) * s.speed;
+  }
+
+  private send(s: OpenSession, endPosition: number, endedAt: number) {
+    if (endPosition - s.startPosition < MIN_SESSION_SECONDS) return;
+    fetch('/api/history', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        lesson_id: s.lessonId,
+        audio_file_id: s.audioFileId,
+        whole_lesson: s.wholeLesson,
+        started_at: new Date(s.startedAt).toISOString(),
+        ended_at: new Date(endedAt).toISOString(),
+        start_position: s.startPosition,
+        end_position: endPosition,
+        playback_speed: s.speed,
+      }),
+      // Survives the page closing mid-session
+      keepalive: true,
+    }).catch(() => {
+      // Silent fail - history is best-effort
+    });
+  }
+
+  private listenForPageHide() {
+    if (this.listening || typeof window === 'undefined') return;
+    this.listening = true;
+    window.addEventListener('pagehide', () => this.finish());
+  }
+}
+
+function getSessionKey(track: AudioTrack, speed: number): string {
+  return [track.id, track.segments ? 'lesson' : track.audioFileId ?? track.audioUrl, speed].join('|');
+}
+
+export const listeningRecorder = new ListeningRecorder();
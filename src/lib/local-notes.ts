@@ -7,6 +7,10 @@ export interface LocalNote {
 
 const STORAGE_PREFIX = 'tora-notes-';
 
+// Fired on window (detail: lessonId) whenever a lesson's notes change, so open
+// note lists can refresh — e.g. after a note is added from a keyboard shortcut
+export const NOTES_CHANGED_EVENT = 'tora-notes-changed';
+
 function getStorageKey(lessonId: string): string {
   return `${STORAGE_PREFIX}${lessonId}`;
 }
@@ -26,6 +30,7 @@ function saveNotes(lessonId: string, notes: LocalNote[]): void {
   if (typeof window === 'undefined') return;
   try {
     localStorage.setItem(getStorageKey(lessonId), JSON.stringify(notes));
+    window.dispatchEvent(new CustomEvent(NOTES_CHANGED_EVENT, { detail: lessonId }));
   } catch {
     // Storage full or unavailable — silent fail
   }
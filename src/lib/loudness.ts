@@ -0,0 +1,75 @@
+import { spawn } from 'child_process';
+import { FFMPEG_PATH } from '@/lib/ffmpeg-path';
+
+// Runs after the upload response is sent, within the route's maxDuration
+const MEASURE_TIMEOUT = 240000; // 4 min
+
+/**
+ * Measure the integrated loudness (EBU R128, LUFS) of an audio file with ffmpeg's
+ * ebur128 filter. `input` may be a local path or an http(s) URL — pass a presigned
+ * R2 URL so ffmpeg streams the file instead of us buffering it in memory.
+ *
+ * Best-effort: returns null if ffmpeg is missing, times out, or the file can't be
+ * decoded. Callers should treat a null loudness as "play at unity gain".
+ */
+export function measureLoudness(input: string): Promise<number | null> {
+  return new Promise((resolve) => {
+    let stderr = '';
+    let settled = false;
+
+    const finish = (value: number | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      resolve(value);
+    };
+
+    const proc = spawn(FFMPEG_PATH, [
+      '-hide_banner',
+      '-nostats',
+      '-i', input,
+      '-vn',
+      // Per-frame lines at verbose level, so only the summary reaches stderr
+      '-af', 'ebur128=framelog=verbose',
+      '-f', 'null',
+      '-',
+    ]);
+
+    const timer = setTimeout(() => {
+      proc.kill('SIGKILL');
+      finish(null);
+    }, MEASURE_TIMEOUT);
+
+    proc.stderr.on('data', (data: Buffer) => {
+      stderr += data.toString();
+      // Only the summary at the end matters — don't let the log grow unbounded
+      if (stderr.length > 64 * 1024) stderr = stderr.slice(-16 * 1024);
+    });
+
+    proc.on('error', (err) => {
+      console.warn('Loudness measurement unavailable:', err.message);
+      finish(null);
+    });
+
+    proc.on('close', (code) => {
+      if (code !== 0) {
+        finish(null);
+        return;
+      }
+      finish(parseIntegratedLoudness(stderr));
+    });
+  });
+}
+
+/**
+ * Pull "I: -23.4 LUFS" out of the ebur128 summary block.
+ * Silent files report -70 LUFS (the gating floor) — treat those as unmeasurable.
+ */
+function parseIntegratedLoudness(log: string): number | null {
+  const summary = log.slice(log.lastIndexOf('Summary:'));
+  const match = summary.match(/I:\s+(-?\d+(?:\.\d+)?)\s+LUFS/);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  if (!Number.isFinite(value) || value <= -70) return null;
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,22 @@
+/**
+ * Connection checks via the Network Information API (Chromium only). Where it's
+ * missing nothing is known about the connection, so it's treated as unmetered.
+ */
+
+interface NetworkInformation {
+  type?: string;
+  saveData?: boolean;
+}
+
+function getConnection(): NetworkInformation | null {
+  if (typeof navigator === 'undefined') return null;
+  return (navigator as Navigator & { connection?: NetworkInformation }).connection ?? null;
+}
+
+/** False on cellular or with Data Saver on — don't spend the listener's data on guesses */
+export function isUnmeteredConnection(): boolean {
+  const connection = getConnection();
+  if (!connection) return true;
+  if (connection.saveData) return false;
+  return connection.type !== 'cellular';
+}
@@ -0,0 +1,184 @@
+'use client';
+
+import { openDB, type IDBPDatabase } from 'idb';
+import type { Category, Lesson, LessonWithRelations, Series } from '@/types/database';
+
+const DB_NAME = 'tora-player-catalog';
+const DB_VERSION = 1;
+const LESSON_STORE = 'lessons';
+const CATEGORY_STORE = 'categories';
+const SERIES_STORE = 'series';
+const META_STORE = 'meta';
+const SYNCED_AT_KEY = 'synced-at';
+// Checked again on app open or reconnect once it's older than this
+const REFRESH_INTERVAL_MS = 15 * 60 * 1000;
+
+/** A published lesson as kept in the snapshot — what a lesson card and search need */
+export type CatalogLesson = Pick<
+  Lesson,
+  | 'id'
+  | 'title'
+  | 'hebrew_title'
+  | 'description'
+  | 'date'
+  | 'hebrew_date'
+  | 'parsha'
+  | 'duration'
+  | 'audio_url'
+  | 'series_id'
+  | 'category_id'
+  | 'part_number'
+  | 'is_published'
+  | 'updated_at'
+> & {
+  audio_types: string[];
+};
+
+export interface CatalogSnapshot {
+  lessons: CatalogLesson[]; // Newest first
+  categories: Category[];
+  series: Series[];
+}
+
+interface CatalogResponse {
+  lessons: CatalogLesson[];
+  lesson_ids: string[];
+  categories: Category[];
+  series: Series[];
+  synced_at: string;
+}
+
+let dbPromise: Promise<IDBPDatabase> | null = null;
+
+function getDB() {
+  if (!dbPromise) {
+    dbPromise = openDB(DB_NAME, DB_VERSION, {
+      upgrade(db) {
+        for (const name of [LESSON_STORE, CATEGORY_STORE, SERIES_STORE]) {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' });
+          }
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+      },
+    });
+  }
+  return dbPromise;
+}
+
+let syncing: Promise<void> | null = null;
+
+/**
+ * Bring the snapshot up to date: everything the first time, then only the
+ * lessons changed since the last sync. Skipped if it synced recently.
+ */
+export function syncCatalog(): Promise<void> {
+  if (!syncing) {
+    syncing = runSync()
+      .catch((error) => console.error('Catalog sync failed:', error))
+      .finally(() => {
+        syncing = null;
+      });
+  }
+  return syncing;
+}
+
+async function runSync() {
+  const db = await getDB();
+  const syncedAt: string | undefined = await db.get(META_STORE, SYNCED_AT_KEY);
+  if (syncedAt && Date.now() - new Date(syncedAt).getTime() < REFRESH_INTERVAL_MS) return;
+
+  const res = await fetch(`/api/catalog${syncedAt ? `?since=${encodeURIComponent(syncedAt)}` : ''}`);
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  const catalog: CatalogResponse = await res.json();
+
+  const published = new Set(catalog.lesson_ids);
+  const tx = db.transaction([LESSON_STORE, CATEGORY_STORE, SERIES_STORE, META_STORE], 'readwrite');
+  const lessonStore = tx.objectStore(LESSON_STORE);
+
+  for (const lesson of catalog.lessons) {
+    if (lesson.is_published) await lessonStore.put(lesson);
+    else await lessonStore.delete(lesson.id);
+  }
+  // Deleted on the server since
+  for (const id of await lessonStore.getAllKeys()) {
+    if (!published.has(id as string)) await lessonStore.delete(id);
+  }
+
+  for (const [name, rows] of [[CATEGORY_STORE, catalog.categories], [SERIES_STORE, catalog.series]] as const) {
+    const store = tx.objectStore(name);
+    await store.clear();
+    for (const row of rows) await store.put(row);
+  }
+
+  await tx.objectStore(META_STORE).put(catalog.synced_at, SYNCED_AT_KEY);
+  await tx.done;
+}
+
+export async function getCatalogSnapshot(): Promise<CatalogSnapshot> {
+  try {
+    const db = await getDB();
+    const [lessons, categories, series] = await Promise.all([
+      db.getAll(LESSON_STORE) as Promise<CatalogLesson[]>,
+      db.getAll(CATEGORY_STORE) as Promise<Category[]>,
+      db.getAll(SERIES_STORE) as Promise<Series[]>,
+    ]);
+    return {
+      lessons: lessons.sort((a, b) => b.date.localeCompare(a.date)),
+      categories: categories.sort((a, b) => a.sort_order - b.sort_order),
+      series,
+    };
+  } catch {
+    return { lessons: [], categories: [], series: [] };
+  }
+}
+
+export interface CatalogFilter {
+  query?: string;
+  audioType?: string;
+  categoryId?: string; // Includes its sub-categories, like the category page
+}
+
+/** The snapshot's lessons matching `filter` — title or description for a query, like the server search */
+export function filterCatalogLessons(snapshot: CatalogSnapshot, filter: CatalogFilter): CatalogLesson[] {
+  const query = filter.query?.trim().toLowerCase();
+  const categoryIds = filter.categoryId
+    ? new Set([filter.categoryId, ...snapshot.categories.filter((c) => c.parent_id === filter.categoryId).map((c) => c.id)])
+    : null;
+
+  return snapshot.lessons.filter((lesson) => {
+    if (categoryIds && !(lesson.category_id && categoryIds.has(lesson.category_id))) return false;
+    if (filter.audioType && !lesson.audio_types.includes(filter.audioType)) return false;
+    if (query) {
+      const text = [lesson.title, lesson.hebrew_title, lesson.description].filter(Boolean).join(' ').toLowerCase();
+      if (!text.includes(query)) return false;
+    }
+    return true;
+  });
+}
+
+/** A snapshot lesson in the shape lesson cards take — fields the snapshot doesn't keep are empty */
+export function toLessonWithRelations(lesson: CatalogLesson, snapshot: CatalogSnapshot): LessonWithRelations {
+  return {
+    audio_url_fallback: null,
+    audio_url_original: null,
+    file_size: 0,
+    codec: '',
+    recorded_at: null,
+    parent_lesson_id: null,
+    source_text: null,
+    source_type: 'upload',
+    teacher: null,
+    location: null,
+    summary: null,
+    lesson_type: null,
+    seder_number: null,
+    published_at: null,
+    created_at: lesson.updated_at,
+    ...lesson,
+    series: snapshot.series.find((s) => s.id === lesson.series_id) ?? null,
+    category: snapshot.categories.find((c) => c.id === lesson.category_id) ?? null,
+  };
+}
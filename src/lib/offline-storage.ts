@@ -1,169 +1,357 @@
 'use client';
 
-import { openDB, type IDBPDatabase } from 'idb';
+import { openDB, type IDBPDatabase, type IDBPTransaction } from 'idb';
 import { normalizeAudioUrl } from '@/lib/audio-url';
 
+// The service worker (public/sw.js) opens the same database — keep its version
+// and stores in step with these
 const DB_NAME = 'tora-player-offline';
-const DB_VERSION = 1;
+const DB_VERSION = 5;
 const AUDIO_STORE = 'audio-cache';
 const META_STORE = 'lesson-meta';
+// A downloaded lesson's images, keyed by their stream URL — served from there by the service worker
+const IMAGE_STORE = 'image-cache';
+// Looks up a download by the stream URL it was fetched from — how the service worker finds it
+const AUDIO_URL_INDEX = 'by-audio-url';
+// Downloads in progress: what's been received so far, kept across failures and reloads
+const PARTIAL_META_STORE = 'partial-meta';
+const PARTIAL_CHUNK_STORE = 'partial-chunks'; // keyed [lessonId, byte offset]
+const SETTINGS_STORE = 'settings';
+const AUTO_DOWNLOAD_KEY = 'auto-download';
+const STORAGE_POLICY_KEY = 'storage-policy';
+const LISTENING_KEY = 'listening';
 
-interface OfflineLessonMeta {
+export interface OfflineLessonMeta {
   lessonId: string;
   title: string;
   hebrewTitle: string;
   audioUrl: string;
   duration: number;
-  fileSize: number;
+  fileSize: number; // Audio and images together
   downloadedAt: string;
   seriesName?: string;
   date: string;
+  autoDownloaded?: boolean; // Fetched by the service worker for a followed category or series
+  pinned?: boolean; // Never removed automatically
+  imageUrls?: string[]; // Stream URLs of the lesson's images (keys in IMAGE_STORE)
 }
 
+export interface FollowedTopic {
+  type: 'category' | 'series';
+  id: string;
+  name: string;
+}
+
+/** What the service worker auto-downloads, and how much of it to keep */
+export interface AutoDownloadSettings {
+  follows: FollowedTopic[];
+  wifiOnly: boolean;
+  maxLessons: number; // Auto-downloaded lessons kept — the least recently played go first
+  maxStorageMB: number;
+  lastCheckedAt: string | null; // Set by the service worker
+}
+
+/** Limits for automatic cleanup of downloads — null turns a rule off */
+export interface StoragePolicy {
+  maxSizeMB: number | null;
+  removeCompletedAfterDays: number | null;
+}
+
+/**
+ * What the storage policy goes by from the listening progress, for the downloaded
+ * lessons — the service worker applies it too, and can't read the progress store
+ */
+export interface ListeningSnapshot {
+  lessons: Record<string, { lastPlayed: string; listenedThrough: boolean }>;
+  playingId: string | null; // Never removed while it plays
+}
+
+export const DEFAULT_STORAGE_POLICY: StoragePolicy = {
+  maxSizeMB: null,
+  removeCompletedAfterDays: null,
+};
+
+export const DEFAULT_AUTO_DOWNLOAD_SETTINGS: AutoDownloadSettings = {
+  follows: [],
+  wifiOnly: true,
+  maxLessons: 10,
+  maxStorageMB: 1024,
+  lastCheckedAt: null,
+};
+
 let dbPromise: Promise<IDBPDatabase> | null = null;
 
 function getDB() {
   if (!dbPromise) {
     dbPromise = openDB(DB_NAME, DB_VERSION, {
-      upgrade(db) {
+      upgrade(db, oldVersion, _newVersion, transaction) {
         if (!db.objectStoreNames.contains(META_STORE)) {
           db.createObjectStore(META_STORE, { keyPath: 'lessonId' });
         }
+        const metaStore = transaction.objectStore(META_STORE);
+        if (!metaStore.indexNames.contains(AUDIO_URL_INDEX)) {
+          metaStore.createIndex(AUDIO_URL_INDEX, 'audioUrl');
+        }
+        if (oldVersion > 0 && oldVersion < 4) {
+          void normalizeDownloadUrls(transaction);
+        }
         if (!db.objectStoreNames.contains(AUDIO_STORE)) {
           db.createObjectStore(AUDIO_STORE);
         }
+        if (!db.objectStoreNames.contains(PARTIAL_META_STORE)) {
+          db.createObjectStore(PARTIAL_META_STORE, { keyPath: 'lessonId' });
+        }
+        if (!db.objectStoreNames.contains(PARTIAL_CHUNK_STORE)) {
+          db.createObjectStore(PARTIAL_CHUNK_STORE);
+        }
+        if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+          db.createObjectStore(SETTINGS_STORE);
+        }
+        if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+          db.createObjectStore(IMAGE_STORE);
+        }
+      },
+      // A newer version is opening (another tab after an update) — step aside; the next call reopens
+      blocking() {
+        void dbPromise?.then((db) => db.close());
+        dbPromise = null;
+      },
+      // Another tab or the service worker still has an older version open
+      blocked() {
+        console.warn('Offline storage upgrade waiting for other tabs to close');
+      },
+      terminated() {
+        dbPromise = null;
       },
     });
   }
   return dbPromise;
 }
 
-// ── Blob URL Cache ──
-// Prevents memory leaks: one blob URL per lesson, reused across calls
-const blobUrlCache = new Map<string, string>();
-
 /**
- * Get a blob URL for an offline lesson.
- * Caches the URL so repeated calls don't create new object URLs.
+ * Downloads from before v4 kept the URL they were fetched from, but the service
+ * worker looks them up by the stream URL they're served at — rewrite them.
+ * Runs inside the upgrade transaction (sw.js does the same when it upgrades first).
  */
-export async function getOfflineAudioUrl(lessonId: string): Promise<string | null> {
-  try {
-    // Return cached blob URL if it exists
-    const cached = blobUrlCache.get(lessonId);
-    if (cached) return cached;
+async function normalizeDownloadUrls(transaction: IDBPTransaction<unknown, string[], 'versionchange'>) {
+  let cursor = await transaction.objectStore(META_STORE).openCursor();
+  while (cursor) {
+    const meta = cursor.value as OfflineLessonMeta;
+    const audioUrl = normalizeAudioUrl(meta.audioUrl) || meta.audioUrl;
+    if (audioUrl !== meta.audioUrl) await cursor.update({ ...meta, audioUrl });
+    cursor = await cursor.continue();
+  }
+}
 
-    const db = await getDB();
-    const blob = await db.get(AUDIO_STORE, lessonId);
-    if (!blob) return null;
+// ── Partial downloads ──
 
-    const url = URL.createObjectURL(blob);
-    blobUrlCache.set(lessonId, url);
-    return url;
-  } catch {
-    return null;
-  }
+interface PartialDownload {
+  lessonId: string;
+  url: string;
+  etag: string | null;
+  totalSize: number; // 0 when the server didn't say
+  received: number; // Bytes saved in PARTIAL_CHUNK_STORE, always from the start of the file
 }
 
-/**
- * Revoke a specific lesson's blob URL to free memory.
- */
-export function revokeOfflineAudioUrl(lessonId: string) {
-  const url = blobUrlCache.get(lessonId);
-  if (url) {
-    URL.revokeObjectURL(url);
-    blobUrlCache.delete(lessonId);
-  }
+function chunkRange(lessonId: string) {
+  return IDBKeyRange.bound([lessonId, 0], [lessonId, Infinity]);
+}
+
+async function getPartialDownload(lessonId: string): Promise<PartialDownload | undefined> {
+  const db = await getDB();
+  return db.get(PARTIAL_META_STORE, lessonId);
+}
+
+async function discardPartialDownload(lessonId: string) {
+  const db = await getDB();
+  await db.delete(PARTIAL_CHUNK_STORE, chunkRange(lessonId));
+  await db.delete(PARTIAL_META_STORE, lessonId);
+}
+
+/** Append a received byte range, then record it — a crash in between only loses that range */
+async function savePartialChunk(partial: PartialDownload, chunk: Blob) {
+  const db = await getDB();
+  await db.put(PARTIAL_CHUNK_STORE, chunk, [partial.lessonId, partial.received]);
+  partial.received += chunk.size;
+  await db.put(PARTIAL_META_STORE, partial);
 }
 
+/** "bytes 500-999/1000" → { start: 500, total: 1000 } (total 0 if unknown) */
+function parseContentRange(header: string | null): { start: number; total: number } | null {
+  const match = header?.match(/^bytes (\d+)-\d+\/(\d+|\*)$/);
+  if (!match) return null;
+  return { start: Number(match[1]), total: match[2] === '*' ? 0 : Number(match[2]) };
+}
+
+// ── Lesson images ──
+
 /**
- * Revoke all cached blob URLs (e.g., on unload or track change).
+ * Save the images at `urls`, returning the ones that made it and their total size.
+ * Images are extras: one that fails is left out (and loads from the network when
+ * online) rather than failing the lesson.
  */
-export function revokeAllOfflineAudioUrls() {
-  for (const [, url] of blobUrlCache) {
-    URL.revokeObjectURL(url);
+async function downloadImages(urls: string[], signal?: AbortSignal): Promise<{ urls: string[]; size: number }> {
+  const db = await getDB();
+  const saved: string[] = [];
+  let size = 0;
+  for (const url of urls) {
+    try {
+      const response = await fetch(url, { signal });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const blob = await response.blob();
+      await db.put(IMAGE_STORE, blob, url);
+      saved.push(url);
+      size += blob.size;
+    } catch (error) {
+      if (signal?.aborted) break;
+      console.error(`Image download failed: ${url}`, error);
+    }
   }
-  blobUrlCache.clear();
+  return { urls: saved, size };
+}
+
+async function deleteImages(urls: string[]) {
+  const db = await getDB();
+  await Promise.all(urls.map((url) => db.delete(IMAGE_STORE, url)));
 }
 
-// ── Download with retry and cleanup ──
+// ── Download with retry and resume ──
 
 const MAX_RETRIES = 2;
 const RETRY_DELAY_MS = 2000;
+// Received bytes are written to IndexedDB in pieces of about this size
+const CHUNK_FLUSH_BYTES = 2 * 1024 * 1024;
 
+/**
+ * Download a lesson's audio into IndexedDB. Bytes are saved as they arrive, so a
+ * download that fails, is aborted through `signal` or is cut off by a reload picks
+ * up where it stopped next time, with a Range request. It only counts as downloaded
+ * once the assembled file matches the size the server announced. The images listed
+ * in `meta.imageUrls` are saved along with it.
+ */
 export async function downloadLesson(
   lessonId: string,
   audioUrl: string,
   meta: Omit<OfflineLessonMeta, 'downloadedAt'>,
-  onProgress?: (percent: number) => void
+  onProgress?: (percent: number) => void,
+  signal?: AbortSignal
 ): Promise<boolean> {
   // Normalize URL to use the streaming proxy
   const normalizedUrl = normalizeAudioUrl(audioUrl) || audioUrl;
 
   for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    if (signal?.aborted) return false;
     try {
       if (attempt > 0) {
         // Wait before retry with exponential backoff
         await new Promise((r) => setTimeout(r, RETRY_DELAY_MS * attempt));
-        onProgress?.(0); // Reset progress on retry
       }
 
-      const response = await fetch(normalizedUrl);
+      let partial = await getPartialDownload(lessonId);
+      if (partial && partial.url !== normalizedUrl) {
+        await discardPartialDownload(lessonId);
+        partial = undefined;
+      }
+
+      const headers: HeadersInit = partial?.received ? { Range: `bytes=${partial.received}-` } : {};
+      const response = await fetch(normalizedUrl, { headers, signal });
+      if (response.status === 416 && partial) {
+        // Nothing left past what we have — it doesn't match the file any more
+        await discardPartialDownload(lessonId);
+      }
       if (!response.ok) throw new Error(`HTTP ${response.status}`);
 
+      const etag = response.headers.get('ETag');
       const contentLength = Number(response.headers.get('content-length') || 0);
+
+      if (partial && response.status === 206) {
+        // Resuming — only if it's still the same file and continues exactly where we stopped
+        const range = parseContentRange(response.headers.get('Content-Range'));
+        if (!range || (partial.etag && etag && partial.etag !== etag) || range.start !== partial.received) {
+          await discardPartialDownload(lessonId);
+          throw new Error('File changed since the download started');
+        }
+        if (range.total) partial.totalSize = range.total;
+      } else {
+        // A full response — start over from the first byte
+        if (partial) await discardPartialDownload(lessonId);
+        partial = { lessonId, url: normalizedUrl, etag, totalSize: contentLength, received: 0 };
+        const db = await getDB();
+        await db.put(PARTIAL_META_STORE, partial);
+      }
+
       const reader = response.body?.getReader();
       if (!reader) throw new Error('No readable stream');
 
-      const chunks: Uint8Array[] = [];
-      let received = 0;
+      const download = partial;
+      let buffer: Uint8Array[] = [];
+      let buffered = 0;
+      const flush = async () => {
+        if (buffered === 0) return;
+        const chunk = new Blob(buffer as BlobPart[]);
+        buffer = [];
+        buffered = 0;
+        await savePartialChunk(download, chunk);
+      };
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        chunks.push(value);
-        received += value.length;
-        if (contentLength > 0 && onProgress) {
-          onProgress(Math.round((received / contentLength) * 100));
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer.push(value);
+          buffered += value.length;
+          if (buffered >= CHUNK_FLUSH_BYTES) await flush();
+          if (download.totalSize > 0 && onProgress) {
+            onProgress(Math.round(((download.received + buffered) / download.totalSize) * 100));
+          }
         }
+      } finally {
+        // Keep whatever arrived before a failure or abort
+        await flush();
       }
 
-      // Integrity check: if server told us content-length, verify we got it all
-      if (contentLength > 0 && received < contentLength * 0.95) {
-        throw new Error(`Incomplete download: got ${received}/${contentLength} bytes`);
+      // Integrity check: the whole file, no more and no less
+      if (download.totalSize > 0 && download.received !== download.totalSize) {
+        throw new Error(`Incomplete download: got ${download.received}/${download.totalSize} bytes`);
       }
 
-      const blob = new Blob(chunks as BlobPart[]);
       const db = await getDB();
+      const chunks: Blob[] = await db.getAll(PARTIAL_CHUNK_STORE, chunkRange(lessonId));
+      const blob = new Blob(chunks);
+      if (download.totalSize > 0 && blob.size !== download.totalSize) {
+        await discardPartialDownload(lessonId);
+        throw new Error(`Assembled file is ${blob.size} bytes, expected ${download.totalSize}`);
+      }
+
+      const images = await downloadImages(meta.imageUrls ?? [], signal);
+      // Cancelled part way through the images — not downloaded; the audio stays saved to resume from
+      if (signal?.aborted) {
+        await deleteImages(images.urls);
+        return false;
+      }
 
       // Store audio blob
       await db.put(AUDIO_STORE, blob, lessonId);
 
-      // Store metadata
+      // Store metadata — audioUrl is what the service worker serves it at
       await db.put(META_STORE, {
         ...meta,
+        audioUrl: normalizedUrl,
         lessonId,
-        fileSize: blob.size,
+        fileSize: blob.size + images.size,
+        imageUrls: images.urls,
         downloadedAt: new Date().toISOString(),
       });
 
+      await discardPartialDownload(lessonId);
       return true;
     } catch (error) {
+      if (signal?.aborted) return false;
       console.error(`Download attempt ${attempt + 1} failed:`, error);
-
-      // On final attempt failure, clean up any partial data
-      if (attempt === MAX_RETRIES) {
-        try {
-          const db = await getDB();
-          await db.delete(AUDIO_STORE, lessonId);
-          await db.delete(META_STORE, lessonId);
-        } catch {
-          // Cleanup itself failed — nothing we can do
-        }
-        return false;
-      }
     }
   }
 
+  // What arrived stays saved — the next try resumes from there
   return false;
 }
 
@@ -191,16 +379,28 @@ export async function getDownloadedLessons(): Promise<OfflineLessonMeta[]> {
 
 export async function deleteDownloadedLesson(lessonId: string): Promise<void> {
   try {
-    // Revoke blob URL first to free memory
-    revokeOfflineAudioUrl(lessonId);
     const db = await getDB();
+    const meta: OfflineLessonMeta | undefined = await db.get(META_STORE, lessonId);
     await db.delete(AUDIO_STORE, lessonId);
     await db.delete(META_STORE, lessonId);
+    await deleteImages(meta?.imageUrls ?? []);
+    await discardPartialDownload(lessonId);
   } catch {
     console.error('Delete offline lesson error');
   }
 }
 
+/** Pin a download so storage cleanup never removes it */
+export async function setLessonPinned(lessonId: string, pinned: boolean): Promise<void> {
+  try {
+    const db = await getDB();
+    const meta: OfflineLessonMeta | undefined = await db.get(META_STORE, lessonId);
+    if (meta) await db.put(META_STORE, { ...meta, pinned });
+  } catch {
+    console.error('Pin offline lesson error');
+  }
+}
+
 export async function getStorageUsage(): Promise<{ used: number; quota: number }> {
   try {
     if ('storage' in navigator && 'estimate' in navigator.storage) {
@@ -215,3 +415,53 @@ export async function getStorageUsage(): Promise<{ used: number; quota: number }
   }
   return { used: 0, quota: 0 };
 }
+
+// ── Auto-download settings (read by the service worker) ──
+
+export async function getAutoDownloadSettings(): Promise<AutoDownloadSettings> {
+  try {
+    const db = await getDB();
+    const saved = await db.get(SETTINGS_STORE, AUTO_DOWNLOAD_KEY);
+    return { ...DEFAULT_AUTO_DOWNLOAD_SETTINGS, ...saved };
+  } catch {
+    return DEFAULT_AUTO_DOWNLOAD_SETTINGS;
+  }
+}
+
+/** Merge `changes` into the saved settings — re-read first, the service worker writes lastCheckedAt */
+export async function updateAutoDownloadSettings(
+  changes: Partial<AutoDownloadSettings>
+): Promise<AutoDownloadSettings> {
+  const settings = { ...(await getAutoDownloadSettings()), ...changes };
+  const db = await getDB();
+  await db.put(SETTINGS_STORE, settings, AUTO_DOWNLOAD_KEY);
+  return settings;
+}
+
+// ── Storage policy ──
+
+export async function getStoragePolicy(): Promise<StoragePolicy> {
+  try {
+    const db = await getDB();
+    const saved = await db.get(SETTINGS_STORE, STORAGE_POLICY_KEY);
+    return { ...DEFAULT_STORAGE_POLICY, ...saved };
+  } catch {
+    return DEFAULT_STORAGE_POLICY;
+  }
+}
+
+export async function updateStoragePolicy(changes: Partial<StoragePolicy>): Promise<StoragePolicy> {
+  const policy = { ...(await getStoragePolicy()), ...changes };
+  const db = await getDB();
+  await db.put(SETTINGS_STORE, policy, STORAGE_POLICY_KEY);
+  return policy;
+}
+
+export async function saveListeningSnapshot(snapshot: ListeningSnapshot): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.put(SETTINGS_STORE, snapshot, LISTENING_KEY);
+  } catch {
+    console.error('Save listening snapshot error');
+  }
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { openDB, type IDBPDatabase } from 'idb';
+
+const DB_NAME = 'tora-player-uploads';
+const DB_VERSION = 2;
+const UPLOAD_STORE = 'pending-uploads';
+// One small record per chunk sent, apart from the upload — marking a chunk done
+// mustn't write the whole file back to disk
+const PART_STORE = 'uploaded-parts'; // Keyed by [uploadId, partNumber]
+
+/** An audio upload that hasn't finished yet — enough to pick it up after a reload */
+export interface PendingUpload {
+  uploadId: string; // Its chunks are stored under _chunks/{uploadId}/
+  lessonId: string;
+  file: File; // What's being sent — already transcoded, if it was, so a resume doesn't redo that
+  contentType: string;
+  sortOrder: number;
+  totalParts: number;
+  completedParts: number[]; // Kept in PART_STORE, not with the rest
+  startedAt: string;
+}
+
+type StoredUpload = Omit<PendingUpload, 'completedParts'>;
+
+function partsOf(uploadId: string) {
+  return IDBKeyRange.bound([uploadId, -Infinity], [uploadId, Infinity]);
+}
+
+let dbPromise: Promise<IDBPDatabase> | null = null;
+
+function getDB() {
+  if (!dbPromise) {
+    dbPromise = openDB(DB_NAME, DB_VERSION, {
+      async upgrade(db, oldVersion, _newVersion, transaction) {
+        if (!db.objectStoreNames.contains(UPLOAD_STORE)) {
+          db.createObjectStore(UPLOAD_STORE, { keyPath: 'uploadId' });
+        }
+        if (!db.objectStoreNames.contains(PART_STORE)) {
+          db.createObjectStore(PART_STORE, { keyPath: ['uploadId', 'partNumber'] });
+        }
+        // v1 kept the chunks sent on the upload itself — move them out
+        if (oldVersion === 1) {
+          const parts = transaction.objectStore(PART_STORE);
+          let cursor = await transaction.objectStore(UPLOAD_STORE).openCursor();
+          while (cursor) {
+            const { completedParts = [], ...upload } = cursor.value as PendingUpload;
+            for (const partNumber of completedParts) {
+              await parts.put({ uploadId: upload.uploadId, partNumber });
+            }
+            await cursor.update(upload);
+            cursor = await cursor.continue();
+          }
+        }
+      },
+    });
+  }
+  return dbPromise;
+}
+
+export async function savePendingUpload(upload: PendingUpload): Promise<void> {
+  try {
+    const { completedParts, ...stored } = upload;
+    const db = await getDB();
+    const tx = db.transaction([UPLOAD_STORE, PART_STORE], 'readwrite');
+    await tx.objectStore(UPLOAD_STORE).put(stored);
+    for (const partNumber of completedParts) {
+      await tx.objectStore(PART_STORE).put({ uploadId: upload.uploadId, partNumber });
+    }
+    await tx.done;
+  } catch {
+    // Storage full or unavailable — the upload goes on, it just can't be resumed
+    console.error('Save pending upload error');
+  }
+}
+
+export async function markPartUploaded(uploadId: string, partNumber: number): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.put(PART_STORE, { uploadId, partNumber });
+  } catch {
+    console.error('Mark upload part error');
+  }
+}
+
+/** Unfinished uploads, oldest first */
+export async function getPendingUploads(): Promise<PendingUpload[]> {
+  try {
+    const db = await getDB();
+    const stored: StoredUpload[] = await db.getAll(UPLOAD_STORE);
+    const uploads = await Promise.all(stored.map(async (upload) => {
+      const keys = await db.getAllKeys(PART_STORE, partsOf(upload.uploadId));
+      return { ...upload, completedParts: keys.map((key) => (key as [string, number])[1]) };
+    }));
+    return uploads.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+  } catch {
+    return [];
+  }
+}
+
+export async function deletePendingUpload(uploadId: string): Promise<void> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction([UPLOAD_STORE, PART_STORE], 'readwrite');
+    await tx.objectStore(UPLOAD_STORE).delete(uploadId);
+    await tx.objectStore(PART_STORE).delete(partsOf(uploadId));
+    await tx.done;
+  } catch {
+    console.error('Delete pending upload error');
+  }
+}
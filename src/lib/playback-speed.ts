@@ -0,0 +1,43 @@
+import type { AudioTrack } from '@/stores/audio-store';
+
+/** Speeds offered in the speed menu */
+export const SPEED_OPTIONS = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+
+/** Where a remembered speed applies beyond the global default */
+export type SpeedScope = 'series' | 'category';
+
+interface SpeedContext {
+  currentTrack: AudioTrack | null;
+  playbackSpeed: number; // global default
+  seriesSpeeds: Record<string, number>;
+  categorySpeeds: Record<string, number>;
+}
+
+/** Scopes the track can remember a speed for — a track without a series can't use 'series' */
+export function getSpeedScopes(track: AudioTrack | null): SpeedScope[] {
+  const scopes: SpeedScope[] = [];
+  if (track?.seriesId) scopes.push('series');
+  if (track?.categoryId) scopes.push('category');
+  return scopes;
+}
+
+/** Which remembered speed is in effect for the current track — its series wins over its category */
+export function getActiveSpeedScope(ctx: SpeedContext): SpeedScope | null {
+  const track = ctx.currentTrack;
+  if (track?.seriesId && ctx.seriesSpeeds[track.seriesId] !== undefined) return 'series';
+  if (track?.categoryId && ctx.categorySpeeds[track.categoryId] !== undefined) return 'category';
+  return null;
+}
+
+/** The speed the current track plays at: series, then category, then the global default */
+export function getPlaybackSpeed(ctx: SpeedContext): number {
+  const track = ctx.currentTrack;
+  switch (getActiveSpeedScope(ctx)) {
+    case 'series':
+      return ctx.seriesSpeeds[track!.seriesId!];
+    case 'category':
+      return ctx.categorySpeeds[track!.categoryId!];
+    default:
+      return ctx.playbackSpeed;
+  }
+}
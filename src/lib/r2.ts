@@ -97,6 +97,15 @@ export function getPublicAudioUrl(key: string): string {
   return `/api/audio/stream/${encodeURIComponent(key)}`;
 }
 
+/** Waveform peaks live next to the audio: audio/<lesson>/<file>.mp3 → peaks/<lesson>/<file>.json */
+export function generatePeaksKey(audioKey: string): string {
+  return `peaks/${audioKey.replace(/^audio\//, '').replace(/\.[^./]+$/, '')}.json`;
+}
+
+export function getPublicPeaksUrl(key: string): string {
+  return `/api/audio/peaks/${encodeURIComponent(key)}`;
+}
+
 export async function configureBucketCors(allowedOrigins: string[] = ['*']) {
   const command = new PutBucketCorsCommand({
     Bucket: BUCKET,
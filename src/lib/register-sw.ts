@@ -1,3 +1,5 @@
+import { scheduleAutoDownload } from '@/lib/auto-download';
+
 /**
  * Register the service worker for PWA functionality.
  * Call this on the client side after the page loads.
@@ -29,6 +31,9 @@ export function registerServiceWorker(): void {
         });
 
         console.log('[SW] Service worker registered successfully.');
+
+        // New lessons in followed categories/series
+        void scheduleAutoDownload(registration);
       } catch (error) {
         console.error('[SW] Service worker registration failed:', error);
       }
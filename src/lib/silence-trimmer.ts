@@ -0,0 +1,178 @@
+'use client';
+
+import { audioGraph } from '@/lib/audio-graph';
+
+/**
+ * Shortens silent stretches ("smart speed") by temporarily raising the
+ * playbackRate of Howler's HTML5 <audio> element while the signal is quiet.
+ *
+ * Speeding up (rather than seeking past) keeps Howler's position/end handling
+ * intact and avoids re-buffering the stream on every pause in the shiur.
+ *
+ * The element is routed through the shared Web Audio graph (see audio-graph.ts)
+ * so we can measure its energy on its analyser.
+ */
+
+const SILENCE_THRESHOLD_DB = -45; // Below this RMS level counts as silence (phone mics have some hiss)
+const MIN_SILENCE_MS = 300; // Ignore short breath pauses between words
+const SILENCE_SPEEDUP = 3; // Rate multiplier while inside a silence
+const MAX_RATE = 4; // Browsers distort / mute above this
+const POLL_INTERVAL_MS = 50;
+// Background tabs throttle timers to ~1s — too slow to drop back to normal speed when
+// speech resumes, so stop boosting whenever a tick arrives late
+const MAX_TICK_GAP_MS = 250;
+// Time saved is added up here and reported this often (and on pause / leaving the
+// page) — the total is persisted, and a write every tick would hit storage 20×/s
+const TIME_SAVED_REPORT_MS = 5000;
+
+class SilenceTrimmer {
+  private buffer: Float32Array<ArrayBuffer> | null = null;
+  private element: HTMLAudioElement | null = null;
+  private enabled = false;
+  private baseRate = 1;
+  private boosted = false;
+  private silenceStartedAt: number | null = null;
+  private lastTick = 0;
+  private pollId: ReturnType<typeof setInterval> | null = null;
+  private onTimeSaved: ((seconds: number) => void) | null = null;
+  private unreportedSaved = 0;
+  private lastReport = 0;
+  private reportsOnPageHide = false;
+
+  /**
+   * Start measuring an element. The engine captures it into the audio graph first —
+   * one that couldn't be captured (cross-origin) plays on untrimmed.
+   */
+  attach(element: HTMLAudioElement) {
+    if (!this.enabled) return;
+    if (!audioGraph.isCaptured(element)) {
+      this.detach();
+      return;
+    }
+    if (this.element === element) return;
+
+    this.detach();
+    this.element = element;
+    this.startPolling();
+  }
+
+  /** Stop trimming the current element and restore its normal speed */
+  detach() {
+    this.stopPolling();
+    this.endBoost();
+    this.reportTimeSaved();
+    this.element = null;
+  }
+
+  setEnabled(enabled: boolean) {
+    this.enabled = enabled;
+    if (!enabled) this.detach();
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /** The user-selected speed — silences are sped up relative to this */
+  setBaseRate(rate: number) {
+    this.baseRate = rate;
+    if (this.boosted && this.element) {
+      this.element.playbackRate = this.getBoostedRate();
+    }
+  }
+
+  setOnTimeSaved(cb: (seconds: number) => void) {
+    this.onTimeSaved = cb;
+    if (!this.reportsOnPageHide && typeof window !== 'undefined') {
+      this.reportsOnPageHide = true;
+      window.addEventListener('pagehide', () => this.reportTimeSaved());
+    }
+  }
+
+  private reportTimeSaved() {
+    this.lastReport = performance.now();
+    if (this.unreportedSaved <= 0) return;
+    const saved = this.unreportedSaved;
+    this.unreportedSaved = 0;
+    this.onTimeSaved?.(saved);
+  }
+
+  private getBoostedRate(): number {
+    return Math.min(this.baseRate * SILENCE_SPEEDUP, MAX_RATE);
+  }
+
+  private startPolling() {
+    this.stopPolling();
+    this.lastTick = performance.now();
+    this.lastReport = this.lastTick;
+    this.pollId = setInterval(() => this.tick(), POLL_INTERVAL_MS);
+  }
+
+  private stopPolling() {
+    if (this.pollId !== null) {
+      clearInterval(this.pollId);
+      this.pollId = null;
+    }
+  }
+
+  private tick() {
+    const el = this.element;
+    const analyser = audioGraph.getAnalyser();
+    if (!el || !analyser) return;
+    if (!this.buffer || this.buffer.length !== analyser.fftSize) {
+      this.buffer = new Float32Array(analyser.fftSize);
+    }
+
+    const now = performance.now();
+    const elapsed = now - this.lastTick;
+    this.lastTick = now;
+
+    if (el.paused) {
+      this.endBoost();
+      this.reportTimeSaved();
+      return;
+    }
+
+    if (this.boosted) {
+      // Real time spent in silence at the boosted rate vs. what it would have taken at base rate
+      const saved = (elapsed / 1000) * (el.playbackRate / this.baseRate - 1);
+      if (saved > 0) this.unreportedSaved += saved;
+    }
+    if (now - this.lastReport >= TIME_SAVED_REPORT_MS) this.reportTimeSaved();
+
+    if (elapsed > MAX_TICK_GAP_MS) {
+      this.endBoost();
+      return;
+    }
+
+    analyser.getFloatTimeDomainData(this.buffer);
+    let sum = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      sum += this.buffer[i] * this.buffer[i];
+    }
+    const rms = Math.sqrt(sum / this.buffer.length);
+    const db = rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+
+    if (db >= SILENCE_THRESHOLD_DB) {
+      this.silenceStartedAt = null;
+      this.endBoost();
+      return;
+    }
+
+    if (this.silenceStartedAt === null) {
+      this.silenceStartedAt = now;
+    } else if (!this.boosted && now - this.silenceStartedAt >= MIN_SILENCE_MS) {
+      this.boosted = true;
+      el.playbackRate = this.getBoostedRate();
+    }
+  }
+
+  private endBoost() {
+    this.silenceStartedAt = null;
+    if (!this.boosted) return;
+    this.boosted = false;
+    if (this.element) this.element.playbackRate = this.baseRate;
+  }
+}
+
+export const silenceTrimmer = new SilenceTrimmer();
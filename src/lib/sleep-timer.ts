@@ -0,0 +1,66 @@
+import type { AudioTrack, SleepTimer } from '@/stores/audio-store';
+import { getSegmentEnd } from '@/lib/lesson-timeline';
+
+/** Fixed durations (minutes) offered in the sleep timer menu */
+export const SLEEP_TIMER_PRESETS = [5, 10, 15, 30, 45, 60, 90];
+
+/** Volume fades out linearly over the last N seconds before stopping */
+export const SLEEP_FADE_SECONDS = 30;
+
+interface SleepTimerContext {
+  currentTrack: AudioTrack | null;
+  currentTime: number;
+  duration: number;
+  playbackSpeed: number;
+  queue: AudioTrack[];
+  queueIndex: number;
+}
+
+/**
+ * Whether the track that plays after the current one belongs to the same lesson
+ * (e.g. the עץ חיים file following the סידור file).
+ */
+function continuesSameLesson(ctx: Pick<SleepTimerContext, 'currentTrack' | 'queue' | 'queueIndex'>): boolean {
+  if (!ctx.currentTrack) return false;
+  const next = ctx.queue[ctx.queueIndex + 1];
+  return !!next && next.id === ctx.currentTrack.id;
+}
+
+/**
+ * Seconds of real (wall-clock) listening left before the sleep timer stops playback.
+ * Returns null when no timer is set, or when the stop point isn't known yet
+ * ("end of lesson" while a later file of the same lesson is still queued).
+ */
+export function getSleepTimerRemaining(
+  timer: SleepTimer | null,
+  ctx: SleepTimerContext,
+  now: number = Date.now(),
+): number | null {
+  if (!timer) return null;
+
+  if (timer.mode === 'duration') {
+    return Math.max(0, ((timer.endsAt ?? now) - now) / 1000);
+  }
+
+  if (timer.mode === 'endOfLesson' && continuesSameLesson(ctx)) return null;
+
+  // Whole-lesson timeline: "end of file" is the end of the file inside the lesson
+  const segments = ctx.currentTrack?.segments;
+  const end = timer.mode === 'endOfFile' && segments
+    ? getSegmentEnd(segments, ctx.currentTime)
+    : ctx.duration;
+  if (!end) return null;
+
+  // File-based modes count down in media time — convert to real time at the current speed
+  return Math.max(0, (end - ctx.currentTime) / (ctx.playbackSpeed || 1));
+}
+
+/**
+ * Called when a track ends: should playback stop here instead of advancing the queue?
+ */
+export function shouldSleepAtTrackEnd(timer: SleepTimer | null, ctx: Pick<SleepTimerContext, 'currentTrack' | 'queue' | 'queueIndex'>): boolean {
+  if (!timer) return false;
+  if (timer.mode === 'endOfFile') return true;
+  if (timer.mode === 'endOfLesson') return !continuesSameLesson(ctx);
+  return false;
+}
@@ -0,0 +1,26 @@
+/**
+ * Short spoken confirmations via the browser's own speech synthesis — no network,
+ * so it works offline in the car. Silently does nothing where unsupported.
+ */
+
+const DEFAULT_LANG = 'he-IL';
+
+export function isSpeechAvailable(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window;
+}
+
+/** Speak `text`, cutting off whatever was still being said */
+export function speak(text: string, lang = DEFAULT_LANG) {
+  if (!isSpeechAvailable() || !text) return;
+  const synth = window.speechSynthesis;
+  synth.cancel();
+
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = lang;
+  // Voices load asynchronously — if one for the language is ready, prefer it
+  const prefix = lang.split('-')[0];
+  const voice = synth.getVoices().find((v) => v.lang === lang || v.lang.startsWith(`${prefix}-`));
+  if (voice) utterance.voice = voice;
+  utterance.rate = 1.1;
+  synth.speak(utterance);
+}
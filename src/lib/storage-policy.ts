@@ -0,0 +1,144 @@
+'use client';
+
+import {
+  getDownloadedLessons,
+  deleteDownloadedLesson,
+  getStoragePolicy,
+  saveListeningSnapshot,
+  type ListeningSnapshot,
+  type OfflineLessonMeta,
+  type StoragePolicy,
+} from '@/lib/offline-storage';
+import { useProgressStore, type LocalProgress } from '@/stores/progress-store';
+import { useAudioStore } from '@/stores/audio-store';
+import { useDownloadStore } from '@/stores/download-store';
+
+// The service worker applies these same rules to what it auto-downloads
+// (public/sw.js, "Storage policy") — keep the two in step
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** When a download was last of use — last played on this device, else when it arrived */
+function lastUsed(lesson: OfflineLessonMeta): number {
+  const played = useProgressStore.getState().progressMap[lesson.lessonId]?.lastPlayed;
+  return new Date(played || lesson.downloadedAt).getTime();
+}
+
+/**
+ * Lessons the download queue is still working on. While anything is left in it,
+ * the ones it already finished count too — a batch shouldn't make room by
+ * removing its own first lessons.
+ */
+function inDownloadQueue(): Set<string> {
+  const { items } = useDownloadStore.getState();
+  const busy = items.some((i) => i.status === 'queued' || i.status === 'downloading');
+  return new Set(items.filter((i) => i.status !== 'error' && (busy || i.status !== 'done')).map((i) => i.lessonId));
+}
+
+/**
+ * Downloads cleanup may remove, least recently played first: not pinned, not
+ * playing now, not part of a download still going and not in `keep`
+ */
+function evictable(lessons: OfflineLessonMeta[], keep: Iterable<string> = []): OfflineLessonMeta[] {
+  const spared = inDownloadQueue();
+  for (const lessonId of keep) spared.add(lessonId);
+  const playingId = useAudioStore.getState().currentTrack?.id;
+  if (playingId) spared.add(playingId);
+  return lessons
+    .filter((l) => !l.pinned && !spared.has(l.lessonId))
+    .sort((a, b) => lastUsed(a) - lastUsed(b));
+}
+
+/**
+ * Listened through on this device — completed, or every one of its files played
+ * here was played to the end. The server is what marks a multi-file lesson
+ * completed, and offline that can wait for days.
+ */
+function listenedThrough(progress: LocalProgress): boolean {
+  if (progress.completed) return true;
+  const files = Object.values(progress.files ?? {});
+  return files.length > 0 && files.every((f) => f.completed);
+}
+
+/**
+ * The downloads `policy` says should go: lessons listened through more than N days
+ * ago, then the least recently played ones until the rest fit in the size limit.
+ */
+export function pickEvictions(
+  lessons: OfflineLessonMeta[],
+  policy: StoragePolicy,
+  keep: Iterable<string> = [],
+  now = Date.now(),
+): OfflineLessonMeta[] {
+  const candidates = evictable(lessons, keep);
+  const progressMap = useProgressStore.getState().progressMap;
+  const picked = new Set<string>();
+
+  if (policy.removeCompletedAfterDays !== null) {
+    const cutoff = now - policy.removeCompletedAfterDays * DAY_MS;
+    for (const lesson of candidates) {
+      const progress = progressMap[lesson.lessonId];
+      if (progress && listenedThrough(progress) && new Date(progress.lastPlayed).getTime() < cutoff) {
+        picked.add(lesson.lessonId);
+      }
+    }
+  }
+
+  if (policy.maxSizeMB !== null) {
+    const maxBytes = policy.maxSizeMB * 1024 * 1024;
+    let used = lessons.reduce((sum, l) => sum + (picked.has(l.lessonId) ? 0 : l.fileSize), 0);
+    for (const lesson of candidates) {
+      if (used <= maxBytes) break;
+      if (picked.has(lesson.lessonId)) continue;
+      picked.add(lesson.lessonId);
+      used -= lesson.fileSize;
+    }
+  }
+
+  return candidates.filter((l) => picked.has(l.lessonId));
+}
+
+/** The least recently played downloads that together free at least `bytes` */
+export function pickToFree(lessons: OfflineLessonMeta[], bytes: number): OfflineLessonMeta[] {
+  const picked: OfflineLessonMeta[] = [];
+  let freed = 0;
+  for (const lesson of evictable(lessons)) {
+    if (freed >= bytes) break;
+    picked.push(lesson);
+    freed += lesson.fileSize;
+  }
+  return picked;
+}
+
+/**
+ * Leave the service worker what these rules need from the listening progress —
+ * it can't read the progress store. Refreshed whenever the policy is applied, the
+ * lesson playing changes and the app goes to the background.
+ */
+export async function shareListening(lessons?: OfflineLessonMeta[]): Promise<void> {
+  const progressMap = useProgressStore.getState().progressMap;
+  const snapshot: ListeningSnapshot = {
+    lessons: {},
+    playingId: useAudioStore.getState().currentTrack?.id ?? null,
+  };
+  for (const { lessonId } of lessons ?? (await getDownloadedLessons())) {
+    const progress = progressMap[lessonId];
+    if (progress) snapshot.lessons[lessonId] = { lastPlayed: progress.lastPlayed, listenedThrough: listenedThrough(progress) };
+  }
+  await saveListeningSnapshot(snapshot);
+}
+
+/**
+ * Apply the saved storage policy, leaving the lessons in `keep` alone (e.g. the
+ * ones just downloaded). Returns the ids of the downloads it removed
+ */
+export async function enforceStoragePolicy(keep: Iterable<string> = []): Promise<string[]> {
+  const [lessons, policy] = await Promise.all([getDownloadedLessons(), getStoragePolicy()]);
+  const evictions = pickEvictions(lessons, policy, keep);
+  for (const lesson of evictions) {
+    await deleteDownloadedLesson(lesson.lessonId);
+  }
+  const removed = new Set(evictions.map((l) => l.lessonId));
+  await shareListening(lessons.filter((l) => !removed.has(l.lessonId)));
+  return [...removed];
+}
@@ -0,0 +1,18 @@
+// Postgres error classes (the first two characters of SQLSTATE) that no retry will fix
+const INTEGRITY_CONSTRAINT_VIOLATION = '23'; // e.g. 23503 foreign key, 23505 unique, 23514 check
+const DATA_EXCEPTION = '22'; // e.g. 22P02 malformed uuid
+const INSUFFICIENT_PRIVILEGE = '42501'; // Row-level security refused it
+
+/**
+ * The HTTP status for a failed Supabase call. The offline outbox keeps retrying
+ * anything >= 500, so a request the database will never accept — a bookmark for
+ * a lesson that's since been deleted, say — has to come back as a 4xx to be dropped.
+ */
+export function dbErrorStatus(error: unknown): number {
+  const code = (error as { code?: unknown } | null)?.code;
+  if (typeof code !== 'string') return 500;
+  if (code.startsWith(INTEGRITY_CONSTRAINT_VIOLATION)) return 409;
+  if (code.startsWith(DATA_EXCEPTION)) return 400;
+  if (code === INSUFFICIENT_PRIVILEGE) return 403;
+  return 500;
+}
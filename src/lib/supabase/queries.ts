@@ -18,7 +18,7 @@ export async function getRecentLessons(supabase: SupabaseClient, limit = 20) {
 export async function getLessonById(supabase: SupabaseClient, id: string) {
   const { data, error } = await supabase
     .from('lessons')
-    .select('*, series(*), category:categories(id, hebrew_name), snippets(*), bookmarks(*), audio_files:lesson_audio(*), images:lesson_images(*)')
+    .select('*, series(*), category:categories(id, hebrew_name), snippets(*), bookmarks(*), audio_files:lesson_audio(*), images:lesson_images(*), chapters:lesson_chapters(*)')
     .eq('id', id)
     .single();
 
@@ -35,13 +35,13 @@ export async function getLessonById(supabase: SupabaseClient, id: string) {
     data.parts = parts || [];
   }
 
-  // Get playback progress
+  // Get playback progress — the lesson-level row plus one per audio file
   const { data: progress } = await supabase
     .from('playback_progress')
     .select('*')
-    .eq('lesson_id', id)
-    .single();
-  data.progress = progress;
+    .eq('lesson_id', id);
+  data.progress = progress?.find((p) => !p.audio_file_id) ?? null;
+  data.file_progress = progress?.filter((p) => p.audio_file_id) ?? [];
 
   return data as LessonWithRelations;
 }
@@ -239,6 +239,7 @@ export async function getPlaybackProgress(supabase: SupabaseClient, lessonId: st
     .from('playback_progress')
     .select('*')
     .eq('lesson_id', lessonId)
+    .is('audio_file_id', null)
     .single();
 
   return data as PlaybackProgress | null;
@@ -248,6 +249,7 @@ export async function getRecentProgress(supabase: SupabaseClient, limit = 10) {
   const { data, error } = await supabase
     .from('playback_progress')
     .select('*, lesson:lessons(id, title, hebrew_title, date, duration, audio_url, series(name, hebrew_name))')
+    .is('audio_file_id', null)
     .eq('completed', false)
     .order('last_played_at', { ascending: false })
     .limit(limit);
@@ -256,24 +258,88 @@ export async function getRecentProgress(supabase: SupabaseClient, limit = 10) {
   return data as (PlaybackProgress & { lesson: LessonWithRelations })[];
 }
 
+/**
+ * Save a playback position. For a lesson with audio files it's saved against the
+ * file (the main one when none is given) at `filePosition`, and on the lesson-level
+ * row at `position` — they differ on a whole-lesson timeline. The lesson only counts
+ * as completed once every file is, and neither row is ever un-completed by a save.
+ * A save played before what a row already holds (an outbox entry sent late) doesn't
+ * move its position back — it can still complete it. Returns the lesson-level row.
+ */
 export async function upsertPlaybackProgress(
   supabase: SupabaseClient,
   lessonId: string,
   position: number,
-  completed = false
+  completed = false,
+  audioFileId: string | null = null,
+  playedAt?: string,
+  filePosition = position
 ) {
+  const lastPlayedAt = playedAt ?? new Date().toISOString();
+  let lessonCompleted = completed;
+
+  const [{ data: lesson }, { data: existing }] = await Promise.all([
+    supabase
+      .from('lessons')
+      .select('audio_url, audio_files:lesson_audio(id, audio_url, sort_order)')
+      .eq('id', lessonId)
+      .single(),
+    supabase
+      .from('playback_progress')
+      .select('audio_file_id, last_played_at')
+      .eq('lesson_id', lessonId),
+  ]);
+  const files = ((lesson?.audio_files || []) as { id: string; audio_url: string; sort_order: number }[])
+    .sort((a, b) => a.sort_order - b.sort_order);
+  const fileId = audioFileId
+    || (files.find((f) => f.audio_url === lesson?.audio_url) || files[0])?.id
+    || null;
+
+  const saveRow = async (rowFileId: string | null, rowPosition: number, rowCompleted: boolean) => {
+    const stored = (existing || []).find((row) => row.audio_file_id === rowFileId);
+    if (stored && new Date(stored.last_played_at).getTime() > new Date(lastPlayedAt).getTime()) {
+      if (!rowCompleted) return;
+      const update = supabase.from('playback_progress').update({ completed: true }).eq('lesson_id', lessonId);
+      const { error } = await (rowFileId ? update.eq('audio_file_id', rowFileId) : update.is('audio_file_id', null));
+      if (error) throw error;
+      return;
+    }
+    const { error } = await supabase
+      .from('playback_progress')
+      .upsert(
+        {
+          lesson_id: lessonId,
+          audio_file_id: rowFileId,
+          position: rowPosition,
+          // Left out rather than false, so a periodic save doesn't reset a finished row
+          ...(rowCompleted && { completed: true }),
+          last_played_at: lastPlayedAt,
+        },
+        { onConflict: 'lesson_id,audio_file_id' }
+      );
+    if (error) throw error;
+  };
+
+  if (fileId) {
+    await saveRow(fileId, filePosition, completed);
+
+    const { data: done } = await supabase
+      .from('playback_progress')
+      .select('audio_file_id')
+      .eq('lesson_id', lessonId)
+      .eq('completed', true)
+      .not('audio_file_id', 'is', null);
+    const doneIds = new Set((done || []).map((row) => row.audio_file_id));
+    lessonCompleted = files.length > 0 && files.every((f) => doneIds.has(f.id));
+  }
+
+  await saveRow(null, position, lessonCompleted);
+
   const { data, error } = await supabase
     .from('playback_progress')
-    .upsert(
-      {
-        lesson_id: lessonId,
-        position,
-        completed,
-        last_played_at: new Date().toISOString(),
-      },
-      { onConflict: 'lesson_id' }
-    )
     .select()
+    .eq('lesson_id', lessonId)
+    .is('audio_file_id', null)
     .single();
 
   if (error) throw error;
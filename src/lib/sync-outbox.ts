@@ -0,0 +1,170 @@
+'use client';
+
+import { openDB, type IDBPDatabase } from 'idb';
+
+// The service worker (public/sw.js) replays the same outbox — keep its name,
+// version and store in step with these
+const DB_NAME = 'tora-player-sync';
+const DB_VERSION = 1;
+const OUTBOX_STORE = 'outbox'; // Auto-increment keys keep the entries in the order they were made
+// Also the Background Sync tag and the message the service worker posts after replaying
+export const OUTBOX_SYNC_TAG = 'outbox';
+
+// Web Lock held while replaying — the service worker takes it too, so the app and a
+// background sync never send the same entries side by side
+const OUTBOX_LOCK = 'tora-player-outbox';
+
+// Server errors an entry may meet before it's given up on — one the database will never
+// take would otherwise hold back everything queued behind it for good
+const MAX_ATTEMPTS = 5;
+
+// Fired on window whenever entries are added or replayed, so the pending count can refresh
+export const OUTBOX_CHANGED_EVENT = 'tora-outbox-changed';
+
+/** A request to the API that hasn't reached the server yet */
+export interface OutboxEntry {
+  id?: number;
+  url: string;
+  method: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  body: string; // JSON
+  createdAt: string;
+  key?: string; // Entries with the same key replace one another — only the latest is worth sending
+  attempts?: number; // Replays the server answered with an error — network failures don't count
+}
+
+interface SyncManager {
+  register: (tag: string) => Promise<void>;
+}
+
+let dbPromise: Promise<IDBPDatabase> | null = null;
+
+function getDB() {
+  if (!dbPromise) {
+    dbPromise = openDB(DB_NAME, DB_VERSION, {
+      upgrade(db) {
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+      },
+    });
+  }
+  return dbPromise;
+}
+
+function notifyChanged() {
+  window.dispatchEvent(new Event(OUTBOX_CHANGED_EVENT));
+}
+
+async function addToOutbox(entry: Omit<OutboxEntry, 'id' | 'createdAt'>) {
+  const db = await getDB();
+  const tx = db.transaction(OUTBOX_STORE, 'readwrite');
+  if (entry.key) {
+    let cursor = await tx.store.openCursor();
+    while (cursor) {
+      if ((cursor.value as OutboxEntry).key === entry.key) await cursor.delete();
+      cursor = await cursor.continue();
+    }
+  }
+  await tx.store.add({ ...entry, createdAt: new Date().toISOString() });
+  await tx.done;
+  notifyChanged();
+  void registerBackgroundSync();
+}
+
+/** Have the service worker replay the outbox once the connection is back, even with the app closed */
+async function registerBackgroundSync() {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    const sync = (registration as ServiceWorkerRegistration & { sync?: SyncManager }).sync;
+    await sync?.register(OUTBOX_SYNC_TAG);
+  } catch {
+    // Not supported or not allowed — replayed when the app sees it's online instead
+  }
+}
+
+export async function getPendingCount(): Promise<number> {
+  try {
+    const db = await getDB();
+    return await db.count(OUTBOX_STORE);
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Send a mutation to the API, or keep it in the outbox if it can't go now —
+ * offline, the network fails, or the server errors. It also waits its turn
+ * behind anything already queued, so the server sees changes in the order they
+ * were made. Returns the response when it was sent, null when it was queued.
+ */
+export async function sendOrQueue(entry: Omit<OutboxEntry, 'id' | 'createdAt'>): Promise<Response | null> {
+  if (navigator.onLine && (await getPendingCount()) === 0) {
+    try {
+      const response = await send(entry);
+      if (response.status < 500) return response;
+    } catch {
+      // Network failure — queue it
+    }
+  }
+  try {
+    await addToOutbox(entry);
+  } catch {
+    // IndexedDB unavailable — nothing more we can do
+  }
+  // Online with a backlog: each new change is another chance to get it through
+  if (navigator.onLine) void flushOutbox();
+  return null;
+}
+
+function send(entry: Omit<OutboxEntry, 'id' | 'createdAt'>) {
+  return fetch(entry.url, {
+    method: entry.method,
+    headers: { 'Content-Type': 'application/json' },
+    body: entry.body,
+  });
+}
+
+let flushing: Promise<void> | null = null;
+
+/**
+ * Replay the outbox in order. Stops at the first entry that still can't be sent
+ * (it's tried again next time); one the server rejects outright is dropped, and so
+ * is one that keeps failing on the server after MAX_ATTEMPTS tries.
+ */
+export function flushOutbox(): Promise<void> {
+  if (!flushing) {
+    flushing = replay().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+async function replay() {
+  // Without Web Locks the worst case is an entry sent twice — the API takes that
+  if (!navigator.locks) return replayEntries();
+  await navigator.locks.request(OUTBOX_LOCK, replayEntries);
+}
+
+async function replayEntries() {
+  const db = await getDB();
+  const entries: OutboxEntry[] = await db.getAll(OUTBOX_STORE);
+  try {
+    for (const entry of entries) {
+      const response = await send(entry);
+      if (response.status >= 500) {
+        const attempts = (entry.attempts ?? 0) + 1;
+        if (attempts < MAX_ATTEMPTS) {
+          await db.put(OUTBOX_STORE, { ...entry, attempts });
+          break;
+        }
+      }
+      await db.delete(OUTBOX_STORE, entry.id!);
+    }
+  } catch {
+    // Offline again
+  } finally {
+    if (entries.length > 0) notifyChanged();
+  }
+}
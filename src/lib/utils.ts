@@ -16,6 +16,13 @@ export function formatDuration(seconds: number): string {
   return `${minutes}:${secs.toString().padStart(2, '0')}`;
 }
 
+/** Inverse of formatDuration: "1:02:03", "12:34" or "90" → seconds, null if malformed */
+export function parseDuration(value: string): number | null {
+  const parts = value.trim().split(':');
+  if (parts.length > 3 || parts.some((p) => !/^\d+(\.\d+)?$/.test(p))) return null;
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
 export function formatFileSize(bytes: number): string {
   const units = ['B', 'KB', 'MB', 'GB'];
   let unitIndex = 0;
@@ -39,6 +39,12 @@ export const updateLessonSchema = z.object({
   seder_number: z.number().int().positive().optional().nullable(),
 });
 
+export const lessonChapterSchema = z.object({
+  audio_id: z.string().uuid().optional().nullable(),
+  start_time: z.number().min(0),
+  title: z.string().trim().min(1, 'Chapter title is required'),
+});
+
 export const createPlaylistSchema = z.object({
   name: z.string().min(1, 'Playlist name is required'),
   hebrew_name: z.string().optional(),
@@ -46,9 +52,20 @@ export const createPlaylistSchema = z.object({
 });
 
 export const createBookmarkSchema = z.object({
+  id: z.string().uuid().optional(), // The id it was given on the device — replaying it twice is a no-op
   lesson_id: z.string().uuid(),
   position: z.number().int().min(0),
   note: z.string().optional(),
+  created_at: z.string().datetime().optional(),
+});
+
+export const updateBookmarkSchema = z.object({
+  id: z.string().uuid(),
+  note: z.string(),
+});
+
+export const deleteBookmarkSchema = z.object({
+  id: z.string().uuid(),
 });
 
 export const createSeriesSchema = z.object({
@@ -59,8 +76,30 @@ export const createSeriesSchema = z.object({
 
 export const playbackProgressSchema = z.object({
   lesson_id: z.string().uuid(),
+  audio_file_id: z.string().uuid().nullable().default(null),
   position: z.number().int().min(0),
+  file_position: z.number().int().min(0).optional(), // Inside audio_file_id, when it differs from the lesson's position (whole-lesson timelines)
   completed: z.boolean().default(false),
+  played_at: z.string().datetime().optional(), // When it was listened to, if sent later from the offline outbox
+});
+
+export const audioErrorReportSchema = z.object({
+  lesson_id: z.string().uuid().nullable().default(null),
+  url: z.string().min(1).max(2000),
+  source: z.enum(['main', 'fallback', 'original', 'segment']),
+  error: z.string().max(500).nullable().default(null),
+  recovered: z.boolean().default(false),
+});
+
+export const listeningSessionSchema = z.object({
+  lesson_id: z.string().uuid(),
+  audio_file_id: z.string().uuid().nullable().default(null),
+  whole_lesson: z.boolean().default(false),
+  started_at: z.string().datetime(),
+  ended_at: z.string().datetime(),
+  start_position: z.number().min(0),
+  end_position: z.number().min(0),
+  playback_speed: z.number().min(0.25).max(4),
 });
 
 export const searchSchema = z.object({
@@ -71,3 +110,18 @@ export const searchSchema = z.object({
   limit: z.number().int().min(1).max(100).default(20),
   offset: z.number().int().min(0).default(0),
 });
+
+export const newLessonsSchema = z.object({
+  category_ids: z.array(z.string().uuid()).max(50).default([]),
+  series_ids: z.array(z.string().uuid()).max(50).default([]),
+  since: z.string().datetime(),
+  limit: z.number().int().min(1).max(50).default(20),
+});
+
+export const catalogSchema = z.object({
+  since: z.string().datetime().optional(),
+});
+
+export const uploadChunksSchema = z.object({
+  uploadId: z.string().uuid(),
+});
@@ -0,0 +1,33 @@
+/** Voice-clarity processing strengths offered in the full player */
+export type VoicePreset = 'light' | 'clear' | 'strong';
+
+export interface VoiceSettings {
+  enhance: boolean; // high-pass + presence boost + compression
+  preset: VoicePreset;
+  mono: boolean; // fold both channels together — for listening with one earbud
+  balance: number; // -1 (left) .. 1 (right)
+}
+
+interface VoicePresetParams {
+  highpass: number; // Hz — cuts rumble, handling noise and room boom
+  presenceGain: number; // dB around PRESENCE_FREQUENCY — consonants / intelligibility
+  threshold: number; // compressor threshold, dB
+  ratio: number;
+  makeupGain: number; // dB after compression, so enhanced isn't simply quieter
+}
+
+export const VOICE_PRESETS: VoicePreset[] = ['light', 'clear', 'strong'];
+
+export const VOICE_PRESET_PARAMS: Record<VoicePreset, VoicePresetParams> = {
+  light: { highpass: 80, presenceGain: 3, threshold: -24, ratio: 2, makeupGain: 2 },
+  clear: { highpass: 100, presenceGain: 5, threshold: -30, ratio: 3, makeupGain: 4 },
+  strong: { highpass: 150, presenceGain: 8, threshold: -40, ratio: 6, makeupGain: 6 },
+};
+
+export const PRESENCE_FREQUENCY = 3000;
+export const PRESENCE_Q = 1;
+
+/** Whether anything needs the Web Audio graph — all off plays straight from the element */
+export function needsVoiceProcessing(settings: VoiceSettings): boolean {
+  return settings.enhance || settings.mono || settings.balance !== 0;
+}
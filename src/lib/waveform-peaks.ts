@@ -0,0 +1,66 @@
+/**
+ * Waveform peaks as stored in R2 (peaks/<lesson>/<file>.json) and drawn by SeekBar.
+ * `peaks` are per-window maxima of the absolute amplitude, scaled to 0–100 and
+ * spread evenly over `duration` seconds.
+ */
+export interface WaveformPeaks {
+  version: 1;
+  duration: number;
+  peaks: number[];
+}
+
+export const MAX_STORED_PEAKS = 2000;
+
+/** Downsample peaks to `count` values by taking the max of each bucket */
+export function resamplePeaks(peaks: number[], count: number): number[] {
+  if (peaks.length === 0 || count <= 0) return [];
+  const result: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const from = Math.floor((i * peaks.length) / count);
+    const to = Math.max(from + 1, Math.floor(((i + 1) * peaks.length) / count));
+    let max = 0;
+    for (let j = from; j < to && j < peaks.length; j++) max = Math.max(max, peaks[j]);
+    result.push(max);
+  }
+  return result;
+}
+
+/**
+ * Lay several files' peaks out on one track of `count` bars, each file taking its
+ * share of the total duration (whole-lesson timelines). Files without peaks are
+ * drawn flat.
+ */
+export function combinePeaks(
+  files: { peaks: WaveformPeaks | null; duration: number }[],
+  count: number,
+): number[] {
+  const total = files.reduce((sum, f) => sum + (f.peaks?.duration || f.duration || 0), 0);
+  if (total <= 0) return [];
+
+  const bars: number[] = [];
+  let used = 0;
+  files.forEach((file, i) => {
+    const duration = file.peaks?.duration || file.duration || 0;
+    // Last file takes whatever is left so rounding never leaves a gap
+    const share = i === files.length - 1 ? count - used : Math.round((duration / total) * count);
+    if (share <= 0) return;
+    used += share;
+    bars.push(...(file.peaks ? resamplePeaks(file.peaks.peaks, share) : new Array(share).fill(0)));
+  });
+  return bars;
+}
+
+const cache = new Map<string, Promise<WaveformPeaks | null>>();
+
+/** Fetch a peaks file once per session — null if it's missing or malformed */
+export function fetchPeaks(url: string): Promise<WaveformPeaks | null> {
+  let pending = cache.get(url);
+  if (!pending) {
+    pending = fetch(url)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => (data && Array.isArray(data.peaks) ? (data as WaveformPeaks) : null))
+      .catch(() => null);
+    cache.set(url, pending);
+  }
+  return pending;
+}
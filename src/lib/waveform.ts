@@ -0,0 +1,114 @@
+import { spawn } from 'child_process';
+import { MAX_STORED_PEAKS, resamplePeaks, type WaveformPeaks } from '@/lib/waveform-peaks';
+import { uploadToR2, generatePeaksKey, getPublicPeaksUrl } from '@/lib/r2';
+import { FFMPEG_PATH } from '@/lib/ffmpeg-path';
+
+// Runs after the upload response is sent, within the route's maxDuration
+const PEAKS_TIMEOUT = 240000; // 4 min
+
+// Decode to 8 kHz mono 16-bit — plenty for an overview — and take one peak per 100 ms
+const SAMPLE_RATE = 8000;
+const WINDOW_SAMPLES = SAMPLE_RATE / 10;
+
+/**
+ * Compute waveform peaks for an audio file by decoding it with ffmpeg.
+ * `input` may be a local path or an http(s) URL — pass a presigned R2 URL so
+ * ffmpeg streams the file. Only one window of samples is held at a time.
+ *
+ * Best-effort: returns null if ffmpeg is missing, times out, or the file can't
+ * be decoded. The player just shows a plain seek bar without peaks.
+ */
+export function computePeaks(input: string): Promise<WaveformPeaks | null> {
+  return new Promise((resolve) => {
+    const windows: number[] = [];
+    let windowMax = 0;
+    let windowCount = 0;
+    let totalSamples = 0;
+    let leftover: Buffer | null = null;
+    let settled = false;
+
+    const finish = (value: WaveformPeaks | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      resolve(value);
+    };
+
+    const proc = spawn(FFMPEG_PATH, [
+      '-hide_banner',
+      '-nostats',
+      '-loglevel', 'error',
+      '-i', input,
+      '-vn',
+      '-ac', '1',
+      '-ar', String(SAMPLE_RATE),
+      '-f', 's16le',
+      '-acodec', 'pcm_s16le',
+      '-',
+    ]);
+
+    const timer = setTimeout(() => {
+      proc.kill('SIGKILL');
+      finish(null);
+    }, PEAKS_TIMEOUT);
+
+    proc.stdout.on('data', (data: Buffer) => {
+      // Samples are 2 bytes — carry an odd trailing byte over to the next chunk
+      const buf: Buffer = leftover ? Buffer.concat([leftover, data]) : data;
+      const usable = buf.length - (buf.length % 2);
+      leftover = usable < buf.length ? buf.subarray(usable) : null;
+
+      for (let offset = 0; offset < usable; offset += 2) {
+        const sample = Math.abs(buf.readInt16LE(offset));
+        if (sample > windowMax) windowMax = sample;
+        if (++windowCount === WINDOW_SAMPLES) {
+          windows.push(windowMax);
+          windowMax = 0;
+          windowCount = 0;
+        }
+      }
+      totalSamples += usable / 2;
+    });
+
+    proc.on('error', (err) => {
+      console.warn('Waveform peaks unavailable:', err.message);
+      finish(null);
+    });
+
+    proc.on('close', (code) => {
+      if (code !== 0) {
+        finish(null);
+        return;
+      }
+      if (windowCount > 0) windows.push(windowMax);
+      if (windows.length === 0) {
+        finish(null);
+        return;
+      }
+      finish(toWaveformPeaks(windows, totalSamples / SAMPLE_RATE));
+    });
+  });
+}
+
+/**
+ * Compute peaks for the audio at `audioKey` (read from `input`, e.g. a presigned URL)
+ * and store them next to it in R2. Returns the peaks_url for lesson_audio, or null.
+ */
+export async function storePeaks(audioKey: string, input: string): Promise<string | null> {
+  const peaks = await computePeaks(input);
+  if (!peaks) return null;
+  const peaksKey = generatePeaksKey(audioKey);
+  await uploadToR2(peaksKey, Buffer.from(JSON.stringify(peaks)), 'application/json');
+  return getPublicPeaksUrl(peaksKey);
+}
+
+/** Scale raw 16-bit window maxima to 0–100, relative to the loudest window */
+function toWaveformPeaks(windows: number[], duration: number): WaveformPeaks {
+  const reduced = windows.length > MAX_STORED_PEAKS ? resamplePeaks(windows, MAX_STORED_PEAKS) : windows;
+  const loudest = Math.max(...reduced) || 1;
+  return {
+    version: 1,
+    duration: Math.round(duration * 10) / 10,
+    peaks: reduced.map((p) => Math.round((p / loudest) * 100)),
+  };
+}
@@ -1,5 +1,10 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { getNextLesson } from '@/actions/lessons';
+import { buildLessonTrack } from '@/lib/lesson-track';
+import { getActiveSpeedScope, type SpeedScope } from '@/lib/playback-speed';
+import type { VoicePreset } from '@/lib/voice-enhance';
+import type { PlayContext } from '@/types/database';
 
 export interface AudioTrack {
   id: string;
@@ -7,11 +12,58 @@ export interface AudioTrack {
   hebrewTitle: string;
   audioUrl: string;
   audioUrlFallback?: string;
+  audioUrlOriginal?: string; // The upload as received — last resort if the transcoded files won't play
+  audioFileId?: string; // lesson_audio row being played (single-file tracks)
   duration: number;
   seriesName?: string;
+  seriesId?: string;
+  categoryId?: string;
   date: string;
   artworkUrl?: string;
   description?: string;
+  loudness?: number; // Integrated loudness (LUFS) of this file, if measured
+  peaksUrl?: string; // Waveform peaks JSON for the seek bar
+  // Whole-lesson mode: the lesson's files played back-to-back as one timeline.
+  // currentTime/duration are then lesson-level; audioUrl is the first file.
+  segments?: AudioSegment[];
+  chapters?: TrackChapter[];
+  context?: PlayContext; // Series / playlist / category it was started from — picks what plays next
+}
+
+export interface AudioSegment {
+  audioUrl: string;
+  audioFileId?: string;
+  duration: number; // 0 until known — the engine fills it in once the file loads
+  loudness?: number;
+  peaksUrl?: string;
+  label?: string; // e.g. audio_type ('סידור' / 'עץ חיים')
+}
+
+export interface TrackChapter {
+  title: string;
+  startTime: number; // seconds into its file
+  segment?: number; // whole-lesson mode: index of that file in segments
+}
+
+export interface ABLoop {
+  start: number; // point A, track-level seconds
+  end: number | null; // point B — null while only A is set
+  repeat: number | null; // total passes before playback carries on; null = forever
+}
+
+export interface UpNext {
+  track: AudioTrack;
+  startsAt: number; // epoch ms — plays automatically unless cancelled
+}
+
+// Countdown before the next lesson starts on its own
+export const UP_NEXT_DELAY = 10000;
+
+export type SleepTimerMode = 'duration' | 'endOfFile' | 'endOfLesson';
+
+export interface SleepTimer {
+  mode: SleepTimerMode;
+  endsAt: number | null; // epoch ms — only set for 'duration' mode
 }
 
 interface AudioPlayerState {
@@ -21,13 +73,41 @@ interface AudioPlayerState {
   currentTime: number;
   duration: number;
   volume: number;
-  playbackSpeed: number;
+  playbackSpeed: number; // Global default — see getPlaybackSpeed() for the speed actually in effect
+  seriesSpeeds: Record<string, number>; // Remembered per series id
+  categorySpeeds: Record<string, number>; // Remembered per category id
   isMiniPlayerExpanded: boolean;
 
   // Queue
   queue: AudioTrack[];
   queueIndex: number;
 
+  // Sleep timer
+  sleepTimer: SleepTimer | null;
+
+  // A–B loop on the current track
+  abLoop: ABLoop | null;
+
+  // Play all of a lesson's files as one timeline
+  wholeLessonMode: boolean;
+
+  // Continue with the next lesson in the series / category when the queue runs out
+  autoplayNext: boolean;
+  upNext: UpNext | null;
+
+  // Driving mode: speak each new lesson's title as it starts
+  announceTitles: boolean;
+
+  // Trim silence
+  trimSilence: boolean;
+  timeSaved: number; // Total seconds saved by trimming silence
+
+  // Voice clarity / one-earbud listening
+  voiceEnhance: boolean;
+  voicePreset: VoicePreset;
+  monoAudio: boolean;
+  audioBalance: number; // -1 (left) .. 1 (right)
+
   // Actions
   setTrack: (track: AudioTrack) => void;
   play: () => void;
@@ -36,7 +116,7 @@ interface AudioPlayerState {
   setCurrentTime: (time: number) => void;
   setDuration: (duration: number) => void;
   setVolume: (volume: number) => void;
-  setPlaybackSpeed: (speed: number) => void;
+  setPlaybackSpeed: (speed: number, scope?: SpeedScope | 'global') => void;
   skipForward: (seconds?: number) => void;
   skipBackward: (seconds?: number) => void;
   nextTrack: () => void;
@@ -45,6 +125,25 @@ interface AudioPlayerState {
   addToQueue: (track: AudioTrack) => void;
   removeFromQueue: (index: number) => void;
   toggleMiniPlayer: () => void;
+  setSleepTimer: (mode: SleepTimerMode, minutes?: number) => void;
+  clearSleepTimer: () => void;
+  setSegmentDurations: (durations: number[]) => void;
+  setWholeLessonMode: (enabled: boolean) => void;
+  setAutoplayNext: (enabled: boolean) => void;
+  queueUpNext: () => Promise<void>;
+  playUpNext: () => void;
+  cancelUpNext: () => void;
+  setAnnounceTitles: (enabled: boolean) => void;
+  setTrimSilence: (enabled: boolean) => void;
+  addTimeSaved: (seconds: number) => void;
+  setVoiceEnhance: (enabled: boolean) => void;
+  setVoicePreset: (preset: VoicePreset) => void;
+  setMonoAudio: (enabled: boolean) => void;
+  setAudioBalance: (balance: number) => void;
+  setLoopPoint: (point: 'start' | 'end', time: number) => void;
+  setLoop: (start: number, end: number, repeat?: number | null) => void;
+  setLoopRepeat: (repeat: number | null) => void;
+  clearLoop: () => void;
 }
 
 export const useAudioStore = create<AudioPlayerState>()(
@@ -56,12 +155,26 @@ export const useAudioStore = create<AudioPlayerState>()(
       duration: 0,
       volume: 1,
       playbackSpeed: 1,
+      seriesSpeeds: {},
+      categorySpeeds: {},
       isMiniPlayerExpanded: false,
       queue: [],
       queueIndex: -1,
+      sleepTimer: null,
+      abLoop: null,
+      wholeLessonMode: false,
+      autoplayNext: true,
+      announceTitles: false,
+      upNext: null,
+      trimSilence: false,
+      timeSaved: 0,
+      voiceEnhance: false,
+      voicePreset: 'clear',
+      monoAudio: false,
+      audioBalance: 0,
 
       setTrack: (track) =>
-        set({ currentTrack: track, currentTime: 0, isPlaying: true }),
+        set({ currentTrack: track, currentTime: 0, isPlaying: true, abLoop: null, upNext: null }),
 
       play: () => set({ isPlaying: true }),
       pause: () => set({ isPlaying: false }),
@@ -71,7 +184,24 @@ export const useAudioStore = create<AudioPlayerState>()(
       setDuration: (duration) => set({ duration }),
       setVolume: (volume) => set({ volume: Math.max(0, Math.min(1, volume)) }),
 
-      setPlaybackSpeed: (speed) => set({ playbackSpeed: speed }),
+      // No scope: change whichever speed is in effect for the current track.
+      // 'global' also drops the current track's series/category speeds so it applies here too.
+      setPlaybackSpeed: (speed, scope) =>
+        set((state) => {
+          const track = state.currentTrack;
+          const target = scope ?? getActiveSpeedScope(state) ?? 'global';
+          if (target === 'series' && track?.seriesId) {
+            return { seriesSpeeds: { ...state.seriesSpeeds, [track.seriesId]: speed } };
+          }
+          if (target === 'category' && track?.categoryId) {
+            return { categorySpeeds: { ...state.categorySpeeds, [track.categoryId]: speed } };
+          }
+          const seriesSpeeds = { ...state.seriesSpeeds };
+          const categorySpeeds = { ...state.categorySpeeds };
+          if (track?.seriesId) delete seriesSpeeds[track.seriesId];
+          if (track?.categoryId) delete categorySpeeds[track.categoryId];
+          return { playbackSpeed: speed, seriesSpeeds, categorySpeeds };
+        }),
 
       skipForward: (seconds = 15) =>
         set((state) => ({
@@ -92,8 +222,22 @@ export const useAudioStore = create<AudioPlayerState>()(
             queueIndex: nextIndex,
             currentTime: 0,
             isPlaying: true,
+            abLoop: null,
+            upNext: null,
           });
+          return;
+        }
+        // Queue exhausted — go straight to the lesson that naturally follows
+        const { currentTrack, upNext } = get();
+        if (upNext) {
+          get().playUpNext();
+          return;
         }
+        if (!currentTrack) return;
+        resolveNextTrack(currentTrack, get().wholeLessonMode).then((track) => {
+          // Ignore if something else started playing meanwhile
+          if (track && get().currentTrack?.id === currentTrack.id) get().setTrack(track);
+        });
       },
 
       previousTrack: () => {
@@ -110,6 +254,8 @@ export const useAudioStore = create<AudioPlayerState>()(
             queueIndex: prevIndex,
             currentTime: 0,
             isPlaying: true,
+            abLoop: null,
+            upNext: null,
           });
         }
       },
@@ -121,6 +267,8 @@ export const useAudioStore = create<AudioPlayerState>()(
           currentTrack: tracks[startIndex] || null,
           currentTime: 0,
           isPlaying: true,
+          abLoop: null,
+          upNext: null,
         }),
 
       addToQueue: (track) =>
@@ -133,19 +281,129 @@ export const useAudioStore = create<AudioPlayerState>()(
 
       toggleMiniPlayer: () =>
         set((state) => ({ isMiniPlayerExpanded: !state.isMiniPlayerExpanded })),
+
+      setSleepTimer: (mode, minutes = 0) =>
+        set({
+          sleepTimer: {
+            mode,
+            endsAt: mode === 'duration' ? Date.now() + minutes * 60 * 1000 : null,
+          },
+        }),
+
+      clearSleepTimer: () => set({ sleepTimer: null }),
+
+      setSegmentDurations: (durations) =>
+        set((state) => {
+          const segments = state.currentTrack?.segments;
+          if (!state.currentTrack || !segments) return {};
+          const updated = segments.map((s, i) => ({ ...s, duration: durations[i] || s.duration }));
+          return {
+            currentTrack: {
+              ...state.currentTrack,
+              segments: updated,
+              duration: updated.reduce((sum, s) => sum + s.duration, 0),
+            },
+          };
+        }),
+
+      setWholeLessonMode: (enabled) => set({ wholeLessonMode: enabled }),
+
+      setAutoplayNext: (enabled) =>
+        set(enabled ? { autoplayNext: true } : { autoplayNext: false, upNext: null }),
+
+      queueUpNext: async () => {
+        const { currentTrack, wholeLessonMode } = get();
+        if (!currentTrack) return;
+        const track = await resolveNextTrack(currentTrack, wholeLessonMode);
+        const state = get();
+        // Still on the finished track, nothing playing, and the setting wasn't turned off meanwhile
+        if (!track || !state.autoplayNext || state.isPlaying || state.currentTrack?.id !== currentTrack.id) return;
+        set({ upNext: { track, startsAt: Date.now() + UP_NEXT_DELAY } });
+      },
+
+      playUpNext: () => {
+        const { upNext } = get();
+        if (upNext) get().setTrack(upNext.track);
+      },
+
+      cancelUpNext: () => set({ upNext: null }),
+
+      setAnnounceTitles: (enabled) => set({ announceTitles: enabled }),
+
+      setTrimSilence: (enabled) => set({ trimSilence: enabled }),
+
+      addTimeSaved: (seconds) =>
+        set((state) => ({ timeSaved: state.timeSaved + seconds })),
+
+      setVoiceEnhance: (enabled) => set({ voiceEnhance: enabled }),
+      setVoicePreset: (preset) => set({ voicePreset: preset, voiceEnhance: true }),
+      setMonoAudio: (enabled) => set({ monoAudio: enabled }),
+      setAudioBalance: (balance) => set({ audioBalance: Math.max(-1, Math.min(1, balance)) }),
+
+      setLoopPoint: (point, time) =>
+        set((state) => {
+          const loop = state.abLoop;
+          if (point === 'start') {
+            // Moving A past B drops B — it has to be set again
+            const end = loop?.end != null && loop.end > time ? loop.end : null;
+            return { abLoop: { start: time, end, repeat: loop?.repeat ?? null } };
+          }
+          if (!loop || time <= loop.start) return {};
+          return { abLoop: { ...loop, end: time } };
+        }),
+
+      setLoop: (start, end, repeat = null) =>
+        set({ abLoop: end > start ? { start, end, repeat } : null }),
+
+      setLoopRepeat: (repeat) =>
+        set((state) => (state.abLoop ? { abLoop: { ...state.abLoop, repeat } } : {})),
+
+      clearLoop: () => set({ abLoop: null }),
     }),
     {
       name: 'tora-player-audio',
+      // v1: whole-lesson mode is opt-in. v0 saved it as on for everyone, so it goes
+      // back off — existing users keep playing one file at a time
+      version: 1,
+      migrate: (persisted, version) => {
+        const state = persisted as AudioPlayerState;
+        if (version < 1) return { ...state, wholeLessonMode: false };
+        return state;
+      },
       partialize: (state) => ({
         volume: state.volume,
         playbackSpeed: state.playbackSpeed,
+        seriesSpeeds: state.seriesSpeeds,
+        categorySpeeds: state.categorySpeeds,
         currentTrack: state.currentTrack,
         currentTime: state.currentTime,
         queue: state.queue,
         queueIndex: state.queueIndex,
+        wholeLessonMode: state.wholeLessonMode,
+        autoplayNext: state.autoplayNext,
+        announceTitles: state.announceTitles,
+        trimSilence: state.trimSilence,
+        timeSaved: state.timeSaved,
+        voiceEnhance: state.voiceEnhance,
+        voicePreset: state.voicePreset,
+        monoAudio: state.monoAudio,
+        audioBalance: state.audioBalance,
+        // NOTE: sleepTimer, abLoop and upNext intentionally excluded — they shouldn't outlive the session
         // NOTE: isPlaying intentionally excluded — persisting it caused
         // phantom auto-resume on page refresh / rehydration
       }),
     }
   )
 );
+
+/** Track for the lesson after `track` — keeps its play context so a series keeps going */
+async function resolveNextTrack(track: AudioTrack, wholeLessonMode: boolean): Promise<AudioTrack | null> {
+  try {
+    const result = await getNextLesson(track.id, track.context);
+    if (!('data' in result) || !result.data) return null;
+    return buildLessonTrack(result.data, { wholeLessonMode, context: track.context });
+  } catch {
+    // Offline / server unreachable — just stop at the end
+    return null;
+  }
+}
@@ -1,11 +1,12 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { createBookmark } from '@/actions/bookmarks';
+import { sendOrQueue } from '@/lib/sync-outbox';
 
 export interface LocalBookmark {
   id: string;
   lessonId: string;
   position: number;
+  endPosition?: number; // Set for saved A–B loop ranges — position is point A
   note: string;
   tag: string;
   createdAt: string;
@@ -13,7 +14,7 @@ export interface LocalBookmark {
 
 interface BookmarksState {
   bookmarks: LocalBookmark[];
-  addBookmark: (lessonId: string, position: number, note: string, tag: string) => void;
+  addBookmark: (lessonId: string, position: number, note: string, tag: string, endPosition?: number) => void;
   removeBookmark: (id: string) => void;
   getBookmarksByLesson: (lessonId: string) => LocalBookmark[];
   hasBookmark: (lessonId: string) => boolean;
@@ -25,11 +26,12 @@ export const useBookmarksStore = create<BookmarksState>()(
     (set, get) => ({
       bookmarks: [],
 
-      addBookmark: (lessonId, position, note, tag) => {
+      addBookmark: (lessonId, position, note, tag, endPosition) => {
         const newBookmark: LocalBookmark = {
           id: crypto.randomUUID(),
           lessonId,
           position,
+          endPosition,
           note,
           tag,
           createdAt: new Date().toISOString(),
@@ -39,13 +41,17 @@ export const useBookmarksStore = create<BookmarksState>()(
           bookmarks: [...state.bookmarks, newBookmark],
         }));
 
-        // Fire-and-forget server sync
-        createBookmark({
-          lesson_id: lessonId,
-          position: Math.round(position),
-          note: note || undefined,
-        }).catch(() => {
-          // Silent fail — local-first
+        // Server sync — waits in the offline outbox until it can go
+        void sendOrQueue({
+          url: '/api/bookmarks',
+          method: 'POST',
+          body: JSON.stringify({
+            id: newBookmark.id,
+            lesson_id: lessonId,
+            position: Math.round(position),
+            note: note || undefined,
+            created_at: newBookmark.createdAt,
+          }),
         });
       },
 
@@ -53,6 +59,8 @@ export const useBookmarksStore = create<BookmarksState>()(
         set((state) => ({
           bookmarks: state.bookmarks.filter((b) => b.id !== id),
         }));
+
+        void sendOrQueue({ url: '/api/bookmarks', method: 'DELETE', body: JSON.stringify({ id }) });
       },
 
       getBookmarksByLesson: (lessonId) => {
@@ -69,6 +77,16 @@ export const useBookmarksStore = create<BookmarksState>()(
             b.id === id ? { ...b, ...updates } : b
           ),
         }));
+
+        // The server keeps the note only — tags are local
+        if (updates.note !== undefined) {
+          void sendOrQueue({
+            url: '/api/bookmarks',
+            method: 'PATCH',
+            body: JSON.stringify({ id, note: updates.note }),
+            key: `bookmark-note:${id}`,
+          });
+        }
       },
     }),
     {
@@ -0,0 +1,93 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { OfflineLessonMeta } from '@/lib/offline-storage';
+
+export type DownloadStatus = 'queued' | 'downloading' | 'done' | 'error';
+
+/** A lesson waiting in (or finished by) the download queue. fileSize is the server's estimate */
+export interface DownloadItem extends Omit<OfflineLessonMeta, 'downloadedAt'> {
+  status: DownloadStatus;
+  progress: number; // 0–100
+}
+
+export type DownloadRequest = Omit<DownloadItem, 'status' | 'progress'>;
+
+interface DownloadQueueState {
+  items: DownloadItem[];
+  paused: boolean;
+  enqueue: (requests: DownloadRequest[]) => void;
+  setStatus: (lessonId: string, status: DownloadStatus) => void;
+  setProgress: (lessonId: string, progress: number) => void;
+  pause: () => void;
+  resume: () => void;
+  retry: (lessonId: string) => void;
+  retryFailed: () => void;
+  remove: (lessonId: string) => void;
+  clearFinished: () => void;
+}
+
+function update(items: DownloadItem[], lessonId: string, changes: Partial<DownloadItem>): DownloadItem[] {
+  return items.map((item) => (item.lessonId === lessonId ? { ...item, ...changes } : item));
+}
+
+/**
+ * The batch download queue — what to download and how far each item got.
+ * The downloading itself is done by downloadManager (lib/download-manager.ts).
+ */
+export const useDownloadStore = create<DownloadQueueState>()(
+  persist(
+    (set) => ({
+      items: [],
+      paused: false,
+
+      // Lessons already waiting or downloading stay where they are; finished or failed ones go again
+      enqueue: (requests) =>
+        set((state) => {
+          const active = new Set(
+            state.items.filter((i) => i.status === 'queued' || i.status === 'downloading').map((i) => i.lessonId)
+          );
+          const added = requests
+            .filter((r) => !active.has(r.lessonId))
+            .map((r): DownloadItem => ({ ...r, status: 'queued', progress: 0 }));
+          const addedIds = new Set(added.map((i) => i.lessonId));
+          return { items: [...state.items.filter((i) => !addedIds.has(i.lessonId)), ...added] };
+        }),
+
+      setStatus: (lessonId, status) =>
+        set((state) => ({
+          items: update(state.items, lessonId, {
+            status,
+            ...(status === 'done' ? { progress: 100 } : {}),
+          }),
+        })),
+
+      setProgress: (lessonId, progress) =>
+        set((state) => ({ items: update(state.items, lessonId, { progress }) })),
+
+      pause: () => set({ paused: true }),
+      resume: () => set({ paused: false }),
+
+      retry: (lessonId) =>
+        set((state) => ({ items: update(state.items, lessonId, { status: 'queued' }) })),
+
+      retryFailed: () =>
+        set((state) => ({
+          items: state.items.map((i) => (i.status === 'error' ? { ...i, status: 'queued' } : i)),
+        })),
+
+      remove: (lessonId) =>
+        set((state) => ({ items: state.items.filter((i) => i.lessonId !== lessonId) })),
+
+      clearFinished: () =>
+        set((state) => ({ items: state.items.filter((i) => i.status !== 'done') })),
+    }),
+    {
+      name: 'tora-downloads',
+      // A download cut off by a reload goes back in line — it resumes from the bytes already saved
+      partialize: (state) => ({
+        paused: state.paused,
+        items: state.items.map((i) => (i.status === 'downloading' ? { ...i, status: 'queued' as const } : i)),
+      }),
+    }
+  )
+);
@@ -6,13 +6,23 @@ export interface LocalProgress {
   position: number;
   lastPlayed: string;
   completed: boolean;
+  files?: Record<string, LocalFileProgress>; // By lesson_audio id, for multi-file lessons
+}
+
+export interface LocalFileProgress {
+  position: number;
+  lastPlayed: string;
+  completed: boolean;
 }
 
 interface ProgressState {
   progressMap: Record<string, LocalProgress>;
-  updateProgress: (lessonId: string, position: number) => void;
-  markComplete: (lessonId: string) => void;
+  // `position` is on the lesson's timeline, `filePosition` inside the audio file (the same for a single file)
+  updateProgress: (lessonId: string, position: number, audioFileId?: string, filePosition?: number) => void;
+  // With an audio file: marks just that file — the lesson completes once the server says all files are done
+  markComplete: (lessonId: string, audioFileId?: string) => void;
   getProgress: (lessonId: string) => LocalProgress | undefined;
+  getFileProgress: (lessonId: string, audioFileId: string) => LocalFileProgress | undefined;
   getRecentlyPlayed: (limit: number) => LocalProgress[];
 }
 
@@ -21,39 +31,71 @@ export const useProgressStore = create<ProgressState>()(
     (set, get) => ({
       progressMap: {},
 
-      updateProgress: (lessonId, position) => {
-        set((state) => ({
-          progressMap: {
-            ...state.progressMap,
-            [lessonId]: {
-              lessonId,
-              position,
-              lastPlayed: new Date().toISOString(),
-              completed: state.progressMap[lessonId]?.completed ?? false,
+      updateProgress: (lessonId, position, audioFileId, filePosition = position) => {
+        set((state) => {
+          const prev = state.progressMap[lessonId];
+          const lastPlayed = new Date().toISOString();
+          return {
+            progressMap: {
+              ...state.progressMap,
+              [lessonId]: {
+                lessonId,
+                position,
+                lastPlayed,
+                completed: prev?.completed ?? false,
+                files: audioFileId
+                  ? {
+                      ...prev?.files,
+                      [audioFileId]: {
+                        position: filePosition,
+                        lastPlayed,
+                        completed: prev?.files?.[audioFileId]?.completed ?? false,
+                      },
+                    }
+                  : prev?.files,
+              },
             },
-          },
-        }));
+          };
+        });
       },
 
-      markComplete: (lessonId) => {
-        set((state) => ({
-          progressMap: {
-            ...state.progressMap,
-            [lessonId]: {
-              ...state.progressMap[lessonId],
-              lessonId,
-              position: state.progressMap[lessonId]?.position ?? 0,
-              lastPlayed: new Date().toISOString(),
-              completed: true,
+      markComplete: (lessonId, audioFileId) => {
+        set((state) => {
+          const prev = state.progressMap[lessonId];
+          const lastPlayed = new Date().toISOString();
+          return {
+            progressMap: {
+              ...state.progressMap,
+              [lessonId]: {
+                ...prev,
+                lessonId,
+                position: prev?.position ?? 0,
+                lastPlayed,
+                completed: audioFileId ? prev?.completed ?? false : true,
+                files: audioFileId
+                  ? {
+                      ...prev?.files,
+                      [audioFileId]: {
+                        position: prev?.files?.[audioFileId]?.position ?? 0,
+                        lastPlayed,
+                        completed: true,
+                      },
+                    }
+                  : prev?.files,
+              },
             },
-          },
-        }));
+          };
+        });
       },
 
       getProgress: (lessonId) => {
         return get().progressMap[lessonId];
       },
 
+      getFileProgress: (lessonId, audioFileId) => {
+        return get().progressMap[lessonId]?.files?.[audioFileId];
+      },
+
       getRecentlyPlayed: (limit) => {
         const entries = Object.values(get().progressMap);
         return entries
@@ -56,6 +56,8 @@ export interface Lesson {
   seder_number: number | null;
   // New field from migration 005
   category_id: string | null;
+  // New field from migration 012 — set when is_published turns true
+  published_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -71,6 +73,9 @@ export interface LessonAudio {
   codec: string;
   sort_order: number;
   audio_type: string | null; // 'סידור' | 'עץ חיים' | custom
+  loudness: number | null; // Integrated loudness in LUFS, null until measured
+  peaks_url: string | null; // Waveform peaks JSON (/api/audio/peaks/...), null until generated
+  upload_id: string | null; // The chunked upload it came from — null for older files
   created_at: string;
 }
 
@@ -88,15 +93,26 @@ export interface LessonImage {
   created_at: string;
 }
 
+export interface LessonChapter {
+  id: string;
+  lesson_id: string;
+  audio_id: string | null; // null = the lesson's main audio_url
+  start_time: number; // seconds into the audio file
+  title: string;
+  created_at: string;
+}
+
 export interface LessonWithRelations extends Lesson {
   series?: Series | null;
   category?: Category | null;
   parts?: Lesson[];
   snippets?: Snippet[];
   progress?: PlaybackProgress | null;
+  file_progress?: PlaybackProgress[]; // One row per lesson_audio file played
   bookmarks?: Bookmark[];
   audio_files?: LessonAudio[];
   images?: LessonImage[];
+  chapters?: LessonChapter[];
 }
 
 export interface Snippet {
@@ -145,9 +161,41 @@ export interface Bookmark {
   lesson?: Lesson;
 }
 
+export type AudioSourceKind = 'main' | 'fallback' | 'original' | 'segment';
+
+export interface AudioError {
+  id: string;
+  lesson_id: string | null;
+  url: string;
+  source: AudioSourceKind;
+  error: string | null;
+  recovered: boolean; // Another source of the lesson played instead
+  user_agent: string | null;
+  created_at: string;
+}
+
+// One stretch of continuous listening — the History page's entries
+export interface ListeningSession {
+  id: string;
+  lesson_id: string;
+  audio_file_id: string | null;
+  whole_lesson: boolean; // Positions are on the whole-lesson timeline, not one file
+  started_at: string;
+  ended_at: string;
+  start_position: number; // seconds
+  end_position: number; // seconds
+  playback_speed: number;
+  created_at: string;
+}
+
+export interface ListeningSessionWithLesson extends ListeningSession {
+  lesson: LessonWithRelations | null;
+}
+
 export interface PlaybackProgress {
   id: string;
   lesson_id: string;
+  audio_file_id: string | null; // null = the lesson as a whole
   position: number; // seconds
   completed: boolean;
   last_played_at: string;
@@ -178,6 +226,18 @@ export interface UpdateLessonInput {
   is_published?: boolean;
 }
 
+export interface LessonChapterInput {
+  audio_id?: string | null;
+  start_time: number;
+  title: string;
+}
+
+// Where playback was started from — decides which lesson plays next
+export interface PlayContext {
+  type: 'series' | 'playlist' | 'category';
+  id: string;
+}
+
 export interface CreatePlaylistInput {
   name: string;
   hebrew_name?: string;
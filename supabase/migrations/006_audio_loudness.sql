@@ -0,0 +1,7 @@
+-- Migration 006: Add integrated loudness to lesson_audio
+-- Measured (EBU R128, LUFS) when an upload is assembled; the player uses it
+-- to apply a per-file gain so every recording plays at a consistent level.
+-- NULL = not measured yet (see scripts/backfill-loudness.mjs)
+-- =============================================================================
+
+ALTER TABLE lesson_audio ADD COLUMN IF NOT EXISTS loudness REAL;
@@ -0,0 +1,49 @@
+-- Migration 007: Add lesson_chapters table
+-- Named positions inside a lesson ("פתיחה", "שאלות ותשובות", ...). A chapter
+-- belongs to one audio file and start_time is seconds into that file, so
+-- chapters stay correct when files are reordered. audio_id NULL = the lesson's
+-- main audio_url (lessons without lesson_audio rows).
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS lesson_chapters (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  lesson_id UUID NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+  audio_id UUID REFERENCES lesson_audio(id) ON DELETE CASCADE,
+  start_time REAL NOT NULL DEFAULT 0,  -- Seconds from the start of the audio file
+  title TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_lesson_chapters_lesson_id ON lesson_chapters(lesson_id);
+CREATE INDEX IF NOT EXISTS idx_lesson_chapters_audio ON lesson_chapters(audio_id, start_time);
+
+-- Enable RLS
+ALTER TABLE lesson_chapters ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+DROP POLICY IF EXISTS "lesson_chapters_read" ON lesson_chapters;
+DROP POLICY IF EXISTS "lesson_chapters_insert" ON lesson_chapters;
+DROP POLICY IF EXISTS "lesson_chapters_update" ON lesson_chapters;
+DROP POLICY IF EXISTS "lesson_chapters_delete" ON lesson_chapters;
+
+CREATE POLICY "lesson_chapters_read"
+  ON lesson_chapters FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "lesson_chapters_insert"
+  ON lesson_chapters FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "lesson_chapters_update"
+  ON lesson_chapters FOR UPDATE
+  TO anon, authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "lesson_chapters_delete"
+  ON lesson_chapters FOR DELETE
+  TO anon, authenticated
+  USING (true);
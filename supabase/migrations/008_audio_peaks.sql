@@ -0,0 +1,7 @@
+-- Migration 008: Add waveform peaks reference to lesson_audio
+-- Peaks are computed when an upload is assembled and stored in R2 as JSON
+-- (peaks/<lesson_id>/<file>.json); peaks_url is the proxy URL the player fetches.
+-- NULL = not generated yet (see scripts/backfill-peaks.mjs)
+-- =============================================================================
+
+ALTER TABLE lesson_audio ADD COLUMN IF NOT EXISTS peaks_url TEXT;
@@ -0,0 +1,37 @@
+-- Migration 009: Add audio_errors table
+-- Playback failures reported by the player (POST /api/audio/report) so broken
+-- or undecodable files show up in the admin stats page. One row per failed
+-- source; recovered = the player went on to play another source of the lesson.
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS audio_errors (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  lesson_id UUID REFERENCES lessons(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  source TEXT NOT NULL,  -- 'main' | 'fallback' | 'original' | 'segment' (whole-lesson file)
+  error TEXT,
+  recovered BOOLEAN NOT NULL DEFAULT false,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_audio_errors_created_at ON audio_errors(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audio_errors_lesson_id ON audio_errors(lesson_id);
+
+-- Enable RLS
+ALTER TABLE audio_errors ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies — anyone playing can report, reading is gated by the admin actions
+DROP POLICY IF EXISTS "audio_errors_read" ON audio_errors;
+DROP POLICY IF EXISTS "audio_errors_insert" ON audio_errors;
+
+CREATE POLICY "audio_errors_read"
+  ON audio_errors FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "audio_errors_insert"
+  ON audio_errors FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (true);
@@ -0,0 +1,39 @@
+-- Migration 010: Add listening_sessions table
+-- What was actually listened to, when — one row per stretch of continuous
+-- playback (POST /api/history). playback_progress keeps only the latest
+-- position per lesson; this is the day-by-day record behind the History page.
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS listening_sessions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  lesson_id UUID NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+  audio_file_id UUID REFERENCES lesson_audio(id) ON DELETE SET NULL,
+  whole_lesson BOOLEAN NOT NULL DEFAULT false,  -- positions are on the whole-lesson timeline
+  started_at TIMESTAMPTZ NOT NULL,
+  ended_at TIMESTAMPTZ NOT NULL,
+  start_position REAL NOT NULL DEFAULT 0,  -- seconds
+  end_position REAL NOT NULL DEFAULT 0,    -- seconds
+  playback_speed REAL NOT NULL DEFAULT 1,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_listening_sessions_started_at ON listening_sessions(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_listening_sessions_lesson_id ON listening_sessions(lesson_id);
+
+-- Enable RLS
+ALTER TABLE listening_sessions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+DROP POLICY IF EXISTS "listening_sessions_read" ON listening_sessions;
+DROP POLICY IF EXISTS "listening_sessions_insert" ON listening_sessions;
+
+CREATE POLICY "listening_sessions_read"
+  ON listening_sessions FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "listening_sessions_insert"
+  ON listening_sessions FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (true);
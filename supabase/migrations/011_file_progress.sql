@@ -0,0 +1,18 @@
+-- Migration 011: Per-file playback progress
+-- A lesson with several lesson_audio files (e.g. סידור + עץ חיים) gets one
+-- playback_progress row per file next to the lesson-level row (audio_file_id
+-- NULL). The lesson-level row keeps the last position played and is only
+-- marked completed once every file of the lesson is.
+-- =============================================================================
+
+ALTER TABLE playback_progress
+  ADD COLUMN IF NOT EXISTS audio_file_id UUID REFERENCES lesson_audio(id) ON DELETE CASCADE;
+
+-- One row per (lesson, file) instead of one per lesson; NULLS NOT DISTINCT keeps
+-- the lesson-level row unique too
+ALTER TABLE playback_progress DROP CONSTRAINT IF EXISTS playback_progress_lesson_id_key;
+ALTER TABLE playback_progress DROP CONSTRAINT IF EXISTS playback_progress_lesson_file_key;
+ALTER TABLE playback_progress
+  ADD CONSTRAINT playback_progress_lesson_file_key UNIQUE NULLS NOT DISTINCT (lesson_id, audio_file_id);
+
+CREATE INDEX IF NOT EXISTS idx_playback_progress_audio_file_id ON playback_progress(audio_file_id);
@@ -0,0 +1,28 @@
+-- Migration 012: When a lesson was published
+-- A lesson is often created unpublished and published later (after its audio is
+-- uploaded), so created_at doesn't say when followers should see it. Set by a
+-- trigger whenever is_published turns true — /api/lessons/new (auto-download)
+-- polls on it.
+-- =============================================================================
+
+ALTER TABLE lessons ADD COLUMN IF NOT EXISTS published_at TIMESTAMPTZ;
+
+-- Already published: the closest we have
+UPDATE lessons SET published_at = created_at WHERE is_published AND published_at IS NULL;
+
+CREATE OR REPLACE FUNCTION set_published_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_published AND (TG_OP = 'INSERT' OR NOT OLD.is_published) THEN
+    NEW.published_at = now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS lessons_published_at ON lessons;
+CREATE TRIGGER lessons_published_at
+  BEFORE INSERT OR UPDATE OF is_published ON lessons
+  FOR EACH ROW EXECUTE FUNCTION set_published_at();
+
+CREATE INDEX IF NOT EXISTS idx_lessons_published_at ON lessons(published_at DESC);
@@ -0,0 +1,9 @@
+-- Migration 013: Which chunked upload a lesson_audio row came from
+-- /api/upload/complete records it so a retried or resumed completion — the first
+-- one's response lost on the way back — returns the row it already made instead
+-- of adding the file a second time. NULL for files uploaded before this.
+-- =============================================================================
+
+ALTER TABLE lesson_audio ADD COLUMN IF NOT EXISTS upload_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lesson_audio_upload_id ON lesson_audio(upload_id);